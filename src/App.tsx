@@ -1,28 +1,62 @@
 import Dialog from '@corvu/dialog';
-import { Show, createEffect, createSignal, onCleanup, onMount, type Component } from 'solid-js';
-
-import { init, toggle } from '@lib/audio/playback/router';
-
-import ChartDisplay, { DEMO_MELODY } from './components/Chart';
+import {
+  Match,
+  Show,
+  Switch,
+  createEffect,
+  createSignal,
+  on,
+  onCleanup,
+  onMount,
+  type Component,
+} from 'solid-js';
+
+import { init, stop, toggle } from '@lib/audio/playback/router';
+import { editor, getActiveMelody } from '@lib/editorStore';
+import { loadedSong } from '@lib/songs/library';
+
+import AbcEditor from './components/AbcEditor';
+import ChartDisplay from './components/Chart';
 import MenuBar from './components/Menu/MenuBar';
 import Piano from './components/Piano';
+import Recorder from './components/Recorder';
+import StepEditor from './components/StepEditor';
 import { playback } from './playbackStore';
 import { setSettings, settings } from './store';
 
 const App: Component = () => {
   const [showRotateHint, setShowRotateHint] = createSignal(false);
 
-  // Re-initialize when playback mode changes to waitForUser (to update nextNoteToPlay hint)
+  // Re-initialize when playback mode changes to waitForUser (to update nextNotesToPlay hint)
   createEffect(() => {
     if (settings.playbackMode === 'waitForUser' && playback.melody.length > 0) {
       init(); // Re-initialize with existing melody
     }
   });
 
-  onMount(() => {
-    // Initialize playback with demo melody (sets up hints without starting playback)
-    init(DEMO_MELODY);
+  // Load the selected song (or the one loaded from a relay, or the editor draft) into the
+  // playback engines whenever it, who plays which of its tracks, or its transposition changes
+  createEffect(
+    on(
+      () => [
+        settings.currentSongId,
+        loadedSong(),
+        editor.draftMelody,
+        { ...settings.trackRoles },
+        settings.transpose,
+        settings.transposeKey,
+        // A song fitted onto the piano moves with the keys shown
+        settings.fitToPiano && [settings.baseOctave, settings.octaveCount],
+      ],
+      () => {
+        stop();
+        // Sets up hints without starting playback
+        init(getActiveMelody());
+      },
+    ),
+  );
 
+  onMount(() => {
     // Keyboard shortcut: Space to toggle playback
     const handleKeyDown = (e: KeyboardEvent) => {
       // Prefer e.code for space; e.key is usually ' ' (space character), not 'Space'
@@ -36,7 +70,7 @@ const App: Component = () => {
         if (settings.playbackMode !== 'normal') {
           setSettings('playbackMode', 'normal');
         }
-        toggle(DEMO_MELODY);
+        toggle(getActiveMelody());
       }
     };
 
@@ -93,7 +127,17 @@ const App: Component = () => {
           <ChartDisplay />
         </div>
         <div class="w-full flex-1 min-h-0 flex flex-col">
-          <Piano />
+          <Switch fallback={<Piano />}>
+            <Match when={editor.isOpen && editor.mode === 'abc'}>
+              <AbcEditor />
+            </Match>
+            <Match when={editor.isOpen && editor.mode === 'step'}>
+              <StepEditor />
+            </Match>
+            <Match when={editor.isOpen && editor.mode === 'record'}>
+              <Recorder />
+            </Match>
+          </Switch>
         </div>
       </div>
       <InstructionsDialog
@@ -137,7 +181,7 @@ const InstructionsDialog = (props: InstructionsDialogProps) => {
                 </div>
                 <p class="mt-4 text-sm text-gray-600">
                   Press the keys on your keyboard or click/touch the piano to play. Press the Space
-                  key to play or pause the demo song.
+                  key to play or pause the selected song.
                 </p>
                 <p class="mt-3 text-xs text-gray-400 font-mono">
                   v{__APP_VERSION__} ({__GIT_SHA__})
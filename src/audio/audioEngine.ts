@@ -1,4 +1,6 @@
 import { settings, type InstrumentPreset } from '@lib/store';
+import { clampVelocity } from '@lib/utils/dynamicsUtils';
+import { normalizeNoteName, noteNameToMidi } from '@lib/utils/musicUtils';
 
 import { BUILTIN_PRESETS } from './presets';
 
@@ -28,11 +30,7 @@ export function initAudio() {
 }
 
 function getFreq(note: string) {
-  const notes = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-  const octave = parseInt(note.slice(-1));
-  const name = note.slice(0, -1);
-  const idx = notes.indexOf(name);
-  const midi = (octave + 1) * 12 + idx;
+  const midi = noteNameToMidi(note) ?? 69;
 
   return 440 * Math.pow(2, (midi - 69) / 12);
 }
@@ -56,8 +54,13 @@ function makeDistortionCurve(amount: number): Float32Array<ArrayBuffer> {
   return curve as Float32Array<ArrayBuffer>;
 }
 
-export function playNote(note: string) {
-  if (activeNotes[note]) {
+/**
+ * Start a note; `velocity` (1-127, as in MIDI) scales the volume, full volume when omitted
+ */
+export function playNote(note: string, velocity?: number) {
+  // One voice per key, however the note is spelled
+  const voiceKey = normalizeNoteName(note);
+  if (activeNotes[voiceKey]) {
     return;
   }
 
@@ -124,7 +127,9 @@ export function playNote(note: string) {
 
   // Apply amp envelope
   const { ampEnvelope } = preset;
-  const vol = settings.volume;
+  // Out of range or not a number, it would make the gain ramp below throw
+  const level = Number.isFinite(velocity) ? clampVelocity(velocity as number) : 127;
+  const vol = (settings.volume * level) / 127;
   gain.gain.setValueAtTime(0.0001, now);
   gain.gain.exponentialRampToValueAtTime(vol, now + ampEnvelope.attack);
   gain.gain.exponentialRampToValueAtTime(
@@ -146,11 +151,12 @@ export function playNote(note: string) {
   // Start oscillators
   oscs.forEach(({ osc }) => osc.start(now));
 
-  activeNotes[note] = { oscs: oscs.map((o) => o.osc), filter, gain, saturation };
+  activeNotes[voiceKey] = { oscs: oscs.map((o) => o.osc), filter, gain, saturation };
 }
 
 export function stopNote(note: string) {
-  const voice = activeNotes[note];
+  const voiceKey = normalizeNoteName(note);
+  const voice = activeNotes[voiceKey];
   if (!voice) {
     return;
   }
@@ -172,5 +178,33 @@ export function stopNote(note: string) {
     console.error(e);
   }
 
-  delete activeNotes[note];
+  delete activeNotes[voiceKey];
+}
+
+/**
+ * Current time of the audio clock, in seconds, for scheduling clicks
+ */
+export function getAudioTime() {
+  initAudio();
+  return getAudioContext().currentTime;
+}
+
+/**
+ * Schedule a short metronome click at a time of the audio clock; accented clicks are higher
+ */
+export function playClick(time: number, accent: boolean) {
+  const ctx = getAudioContext();
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = 'square';
+  osc.frequency.value = accent ? 1760 : 1320;
+
+  gain.gain.setValueAtTime(0.0001, time);
+  gain.gain.exponentialRampToValueAtTime(settings.volume * 0.5, time + 0.002);
+  gain.gain.exponentialRampToValueAtTime(0.0001, time + 0.05);
+
+  osc.connect(gain);
+  gain.connect(ctx.destination);
+  osc.start(time);
+  osc.stop(time + 0.06);
 }
@@ -0,0 +1,41 @@
+import { getAudioTime, playClick } from './audioEngine';
+
+// Clicks are scheduled on the audio clock a little ahead, so timers running late do not drift
+const LOOKAHEAD_S = 0.1;
+const SCHEDULE_INTERVAL_MS = 25;
+
+export interface MetronomeOptions {
+  interval: number; // seconds between clicks
+  clicksPerMeasure: number; // the first click of each measure is accented
+}
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Start clicking; returns the `Date.now()` time of the first click, which sounds after
+ * `delay` milliseconds
+ */
+export const startMetronome = ({ interval, clicksPerMeasure }: MetronomeOptions, delay = 0) => {
+  stopMetronome();
+  const firstClickTime = getAudioTime() + delay / 1000;
+  let count = 0;
+
+  const schedule = () => {
+    const until = getAudioTime() + LOOKAHEAD_S;
+    while (firstClickTime + count * interval < until) {
+      playClick(firstClickTime + count * interval, count % clicksPerMeasure === 0);
+      count += 1;
+    }
+  };
+  schedule();
+  timer = setInterval(schedule, SCHEDULE_INTERVAL_MS);
+
+  return Date.now() + delay;
+};
+
+export const stopMetronome = () => {
+  if (timer !== null) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
@@ -1,10 +1,16 @@
 import type { PlaybackError } from '@lib/playbackStore';
+import { getPitchClass } from '@lib/utils/musicUtils';
 
 /**
- * Check if two notes match (case-insensitive, octave-agnostic)
+ * Check if two notes match (octave-agnostic, any enharmonic spelling: "Bb" matches "A#")
  */
 export function checkNoteMatchAnyOctave(expectedNote: string, userNote: string): boolean {
-  // Extract note name without octave (e.g., "C4" -> "C", "F#5" -> "F#")
+  const expectedPitchClass = getPitchClass(expectedNote);
+  if (expectedPitchClass !== null) {
+    return expectedPitchClass === getPitchClass(userNote);
+  }
+
+  // Unparseable names: compare them without octave (e.g., "C4" -> "C", "F#5" -> "F#")
   const expectedNoteName = expectedNote.replace(/-?\d+$/, '');
   const userNoteName = userNote.replace(/-?\d+$/, '');
 
@@ -63,4 +69,5 @@ export const ERROR_TYPES = {
   TOO_LATE: 'TOO_LATE' as const,
   WRONG_DURATION: 'WRONG_DURATION' as const,
   MISSED_NOTE: 'MISSED_NOTE' as const,
+  EXTRA_NOTE: 'EXTRA_NOTE' as const,
 };
@@ -0,0 +1,99 @@
+import type { Melody, MelodyEvent } from '@lib/components/Chart';
+import { playback, setPlayback } from '@lib/playbackStore';
+import { settings } from '@lib/store';
+import { getEventVelocities } from '@lib/utils/dynamicsUtils';
+import {
+  getEventPitches,
+  getTiedDuration,
+  isRest,
+  isTiedFromPrevious,
+} from '@lib/utils/melodyUtils';
+import { unfoldMelody } from '@lib/utils/repeatUtils';
+import { getEventStartBeats } from '@lib/utils/rhythmUtils';
+import { getAccompaniment, getPracticeLine } from '@lib/utils/trackUtils';
+
+import { playNote, stopNote } from '../audioEngine';
+import { getBeatSpanDurationMs } from '../utils';
+
+const BEAT_TOLERANCE = 1e-6;
+
+// Pending until they fire, so that long practice runs do not pile up handles
+const accompanimentTimeouts = new Set<ReturnType<typeof setTimeout>>();
+const soundingNotes = new Set<string>();
+
+const schedule = (callback: () => void, delayMs: number) => {
+  const timeout = setTimeout(() => {
+    accompanimentTimeouts.delete(timeout);
+    callback();
+  }, delayMs);
+  accompanimentTimeouts.add(timeout);
+};
+
+/**
+ * The line an engine follows for a melody or a bare line of events, loading the tracks
+ * the app plays along with a melody and its tempo map (a bare line has neither)
+ */
+export function loadMelody(input?: Melody | MelodyEvent[]): MelodyEvent[] | undefined {
+  if (!input) {
+    return undefined;
+  }
+  if (Array.isArray(input)) {
+    setPlayback('accompaniment', []);
+    setPlayback('tempoMap', {});
+    return input;
+  }
+  // Repeats are played through in order
+  const melody = unfoldMelody(input);
+  setPlayback('accompaniment', getAccompaniment(melody, settings.trackRoles));
+  setPlayback('tempoMap', { tempo: melody.tempo, tempoChanges: melody.tempoChanges });
+  return getPracticeLine(melody, settings.trackRoles);
+}
+
+/**
+ * Play the accompaniment notes starting between two beats of the practice line, timed from now
+ */
+export function playAccompaniment(fromBeat: number, toBeat: number): void {
+  playback.accompaniment.forEach((events) => {
+    const beats = getEventStartBeats(events);
+    const velocities = getEventVelocities(events);
+
+    events.forEach((event, index) => {
+      const beat = beats[index];
+      if (
+        beat < fromBeat - BEAT_TOLERANCE ||
+        beat >= toBeat - BEAT_TOLERANCE ||
+        isRest(event) ||
+        isTiedFromPrevious(events, index)
+      ) {
+        return;
+      }
+
+      // Tied notes sound once, for the whole tie
+      const pitches = getEventPitches(event);
+      const startMs = getBeatSpanDurationMs(fromBeat, beat);
+      const endMs = getBeatSpanDurationMs(fromBeat, beat + getTiedDuration(events, index));
+      schedule(() => {
+        pitches.forEach((pitch) => {
+          playNote(pitch, velocities[index]);
+          soundingNotes.add(pitch);
+        });
+      }, startMs);
+      schedule(() => {
+        pitches.forEach((pitch) => {
+          stopNote(pitch);
+          soundingNotes.delete(pitch);
+        });
+      }, endMs);
+    });
+  });
+}
+
+/**
+ * Cancel the scheduled accompaniment and silence what is sounding
+ */
+export function stopAccompaniment(): void {
+  accompanimentTimeouts.forEach(clearTimeout);
+  accompanimentTimeouts.clear();
+  soundingNotes.forEach(stopNote);
+  soundingNotes.clear();
+}
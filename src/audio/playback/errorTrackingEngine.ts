@@ -1,6 +1,15 @@
-import type { Melody, NoteEvent } from '@lib/components/Chart';
+import type { Melody, MelodyEvent } from '@lib/components/Chart';
 import { playback, setPlayback } from '@lib/playbackStore';
-import { settings } from '@lib/store';
+import type { PlaybackError, UserInputEvent } from '@lib/playbackStore';
+import { getEventVelocities } from '@lib/utils/dynamicsUtils';
+import {
+  getEventPitches,
+  getTiedDuration,
+  isRest,
+  isSameEvent,
+  isTiedFromPrevious,
+} from '@lib/utils/melodyUtils';
+import { getEventStartBeats } from '@lib/utils/rhythmUtils';
 
 import { playNote, stopNote } from '../audioEngine';
 import {
@@ -11,20 +20,25 @@ import {
   ERROR_TYPES,
 } from '../noteMatcher';
 import { userInputTracker } from '../userInputTracker';
-import { getNoteDurationMs } from '../utils';
+import { getBeatSpanDurationMs } from '../utils';
+
+import { loadMelody, playAccompaniment, stopAccompaniment } from './accompaniment';
 
 let playbackTimeoutId: ReturnType<typeof setTimeout> | null = null;
-let currentlyPlayingNote: string | null = null;
+let currentlyPlayingNotes: string[] = [];
 let noteStartTime: number | null = null;
 let expectedNoteStartTime: number | null = null;
 
-function isSameMelody(a: NoteEvent[], b: NoteEvent[]): boolean {
+const REST_LABEL = 'rest'; // expectedNote reported for errors during a rest
+const TIMING_TOLERANCE_MS = 100;
+
+function isSameMelody(a: MelodyEvent[], b: MelodyEvent[]): boolean {
   if (a.length !== b.length) {
     return false;
   }
 
   for (let i = 0; i < a.length; i += 1) {
-    if (a[i].note !== b[i].note || a[i].duration !== b[i].duration) {
+    if (!isSameEvent(a[i], b[i])) {
       return false;
     }
   }
@@ -35,8 +49,8 @@ function isSameMelody(a: NoteEvent[], b: NoteEvent[]): boolean {
 /**
  * Initialize the engine with a melody (without starting playback)
  */
-export function init(melody?: Melody | NoteEvent[]): void {
-  const melodyNotes = Array.isArray(melody) ? melody : melody?.notes;
+export function init(melody?: Melody | MelodyEvent[]): void {
+  const melodyNotes = loadMelody(melody);
   if (melodyNotes && !isSameMelody(melodyNotes, playback.melody)) {
     setPlayback('melody', melodyNotes);
     setPlayback('currentNoteIndex', -1);
@@ -47,66 +61,102 @@ export function init(melody?: Melody | NoteEvent[]): void {
 }
 
 /**
- * Check user input against expected note and record errors
+ * Check user input against expected note (every pitch of a chord) and record errors
  */
-function checkNoteErrors(noteIndex: number, expectedNote: NoteEvent, noteStartTime: number): void {
+function checkNoteErrors(
+  noteIndex: number,
+  expectedNote: MelodyEvent,
+  noteStartTime: number,
+): void {
   const noteEndTime = Date.now();
-  const expectedDuration = getNoteDurationMs(expectedNote.duration, settings.tempo);
 
-  // Find user input events during this note's time window
-  const userEvents = userInputTracker.getEventsInWindow(noteStartTime, noteEndTime);
+  if (isRest(expectedNote)) {
+    checkRestErrors(noteIndex, noteStartTime, noteEndTime);
+    return;
+  }
 
-  if (userEvents.length === 0) {
-    // User didn't play anything - missed note
-    setPlayback('errors', [
-      ...playback.errors,
-      createError(ERROR_TYPES.MISSED_NOTE, noteIndex, {
-        expectedNote: expectedNote.note,
-      }),
-    ]);
+  // A tied continuation is still held from the note it is tied to, which was checked already
+  if (isTiedFromPrevious(playback.melody, noteIndex)) {
     return;
   }
 
+  // Tied notes sound as one, so the key should be held for the whole chain
+  const startBeat = getEventStartBeats(playback.melody)[noteIndex];
+  const expectedDuration = getBeatSpanDurationMs(
+    startBeat,
+    startBeat + getTiedDuration(playback.melody, noteIndex),
+  );
+  const expectedPitches = getEventPitches(expectedNote);
+
+  // Find user input events during this note's time window
+  const userEvents = userInputTracker.getEventsInWindow(noteStartTime, noteEndTime);
+
+  // Keys that belong to none of the expected pitches
+  const wrongEvents = userEvents.filter(
+    (event) => !expectedPitches.some((pitch) => checkNoteMatchAnyOctave(pitch, event.note)),
+  );
+
+  setPlayback('errors', [
+    ...playback.errors,
+    ...expectedPitches.flatMap((pitch) =>
+      checkPitchErrors(noteIndex, pitch, userEvents, wrongEvents, noteStartTime, expectedDuration),
+    ),
+  ]);
+}
+
+/**
+ * Errors for a single expected pitch of a note or chord
+ */
+function checkPitchErrors(
+  noteIndex: number,
+  expectedNote: string,
+  userEvents: UserInputEvent[],
+  wrongEvents: UserInputEvent[],
+  noteStartTime: number,
+  expectedDuration: number,
+): PlaybackError[] {
   // Find the event that matches the expected note (if any)
-  const matchingEvent = userEvents.find((event) => checkNoteMatchAnyOctave(expectedNote.note, event.note));
+  const matchingEvent = userEvents.find((event) =>
+    checkNoteMatchAnyOctave(expectedNote, event.note),
+  );
 
   if (!matchingEvent) {
-    // User played wrong note(s)
-    const wrongNote = userEvents[0].note;
-    setPlayback('errors', [
-      ...playback.errors,
+    // User didn't play this pitch: a wrong key if they pressed one, otherwise a missed note
+    if (wrongEvents.length === 0) {
+      return [createError(ERROR_TYPES.MISSED_NOTE, noteIndex, { expectedNote })];
+    }
+    return [
       createError(ERROR_TYPES.WRONG_NOTE, noteIndex, {
-        expectedNote: expectedNote.note,
-        actualNote: wrongNote,
+        expectedNote,
+        actualNote: wrongEvents[0].note,
       }),
-    ]);
-    return;
+    ];
   }
 
+  const errors: PlaybackError[] = [];
+
   // Check timing
   const timingError = calculateTimingError(noteStartTime, matchingEvent.pressTime);
-  const timingTolerance = 100; // ms
+  const timingTolerance = TIMING_TOLERANCE_MS;
 
   if (timingError < -timingTolerance) {
     // Too early
-    setPlayback('errors', [
-      ...playback.errors,
+    errors.push(
       createError(ERROR_TYPES.TOO_EARLY, noteIndex, {
-        expectedNote: expectedNote.note,
+        expectedNote,
         actualNote: matchingEvent.note,
         timingError: Math.abs(timingError),
       }),
-    ]);
+    );
   } else if (timingError > timingTolerance) {
     // Too late
-    setPlayback('errors', [
-      ...playback.errors,
+    errors.push(
       createError(ERROR_TYPES.TOO_LATE, noteIndex, {
-        expectedNote: expectedNote.note,
+        expectedNote,
         actualNote: matchingEvent.note,
         timingError,
       }),
-    ]);
+    );
   }
 
   // Check duration if note was released
@@ -116,16 +166,42 @@ function checkNoteErrors(noteIndex: number, expectedNote: NoteEvent, noteStartTi
 
     if (!checkDurationMatch(expectedDuration, actualDuration, durationTolerance)) {
       const durationError = actualDuration - expectedDuration;
-      setPlayback('errors', [
-        ...playback.errors,
+      errors.push(
         createError(ERROR_TYPES.WRONG_DURATION, noteIndex, {
-          expectedNote: expectedNote.note,
+          expectedNote,
           actualNote: matchingEvent.note,
           durationError: Math.abs(durationError),
         }),
-      ]);
+      );
     }
   }
+
+  return errors;
+}
+
+/**
+ * Flag every key pressed during a rest as an extra note.
+ * Presses within the timing tolerance of either edge count as late or early notes, not extras.
+ */
+function checkRestErrors(noteIndex: number, restStartTime: number, restEndTime: number): void {
+  const extraEvents = userInputTracker.getEventsInWindow(
+    restStartTime + TIMING_TOLERANCE_MS,
+    restEndTime - TIMING_TOLERANCE_MS,
+  );
+
+  if (extraEvents.length === 0) {
+    return;
+  }
+
+  setPlayback('errors', [
+    ...playback.errors,
+    ...extraEvents.map((event) =>
+      createError(ERROR_TYPES.EXTRA_NOTE, noteIndex, {
+        expectedNote: REST_LABEL,
+        actualNote: event.note,
+      }),
+    ),
+  ]);
 }
 
 /**
@@ -133,7 +209,6 @@ function checkNoteErrors(noteIndex: number, expectedNote: NoteEvent, noteStartTi
  */
 function scheduleNextNote(noteIndex: number): void {
   const { melody, isPlaying, startAfterTs } = playback;
-  const { tempo } = settings;
 
   // Stop if not playing
   if (!isPlaying) {
@@ -175,9 +250,14 @@ function scheduleNextNote(noteIndex: number): void {
 
   const note = melody[noteIndex];
 
-  // Stop the previous note if any
-  if (currentlyPlayingNote) {
-    stopNote(currentlyPlayingNote);
+  // A tied continuation keeps the previous note sounding
+  const isTieContinuation =
+    isTiedFromPrevious(melody, noteIndex) && currentlyPlayingNotes.length > 0;
+
+  // Stop the previous note or chord if any
+  if (!isTieContinuation) {
+    currentlyPlayingNotes.forEach(stopNote);
+    currentlyPlayingNotes = [];
   }
 
   // Update current note index in store
@@ -187,12 +267,19 @@ function scheduleNextNote(noteIndex: number): void {
   expectedNoteStartTime = Date.now();
   noteStartTime = expectedNoteStartTime;
 
-  // Play the current note
-  playNote(note.note);
-  currentlyPlayingNote = note.note;
+  // Play every pitch of the current note or chord (rests stay silent)
+  if (!isTieContinuation) {
+    const velocity = getEventVelocities(melody)[noteIndex];
+    currentlyPlayingNotes = getEventPitches(note);
+    currentlyPlayingNotes.forEach((pitch) => playNote(pitch, velocity));
+  }
+
+  // The tracks the app plays join in under this event
+  const beats = getEventStartBeats(melody);
+  playAccompaniment(beats[noteIndex], beats[noteIndex + 1]);
 
   // Schedule the next note
-  const durationMs = getNoteDurationMs(note.duration, tempo);
+  const durationMs = getBeatSpanDurationMs(beats[noteIndex], beats[noteIndex + 1]);
 
   playbackTimeoutId = setTimeout(() => {
     setPlayback('lastCompletedNoteIndex', noteIndex);
@@ -203,8 +290,8 @@ function scheduleNextNote(noteIndex: number): void {
 /**
  * Start or resume playback
  */
-export function play(input?: Melody | NoteEvent[]): void {
-  const melodyNotes = Array.isArray(input) ? input : input?.notes;
+export function play(input?: Melody | MelodyEvent[]): void {
+  const melodyNotes = loadMelody(input);
 
   // If melody is provided, set it. Only reset if it's truly a new melody.
   if (melodyNotes && !isSameMelody(melodyNotes, playback.melody)) {
@@ -241,10 +328,9 @@ export function pause(): void {
     playbackTimeoutId = null;
   }
 
-  if (currentlyPlayingNote) {
-    stopNote(currentlyPlayingNote);
-    currentlyPlayingNote = null;
-  }
+  currentlyPlayingNotes.forEach(stopNote);
+  currentlyPlayingNotes = [];
+  stopAccompaniment();
 
   noteStartTime = null;
   expectedNoteStartTime = null;
@@ -263,20 +349,23 @@ export function stop(): void {
     playbackTimeoutId = null;
   }
 
-  if (currentlyPlayingNote) {
-    stopNote(currentlyPlayingNote);
-    currentlyPlayingNote = null;
-  }
+  currentlyPlayingNotes.forEach(stopNote);
+  currentlyPlayingNotes = [];
+  stopAccompaniment();
 
   noteStartTime = null;
   expectedNoteStartTime = null;
+  // Keep the finished take so it can still be exported
+  if (userInputTracker.getTotalEventCount() > 0) {
+    setPlayback('userInputEvents', userInputTracker.getAllEvents());
+  }
   userInputTracker.clear();
 }
 
 /**
  * Toggle between play and pause
  */
-export function toggle(melody?: Melody | NoteEvent[]): void {
+export function toggle(melody?: Melody | MelodyEvent[]): void {
   if (playback.isPlaying) {
     pause();
   } else {
@@ -296,10 +385,9 @@ export function seek(noteIndex: number, delayMs: number = 0): void {
     playbackTimeoutId = null;
   }
 
-  if (currentlyPlayingNote) {
-    stopNote(currentlyPlayingNote);
-    currentlyPlayingNote = null;
-  }
+  currentlyPlayingNotes.forEach(stopNote);
+  currentlyPlayingNotes = [];
+  stopAccompaniment();
 
   // Set the new position
   const clampedIndex = Math.max(-1, Math.min(noteIndex, playback.melody.length - 1));
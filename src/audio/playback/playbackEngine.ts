@@ -1,21 +1,36 @@
-import type { Melody, NoteEvent } from '@lib/components/Chart';
+import type { Melody, MelodyEvent } from '@lib/components/Chart';
 import { playback, setPlayback } from '@lib/playbackStore';
 import { setSettings, settings } from '@lib/store';
+import { getEventVelocities } from '@lib/utils/dynamicsUtils';
+import {
+  getEventPitches,
+  getTopPitch,
+  isSameEvent,
+  isTiedFromPrevious,
+} from '@lib/utils/melodyUtils';
 import { adjustBaseOctaveForNote } from '@lib/utils/musicUtils';
+import { getEventStartBeats } from '@lib/utils/rhythmUtils';
 
 import { playNote, stopNote } from '../audioEngine';
-import { getNoteDurationMs } from '../utils';
+import { getBeatSpanDurationMs } from '../utils';
+
+import { loadMelody, playAccompaniment, stopAccompaniment } from './accompaniment';
 
 let playbackTimeoutId: ReturnType<typeof setTimeout> | null = null;
-let currentlyPlayingNote: string | null = null;
+let currentlyPlayingNotes: string[] = [];
+
+function stopCurrentNotes(): void {
+  currentlyPlayingNotes.forEach(stopNote);
+  currentlyPlayingNotes = [];
+}
 
-function isSameMelody(a: NoteEvent[], b: NoteEvent[]): boolean {
+function isSameMelody(a: MelodyEvent[], b: MelodyEvent[]): boolean {
   if (a.length !== b.length) {
     return false;
   }
 
   for (let i = 0; i < a.length; i += 1) {
-    if (a[i].note !== b[i].note || a[i].duration !== b[i].duration) {
+    if (!isSameEvent(a[i], b[i])) {
       return false;
     }
   }
@@ -26,8 +41,8 @@ function isSameMelody(a: NoteEvent[], b: NoteEvent[]): boolean {
 /**
  * Initialize the engine with a melody (without starting playback)
  */
-export function init(melody?: Melody | NoteEvent[]): void {
-  const melodyNotes = Array.isArray(melody) ? melody : melody?.notes;
+export function init(melody?: Melody | MelodyEvent[]): void {
+  const melodyNotes = loadMelody(melody);
   if (melodyNotes && !isSameMelody(melodyNotes, playback.melody)) {
     setPlayback('melody', melodyNotes);
     setPlayback('currentNoteIndex', -1);
@@ -40,7 +55,6 @@ export function init(melody?: Melody | NoteEvent[]): void {
  */
 function scheduleNextNote(noteIndex: number): void {
   const { melody, isPlaying, startAfterTs } = playback;
-  const { tempo } = settings;
 
   // Stop if not playing
   if (!isPlaying) {
@@ -73,31 +87,45 @@ function scheduleNextNote(noteIndex: number): void {
 
   const note = melody[noteIndex];
 
-  // Stop the previous note if any
-  if (currentlyPlayingNote) {
-    stopNote(currentlyPlayingNote);
+  // A tied continuation keeps the previous note sounding
+  const isTieContinuation =
+    isTiedFromPrevious(melody, noteIndex) && currentlyPlayingNotes.length > 0;
+
+  // Stop the previous note or chord if any
+  if (!isTieContinuation) {
+    stopCurrentNotes();
   }
 
   // Update current note index in store
   setPlayback('currentNoteIndex', noteIndex);
 
-  // Adjust baseOctave to make the current note visible
-  const optimalBaseOctave = adjustBaseOctaveForNote(
-    note.note,
-    settings.baseOctave,
-    settings.octaveCount,
-  );
+  // Rests are silent: just wait out their duration
+  const topPitch = getTopPitch(note);
+  if (topPitch && !isTieContinuation) {
+    // Adjust baseOctave to make the current note (the top of a chord) visible
+    const optimalBaseOctave = adjustBaseOctaveForNote(
+      topPitch,
+      settings.baseOctave,
+      settings.octaveCount,
+    );
+
+    // A song fitted onto the piano stays put: moving the keys would move it again
+    if (optimalBaseOctave !== settings.baseOctave && !settings.fitToPiano) {
+      setSettings('baseOctave', optimalBaseOctave);
+    }
 
-  if (optimalBaseOctave !== settings.baseOctave) {
-    setSettings('baseOctave', optimalBaseOctave);
+    // Play every pitch of the current note or chord together, as loud as its dynamics
+    const velocity = getEventVelocities(melody)[noteIndex];
+    currentlyPlayingNotes = getEventPitches(note);
+    currentlyPlayingNotes.forEach((pitch) => playNote(pitch, velocity));
   }
 
-  // Play the current note
-  playNote(note.note);
-  currentlyPlayingNote = note.note;
+  // The tracks the app plays join in under this event
+  const beats = getEventStartBeats(melody);
+  playAccompaniment(beats[noteIndex], beats[noteIndex + 1]);
 
   // Schedule the next note
-  const durationMs = getNoteDurationMs(note.duration, tempo);
+  const durationMs = getBeatSpanDurationMs(beats[noteIndex], beats[noteIndex + 1]);
 
   playbackTimeoutId = setTimeout(() => {
     setPlayback('lastCompletedNoteIndex', noteIndex);
@@ -108,8 +136,8 @@ function scheduleNextNote(noteIndex: number): void {
 /**
  * Start or resume playback
  */
-export function play(input?: Melody | NoteEvent[]): void {
-  const melodyNotes = Array.isArray(input) ? input : input?.notes;
+export function play(input?: Melody | MelodyEvent[]): void {
+  const melodyNotes = loadMelody(input);
 
   // If melody is provided, set it. Only reset if it's truly a new melody.
   if (melodyNotes && !isSameMelody(melodyNotes, playback.melody)) {
@@ -144,10 +172,8 @@ export function pause(): void {
     playbackTimeoutId = null;
   }
 
-  if (currentlyPlayingNote) {
-    stopNote(currentlyPlayingNote);
-    currentlyPlayingNote = null;
-  }
+  stopCurrentNotes();
+  stopAccompaniment();
 }
 
 /**
@@ -163,16 +189,14 @@ export function stop(): void {
     playbackTimeoutId = null;
   }
 
-  if (currentlyPlayingNote) {
-    stopNote(currentlyPlayingNote);
-    currentlyPlayingNote = null;
-  }
+  stopCurrentNotes();
+  stopAccompaniment();
 }
 
 /**
  * Toggle between play and pause
  */
-export function toggle(melody?: Melody | NoteEvent[]): void {
+export function toggle(melody?: Melody | MelodyEvent[]): void {
   if (playback.isPlaying) {
     pause();
   } else {
@@ -199,10 +223,8 @@ export function seek(noteIndex: number, delayMs: number = 0): void {
     playbackTimeoutId = null;
   }
 
-  if (currentlyPlayingNote) {
-    stopNote(currentlyPlayingNote);
-    currentlyPlayingNote = null;
-  }
+  stopCurrentNotes();
+  stopAccompaniment();
 
   // Set the new position
   const clampedIndex = Math.max(-1, Math.min(noteIndex, playback.melody.length - 1));
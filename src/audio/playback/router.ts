@@ -1,4 +1,4 @@
-import type { Melody, NoteEvent } from '@lib/components/Chart';
+import type { Melody, MelodyEvent } from '@lib/components/Chart';
 import { settings } from '@lib/store';
 
 import * as errorTrackingEngine from './errorTrackingEngine';
@@ -22,9 +22,9 @@ function getEngine() {
 
 /**
  * Initialize the playback system with a melody (without starting playback)
- * This sets up the melody and nextNoteToPlay for hints
+ * This sets up the melody and nextNotesToPlay for hints
  */
-export function init(melody?: Melody | NoteEvent[]): void {
+export function init(melody?: Melody | MelodyEvent[]): void {
   const engine = getEngine();
   if (engine.init) {
     engine.init(melody);
@@ -34,7 +34,7 @@ export function init(melody?: Melody | NoteEvent[]): void {
 /**
  * Start or resume playback
  */
-export function play(input?: Melody | NoteEvent[]): void {
+export function play(input?: Melody | MelodyEvent[]): void {
   const engine = getEngine();
   engine.play(input);
 }
@@ -58,7 +58,7 @@ export function stop(): void {
 /**
  * Toggle between play and pause
  */
-export function toggle(melody?: Melody | NoteEvent[]): void {
+export function toggle(melody?: Melody | MelodyEvent[]): void {
   const engine = getEngine();
   engine.toggle(melody);
 }
@@ -1,25 +1,76 @@
-import type { Melody, NoteEvent } from '@lib/components/Chart';
+import type { Melody, MelodyEvent } from '@lib/components/Chart';
 import { playback, setPlayback } from '@lib/playbackStore';
 import { setSettings, settings } from '@lib/store';
+import { getEventVelocities } from '@lib/utils/dynamicsUtils';
+import {
+  getEventPitches,
+  getHighestPitch,
+  getNextPitches,
+  isRest,
+  isSameEvent,
+  isTiedFromPrevious,
+} from '@lib/utils/melodyUtils';
 import { adjustBaseOctaveForNote } from '@lib/utils/musicUtils';
+import { getEventStartBeats } from '@lib/utils/rhythmUtils';
 
 import { playNote, stopNote } from '../audioEngine';
 import { checkNoteMatchAnyOctave } from '../noteMatcher';
 import { userInputTracker } from '../userInputTracker';
-import { getNoteDurationMs } from '../utils';
+import { getBeatSpanDurationMs } from '../utils';
 
-let currentlyPlayingNote: string | null = null;
+import { loadMelody, playAccompaniment, stopAccompaniment } from './accompaniment';
+
+let currentlyPlayingNotes: string[] = [];
 let inputCheckInterval: ReturnType<typeof setInterval> | null = null;
 let lastCheckedEventCount = 0;
 let noteDurationTimeout: ReturnType<typeof setTimeout> | null = null;
+// Pitches of the expected note/chord that have been freshly pressed since it became expected
+let matchedPitches = new Set<string>();
+// When the whole expected chord was first held down together
+let chordHeldSince: number | null = null;
+// Event the accompaniment was last played under, so pressing again does not repeat it
+let accompaniedNoteIndex = -1;
+
+function stopCurrentNotes(): void {
+  currentlyPlayingNotes.forEach(stopNote);
+  currentlyPlayingNotes = [];
+}
 
-function isSameMelody(a: NoteEvent[], b: NoteEvent[]): boolean {
+/**
+ * Update the piano hint (and visible octaves) for the next note or chord to play
+ */
+function setNextNotesToPlay(pitches: string[]): void {
+  if (pitches.length > 0) {
+    // Adjust baseOctave to make the next note (the top of a chord) visible
+    const optimalBaseOctave = adjustBaseOctaveForNote(
+      getHighestPitch(pitches),
+      settings.baseOctave,
+      settings.octaveCount,
+    );
+    // A song fitted onto the piano stays put: moving the keys would move it again
+    if (optimalBaseOctave !== settings.baseOctave && !settings.fitToPiano) {
+      setSettings('baseOctave', optimalBaseOctave);
+    }
+  }
+  setPlayback('nextNotesToPlay', pitches);
+}
+
+// How long an event of the melody lasts at its place in the tempo map
+const getEventDurationMs = (index: number) => {
+  const beats = getEventStartBeats(playback.melody);
+  return getBeatSpanDurationMs(beats[index], beats[index + 1]);
+};
+
+const isPitchHeld = (pitch: string, activeNotes: string[]) =>
+  activeNotes.some((activeNote) => checkNoteMatchAnyOctave(pitch, activeNote));
+
+function isSameMelody(a: MelodyEvent[], b: MelodyEvent[]): boolean {
   if (a.length !== b.length) {
     return false;
   }
 
   for (let i = 0; i < a.length; i += 1) {
-    if (a[i].note !== b[i].note || a[i].duration !== b[i].duration) {
+    if (!isSameEvent(a[i], b[i])) {
       return false;
     }
   }
@@ -27,7 +78,7 @@ function isSameMelody(a: NoteEvent[], b: NoteEvent[]): boolean {
   return true;
 }
 
-function setupMelody(melodyNotes: NoteEvent[]): void {
+function setupMelody(melodyNotes: MelodyEvent[]): void {
   setPlayback('melody', melodyNotes);
   setPlayback('currentNoteIndex', -1);
   setPlayback('lastCompletedNoteIndex', -1);
@@ -38,10 +89,10 @@ function setupMelody(melodyNotes: NoteEvent[]): void {
 
 /**
  * Initialize the engine with a melody (without starting playback)
- * This sets up the melody and nextNoteToPlay for hints
+ * This sets up the melody and nextNotesToPlay for hints
  */
-export function init(melody?: Melody | NoteEvent[]): void {
-  const melodyNotes = Array.isArray(melody) ? melody : melody?.notes;
+export function init(melody?: Melody | MelodyEvent[]): void {
+  const melodyNotes = loadMelody(melody);
 
   if (!melodyNotes || melodyNotes.length === 0) {
     return;
@@ -56,21 +107,8 @@ export function init(melody?: Melody | NoteEvent[]): void {
   if (settings.playbackMode === 'waitForUser' && playback.melody.length > 0) {
     const startIndex =
       playback.lastCompletedNoteIndex < 0 ? 0 : playback.lastCompletedNoteIndex + 1;
-    if (startIndex < playback.melody.length) {
-      const nextNote = playback.melody[startIndex].note;
-      // Adjust baseOctave to make the next note visible
-      const optimalBaseOctave = adjustBaseOctaveForNote(
-        nextNote,
-        settings.baseOctave,
-        settings.octaveCount,
-      );
-      if (optimalBaseOctave !== settings.baseOctave) {
-        setSettings('baseOctave', optimalBaseOctave);
-      }
-      setPlayback('nextNoteToPlay', nextNote);
-    } else {
-      setPlayback('nextNoteToPlay', null);
-    }
+    // Rests are skipped automatically, so hint the next sounding note
+    setNextNotesToPlay(getNextPitches(playback.melody, startIndex));
   }
 }
 
@@ -92,43 +130,45 @@ function checkUserInput(): void {
   }
 
   const expectedNote = melody[expectedNoteIndex];
-  const expectedNoteName = expectedNote.note;
+
+  // Nothing to play during a rest: the accompaniment plays through it, or it is skipped
+  // straight away when there is none
+  if (isRest(expectedNote)) {
+    if (playback.accompaniment.length === 0) {
+      advanceToNextNote();
+    } else if (!noteDurationTimeout) {
+      startRest(expectedNoteIndex);
+    }
+    return;
+  }
+
+  const expectedPitches = getEventPitches(expectedNote);
 
   // Check if we're waiting for duration (current note is set and matches expected)
   const isWaitingForDuration = playback.currentNoteIndex === expectedNoteIndex;
 
   if (isWaitingForDuration) {
-    // Check if the key is still pressed (any octave)
-    if (!userInputTracker.isNotePressedAnyOctave(expectedNoteName)) {
-      // Key was released before duration elapsed - reset and wait for them to press again
+    // Check if every key of the note or chord is still pressed (any octave)
+    const activeNotes = userInputTracker.getActiveNotes();
+    if (!expectedPitches.every((pitch) => isPitchHeld(pitch, activeNotes))) {
+      // A key was released before duration elapsed - reset and wait for them to press again
       if (noteDurationTimeout) {
         clearTimeout(noteDurationTimeout);
         noteDurationTimeout = null;
       }
-      // Stop the note that was playing
-      if (currentlyPlayingNote) {
-        stopNote(currentlyPlayingNote);
-        currentlyPlayingNote = null;
-      }
+      // Stop the notes that were playing
+      stopCurrentNotes();
+      chordHeldSince = null;
       // Reset current note index so it doesn't show as playing
       setPlayback('currentNoteIndex', expectedNoteIndex - 1);
       return; // Wait for them to press the key again
     }
 
-    // Get press time from the latest event (which should still be active)
-    const latestEvent = userInputTracker.getLatestEventForNoteAnyOctave(expectedNoteName);
-    if (!latestEvent || latestEvent.releaseTime !== null) {
-      // Shouldn't happen if isNotePressed is true, but handle it
-      setPlayback('currentNoteIndex', expectedNoteIndex - 1);
-      return;
-    }
-
-    const pressTime = latestEvent.pressTime;
-    const durationMs = getNoteDurationMs(expectedNote.duration, settings.tempo);
-    const elapsed = Date.now() - pressTime;
+    const durationMs = getEventDurationMs(expectedNoteIndex);
+    const elapsed = Date.now() - (chordHeldSince ?? Date.now());
 
     if (elapsed >= durationMs) {
-      // Duration has elapsed and key is still pressed, advance to next note
+      // Duration has elapsed and keys are still pressed, advance to next note
       if (noteDurationTimeout) {
         clearTimeout(noteDurationTimeout);
         noteDurationTimeout = null;
@@ -140,6 +180,17 @@ function checkUserInput(): void {
     return;
   }
 
+  // A tied continuation needs no new press while the keys are still held from the note before
+  if (isTiedFromPrevious(melody, expectedNoteIndex) && currentlyPlayingNotes.length > 0) {
+    const activeNotes = userInputTracker.getActiveNotes();
+    if (expectedPitches.every((pitch) => isPitchHeld(pitch, activeNotes))) {
+      startDurationTracking(expectedNoteIndex, Date.now(), activeNotes);
+      return;
+    }
+    // Released early: the tie is broken, so wait for a fresh press like any other note
+    stopCurrentNotes();
+  }
+
   // Get total event count to see if we have new events
   const currentEventCount = userInputTracker.getTotalEventCount();
 
@@ -154,35 +205,97 @@ function checkUserInput(): void {
   // Update the count we've checked
   lastCheckedEventCount = currentEventCount;
 
-  // Check all new events - if any match the expected note, start duration tracking
+  // Remember which pitches of the expected note or chord have been pressed
+  let latestPressTime = 0;
   for (const newEvent of newEvents) {
-    if (checkNoteMatchAnyOctave(expectedNoteName, newEvent.note)) {
-      // Correct note! Start duration tracking
-      const durationMs = getNoteDurationMs(expectedNote.duration, settings.tempo);
-
-      // Set a timeout as a backup to advance if checkUserInput stops being called
-      // Calculate when the timeout should fire based on when the note was pressed
-      const timeUntilAdvance = durationMs - (Date.now() - newEvent.pressTime);
-      if (timeUntilAdvance > 0) {
-        noteDurationTimeout = setTimeout(() => {
-          // Double-check that we're still waiting for this note and it's still pressed
-          if (
-            playback.currentNoteIndex === expectedNoteIndex &&
-            userInputTracker.isNotePressedAnyOctave(expectedNoteName)
-          ) {
-            noteDurationTimeout = null;
-            advanceToNextNote();
-          }
-        }, timeUntilAdvance);
+    for (const pitch of expectedPitches) {
+      if (checkNoteMatchAnyOctave(pitch, newEvent.note)) {
+        matchedPitches.add(pitch);
+        latestPressTime = Math.max(latestPressTime, newEvent.pressTime);
       }
+    }
+  }
 
-      // Update current note index immediately so it shows as playing
-      setPlayback('currentNoteIndex', expectedNoteIndex);
-      playNote(newEvent.note);
-      currentlyPlayingNote = newEvent.note;
+  // A chord only counts once all of its keys are held down together
+  const activeNotes = userInputTracker.getActiveNotes();
+  const isChordHeld = expectedPitches.every(
+    (pitch) => matchedPitches.has(pitch) && isPitchHeld(pitch, activeNotes),
+  );
+  if (latestPressTime === 0 || !isChordHeld) {
+    return;
+  }
+
+  // Correct note or chord! Start duration tracking from the last key that completed it
+  startDurationTracking(expectedNoteIndex, latestPressTime, activeNotes);
+}
+
+/**
+ * Mark the expected note as playing and advance once it has been held for its duration
+ */
+function startDurationTracking(
+  expectedNoteIndex: number,
+  pressTime: number,
+  activeNotes: string[],
+): void {
+  const expectedNote = playback.melody[expectedNoteIndex];
+  const expectedPitches = getEventPitches(expectedNote);
+
+  chordHeldSince = pressTime;
+  const durationMs = getEventDurationMs(expectedNoteIndex);
+
+  // Set a timeout as a backup to advance if checkUserInput stops being called
+  // Calculate when the timeout should fire based on when the chord was completed
+  const timeUntilAdvance = durationMs - (Date.now() - pressTime);
+  if (timeUntilAdvance > 0) {
+    noteDurationTimeout = setTimeout(() => {
+      // Double-check that we're still waiting for this note and it's still held
+      const stillActive = userInputTracker.getActiveNotes();
+      if (
+        playback.currentNoteIndex === expectedNoteIndex &&
+        expectedPitches.every((pitch) => isPitchHeld(pitch, stillActive))
+      ) {
+        noteDurationTimeout = null;
+        advanceToNextNote();
+      }
+    }, timeUntilAdvance);
+  }
+
+  // Update current note index immediately so it shows as playing
+  setPlayback('currentNoteIndex', expectedNoteIndex);
 
-      return; // Found correct note, wait for duration
+  // A tied continuation is already sounding
+  if (currentlyPlayingNotes.length === 0) {
+    currentlyPlayingNotes = activeNotes.filter((activeNote) =>
+      expectedPitches.some((pitch) => checkNoteMatchAnyOctave(pitch, activeNote)),
+    );
+    const velocity = getEventVelocities(playback.melody)[expectedNoteIndex];
+    currentlyPlayingNotes.forEach((note) => playNote(note, velocity));
+  }
+
+  // The tracks the app plays join in once the user plays the event
+  if (accompaniedNoteIndex !== expectedNoteIndex) {
+    accompaniedNoteIndex = expectedNoteIndex;
+    const beats = getEventStartBeats(playback.melody);
+    playAccompaniment(beats[expectedNoteIndex], beats[expectedNoteIndex + 1]);
+  }
+}
+
+/**
+ * Mark a rest as playing, with the accompaniment under it, and advance once it has lasted
+ */
+function startRest(expectedNoteIndex: number): void {
+  setPlayback('currentNoteIndex', expectedNoteIndex);
+  noteDurationTimeout = setTimeout(() => {
+    noteDurationTimeout = null;
+    if (playback.expectedNoteIndex === expectedNoteIndex) {
+      advanceToNextNote();
     }
+  }, getEventDurationMs(expectedNoteIndex));
+
+  if (accompaniedNoteIndex !== expectedNoteIndex) {
+    accompaniedNoteIndex = expectedNoteIndex;
+    const beats = getEventStartBeats(playback.melody);
+    playAccompaniment(beats[expectedNoteIndex], beats[expectedNoteIndex + 1]);
   }
 }
 
@@ -192,13 +305,6 @@ function checkUserInput(): void {
 function advanceToNextNote(): void {
   const { melody, expectedNoteIndex } = playback;
 
-  // Stop the previous note if any
-  if (currentlyPlayingNote) {
-    stopNote(currentlyPlayingNote);
-  }
-
-  const currentNote = melody[expectedNoteIndex];
-
   // Update indices
   const newIndex = expectedNoteIndex + 1;
   setPlayback('currentNoteIndex', expectedNoteIndex);
@@ -206,32 +312,20 @@ function advanceToNextNote(): void {
   setPlayback('expectedNoteIndex', newIndex);
 
   // Update next note to play for piano highlighting
-  if (newIndex < melody.length) {
-    const nextNote = melody[newIndex].note;
-    // Adjust baseOctave to make the next note visible
-    const optimalBaseOctave = adjustBaseOctaveForNote(
-      nextNote,
-      settings.baseOctave,
-      settings.octaveCount,
-    );
-    if (optimalBaseOctave !== settings.baseOctave) {
-      setSettings('baseOctave', optimalBaseOctave);
-    }
-    setPlayback('nextNoteToPlay', nextNote);
-  } else {
-    setPlayback('nextNoteToPlay', null);
-  }
+  setNextNotesToPlay(getNextPitches(melody, newIndex));
 
-  // Stop the note (user already played it, we just played it for visual feedback)
-  if (currentlyPlayingNote) {
-    stopNote(currentlyPlayingNote);
-    currentlyPlayingNote = null;
+  // Stop the notes (user already played them, we just played them for visual feedback),
+  // unless the next note is tied to them and should keep sounding
+  if (!isTiedFromPrevious(melody, newIndex)) {
+    stopCurrentNotes();
   }
+  matchedPitches = new Set();
+  chordHeldSince = null;
 
   // Check if we've reached the end
   if (newIndex >= melody.length) {
     // Wait for the duration of the last note before stopping
-    const durationMs = getNoteDurationMs(currentNote.duration, settings.tempo);
+    const durationMs = getEventDurationMs(expectedNoteIndex);
     setTimeout(() => {
       stop();
     }, durationMs);
@@ -265,8 +359,8 @@ function stopInputChecking(): void {
 /**
  * Start or resume playback
  */
-export function play(input?: Melody | NoteEvent[]): void {
-  const melodyNotes = Array.isArray(input) ? input : input?.notes;
+export function play(input?: Melody | MelodyEvent[]): void {
+  const melodyNotes = loadMelody(input);
 
   // Setup melody if different
   if (melodyNotes && !isSameMelody(melodyNotes, playback.melody)) {
@@ -297,21 +391,7 @@ export function play(input?: Melody | NoteEvent[]): void {
   }
 
   // Set next note to play for piano highlighting (always update when play() is called)
-  if (startIndex < playback.melody.length) {
-    const nextNote = playback.melody[startIndex].note;
-    // Adjust baseOctave to make the next note visible
-    const optimalBaseOctave = adjustBaseOctaveForNote(
-      nextNote,
-      settings.baseOctave,
-      settings.octaveCount,
-    );
-    if (optimalBaseOctave !== settings.baseOctave) {
-      setSettings('baseOctave', optimalBaseOctave);
-    }
-    setPlayback('nextNoteToPlay', nextNote);
-  } else {
-    setPlayback('nextNoteToPlay', null);
-  }
+  setNextNotesToPlay(getNextPitches(playback.melody, startIndex));
 
   // Start checking for user input
   startInputChecking();
@@ -330,10 +410,11 @@ export function pause(): void {
     noteDurationTimeout = null;
   }
 
-  if (currentlyPlayingNote) {
-    stopNote(currentlyPlayingNote);
-    currentlyPlayingNote = null;
-  }
+  stopCurrentNotes();
+  stopAccompaniment();
+  accompaniedNoteIndex = -1;
+  matchedPitches = new Set();
+  chordHeldSince = null;
 }
 
 /**
@@ -344,7 +425,7 @@ export function stop(): void {
   setPlayback('lastCompletedNoteIndex', -1);
   setPlayback('expectedNoteIndex', -1);
   setPlayback('isPlaying', false);
-  setPlayback('nextNoteToPlay', null);
+  setPlayback('nextNotesToPlay', []);
 
   stopInputChecking();
 
@@ -354,18 +435,23 @@ export function stop(): void {
     noteDurationTimeout = null;
   }
 
-  if (currentlyPlayingNote) {
-    stopNote(currentlyPlayingNote);
-    currentlyPlayingNote = null;
-  }
+  stopCurrentNotes();
+  stopAccompaniment();
+  accompaniedNoteIndex = -1;
+  matchedPitches = new Set();
+  chordHeldSince = null;
 
+  // Keep the finished take so it can still be exported
+  if (userInputTracker.getTotalEventCount() > 0) {
+    setPlayback('userInputEvents', userInputTracker.getAllEvents());
+  }
   userInputTracker.clear();
 }
 
 /**
  * Toggle between play and pause
  */
-export function toggle(melody?: Melody | NoteEvent[]): void {
+export function toggle(melody?: Melody | MelodyEvent[]): void {
   if (playback.isPlaying) {
     pause();
   } else {
@@ -382,10 +468,15 @@ export function seek(noteIndex: number, _delayMs: number = 0): void {
   // Stop current playback
   stopInputChecking();
 
-  if (currentlyPlayingNote) {
-    stopNote(currentlyPlayingNote);
-    currentlyPlayingNote = null;
+  if (noteDurationTimeout) {
+    clearTimeout(noteDurationTimeout);
+    noteDurationTimeout = null;
   }
+  stopCurrentNotes();
+  stopAccompaniment();
+  accompaniedNoteIndex = -1;
+  matchedPitches = new Set();
+  chordHeldSince = null;
 
   // Set the new position
   const clampedIndex = Math.max(-1, Math.min(noteIndex, playback.melody.length - 1));
@@ -394,21 +485,7 @@ export function seek(noteIndex: number, _delayMs: number = 0): void {
   setPlayback('expectedNoteIndex', clampedIndex >= 0 ? clampedIndex : -1);
 
   // Update next note to play
-  if (clampedIndex >= 0 && clampedIndex < playback.melody.length) {
-    const nextNote = playback.melody[clampedIndex].note;
-    // Adjust baseOctave to make the next note visible
-    const optimalBaseOctave = adjustBaseOctaveForNote(
-      nextNote,
-      settings.baseOctave,
-      settings.octaveCount,
-    );
-    if (optimalBaseOctave !== settings.baseOctave) {
-      setSettings('baseOctave', optimalBaseOctave);
-    }
-    setPlayback('nextNoteToPlay', nextNote);
-  } else {
-    setPlayback('nextNoteToPlay', null);
-  }
+  setNextNotesToPlay(clampedIndex >= 0 ? getNextPitches(playback.melody, clampedIndex) : []);
 
   // Resume if was playing
   if (wasPlaying && clampedIndex >= 0) {
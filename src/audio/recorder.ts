@@ -0,0 +1,38 @@
+import { toRecordedNotes, type Take } from '@lib/utils/quantizeUtils';
+
+import { startMetronome, stopMetronome } from './metronome';
+import { userInputTracker } from './userInputTracker';
+
+let session: { startTime: number; tempo: number; ratio: [number, number] } | null = null;
+
+/**
+ * Start a take: the metronome clicks the beat unit of the meter and counts in one measure;
+ * keys played on the piano from then on are kept. Returns the `Date.now()` time of the
+ * first downbeat.
+ */
+export const startRecording = (tempo: number, ratio: [number, number]): number => {
+  const [clicksPerMeasure, beatUnit] = ratio;
+  const interval = ((4 / beatUnit) * 60) / tempo;
+
+  userInputTracker.clear();
+  const firstClickTime = startMetronome({ interval, clicksPerMeasure });
+  const startTime = firstClickTime + clicksPerMeasure * interval * 1000;
+  session = { startTime, tempo, ratio };
+  return startTime;
+};
+
+/**
+ * Stop the metronome and return the take, timed in beats from the first downbeat
+ */
+export const stopRecording = (): Take | null => {
+  stopMetronome();
+  if (!session) {
+    return null;
+  }
+
+  const { startTime, tempo, ratio } = session;
+  session = null;
+  const notes = toRecordedNotes(userInputTracker.getAllEvents(), startTime, Date.now(), tempo);
+  // Keys let go of before the first downbeat were only warming up
+  return { notes: notes.filter((note) => note.end > 0), tempo, ratio };
+};
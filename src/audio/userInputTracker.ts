@@ -1,5 +1,7 @@
 import type { UserInputEvent } from '@lib/playbackStore';
 
+import { checkNoteMatchAnyOctave } from './noteMatcher';
+
 class UserInputTracker {
   private events: UserInputEvent[] = [];
   private activePresses: Map<string, number> = new Map(); // note -> pressTime
@@ -51,6 +53,13 @@ class UserInputTracker {
     );
   }
 
+  /**
+   * Get a copy of every recorded event, in press order
+   */
+  getAllEvents(): UserInputEvent[] {
+    return this.events.map((event) => ({ ...event }));
+  }
+
   /**
    * Get the most recent event for any octave of a note (octave-agnostic)
    */
@@ -107,13 +116,9 @@ class UserInputTracker {
    * Check if any octave of a note is currently pressed (octave-agnostic)
    */
   isNotePressedAnyOctave(note: string): boolean {
-    // Extract note name without octave (e.g., "C4" -> "C", "F#5" -> "F#")
-    const noteName = note.replace(/-?\d+$/, '');
-
-    // Check if any pressed note matches this note name (any octave)
+    // Check if any pressed note matches this note, in any octave or spelling ("Bb" and "A#")
     for (const pressedNote of this.activePresses.keys()) {
-      const pressedNoteName = pressedNote.replace(/-?\d+$/, '');
-      if (pressedNoteName.toLowerCase() === noteName.toLowerCase()) {
+      if (checkNoteMatchAnyOctave(note, pressedNote)) {
         return true;
       }
     }
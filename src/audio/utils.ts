@@ -1,7 +1,10 @@
+import { playback } from '@lib/playbackStore';
+import { settings } from '@lib/store';
+import { getBeatSpanMs } from '@lib/utils/tempoUtils';
+
 /**
- * Calculates the duration of a note in milliseconds based on tempo
+ * Milliseconds between two beats of the loaded melody, following its tempo map at the global tempo
  */
-export function getNoteDurationMs(duration: number, tempo: number): number {
-  const msPerBeat = 60000 / tempo;
-  return duration * msPerBeat;
+export function getBeatSpanDurationMs(fromBeat: number, toBeat: number): number {
+  return getBeatSpanMs(playback.tempoMap, fromBeat, toBeat, settings.tempo);
 }
@@ -0,0 +1,132 @@
+import { For, Show, createEffect, createMemo, createSignal, type Component } from 'solid-js';
+
+import { closeEditor, setEditor } from '@lib/editorStore';
+import { formatAbcError, melodyToAbc, parseAbc } from '@lib/formats/abc';
+import { addCustomSong, getCurrentSong } from '@lib/songs/library';
+import { unfoldMelody } from '@lib/utils/repeatUtils';
+
+const songToAbc = () => {
+  const song = getCurrentSong();
+  // Repeat signs are not written yet, so the tune is written out as it is played
+  return melodyToAbc(unfoldMelody(song.melody), { title: song.title, composer: song.composer });
+};
+
+const AbcEditor: Component = () => {
+  const [text, setText] = createSignal(songToAbc());
+  const [savedTitle, setSavedTitle] = createSignal<string | null>(null);
+
+  // Only the first tune is previewed
+  const tunes = createMemo(() => parseAbc(text()));
+  const tune = () => tunes()[0];
+  const errors = () => tune()?.errors ?? [];
+  const lines = createMemo(() => text().split(/\r?\n/));
+
+  // Keep showing the last valid draft while the text has errors
+  createEffect(() => {
+    const current = tune();
+    if (current && current.errors.length === 0 && current.melody.notes.length > 0) {
+      setEditor('draftMelody', current.melody);
+    }
+  });
+
+  const handleSave = () => {
+    const current = tune();
+    if (!current || current.errors.length > 0 || current.melody.notes.length === 0) {
+      return;
+    }
+
+    const song = addCustomSong({
+      title: current.title || 'Untitled',
+      composer: current.composer || 'Unknown',
+      difficulty: 'intermediate',
+      melody: current.melody,
+    });
+    setSavedTitle(song.title);
+  };
+
+  const handleLoadSong = () => {
+    setText(songToAbc());
+    setSavedTitle(null);
+  };
+
+  return (
+    <div class="w-full flex-1 min-h-0 flex flex-col gap-2 rounded-xl bg-white/80 p-3 shadow-2xl border border-corvu-200">
+      <div class="flex items-center gap-2">
+        <h2 class="flex-1 text-lg font-bold text-corvu-text">ABC Editor</h2>
+        <button
+          onClick={handleLoadSong}
+          class="rounded-lg border border-corvu-300 bg-white px-3 py-1.5 text-sm hover:bg-corvu-50"
+        >
+          Load Current Song
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!tune() || errors().length > 0}
+          class="rounded-lg bg-corvu-400 px-3 py-1.5 text-sm text-white hover:bg-corvu-300 disabled:opacity-50"
+        >
+          Save to My Songs
+        </button>
+        <button
+          onClick={closeEditor}
+          class="rounded-lg border border-corvu-300 bg-white px-3 py-1.5 text-sm hover:bg-corvu-50"
+          aria-label="Close ABC editor"
+        >
+          ×
+        </button>
+      </div>
+
+      <textarea
+        value={text()}
+        onInput={(e) => {
+          setText(e.currentTarget.value);
+          setSavedTitle(null);
+        }}
+        spellcheck={false}
+        class="w-full flex-1 min-h-0 resize-none rounded-lg border border-corvu-300 bg-white px-3 py-2 font-mono text-sm focus:border-corvu-400 focus:outline-none"
+        aria-label="ABC notation"
+        aria-invalid={errors().length > 0}
+      />
+
+      <div class="max-h-32 overflow-y-auto space-y-1 text-xs">
+        <For each={errors()}>
+          {(error) => (
+            <div class="rounded-lg border border-red-300 bg-red-50 px-3 py-1 text-red-700">
+              <div>{formatAbcError(error)}</div>
+              {/* Point at the offending column in the source line */}
+              <pre class="mt-1 overflow-x-auto font-mono">
+                {`${lines()[error.line - 1] ?? ''}\n${' '.repeat(error.column - 1)}^`}
+              </pre>
+            </div>
+          )}
+        </For>
+
+        <Show when={errors().length === 0 && tune()}>
+          {(current) => (
+            <For each={current().warnings}>
+              {(warning) => (
+                <div class="rounded-lg border border-yellow-300 bg-yellow-50 px-3 py-1 text-yellow-800">
+                  {warning}
+                </div>
+              )}
+            </For>
+          )}
+        </Show>
+
+        <Show when={tunes().length > 1}>
+          <div class="text-gray-500">
+            Previewing the first of {tunes().length} tunes. Use Import in the Song Library to pick
+            another one.
+          </div>
+        </Show>
+
+        <Show when={savedTitle()}>
+          <div class="rounded-lg border border-green-300 bg-green-50 px-3 py-1 text-green-800">
+            Saved “{savedTitle()}” to My Songs.
+          </div>
+        </Show>
+      </div>
+    </div>
+  );
+};
+
+export default AbcEditor;
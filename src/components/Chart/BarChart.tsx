@@ -3,12 +3,26 @@ import { For, Show, createEffect, createMemo } from 'solid-js';
 import { seek } from '@lib/audio/playback/router';
 import { playback, setPlayback } from '@lib/playbackStore';
 import { settings } from '@lib/store';
-import { getNoteColor, getNoteContrastColor, getSolfege } from '@lib/utils/musicUtils';
-
+import { getEventPitches, getHighestPitch, isRest, isSameEvent } from '@lib/utils/melodyUtils';
+import { unfoldMelody } from '@lib/utils/repeatUtils';
+import { getEventStartBeats, getMeasureStarts } from '@lib/utils/rhythmUtils';
+import { getBeatSpanMs } from '@lib/utils/tempoUtils';
+import { getAccompaniment, getPracticeLine, getTrackRole, getTracks } from '@lib/utils/trackUtils';
+
+import { BarTrack } from './BarTrack';
+import { Lyrics } from './Lyrics';
 import { createPanAndSeek } from './panUtils';
 import { PlayheadControls } from './PlayheadControls';
+import {
+  BASS_BASE_Y,
+  getStaffLineYs,
+  getStaffY,
+  GRAND_STAFF_HEIGHT,
+  TREBLE_TOP_Y,
+} from './staffUtils';
+import { createPlaybackBeats, getTrackColor, getTrackOpacity } from './trackLayout';
 
-import type { Melody, NoteEvent } from './index';
+import type { Melody, MelodyEvent } from './index';
 
 interface BarChartProps {
   melody: Melody;
@@ -17,37 +31,23 @@ interface BarChartProps {
 const BarChart = (props: BarChartProps) => {
   const BAR_WIDTH_UNIT = 60; // px per duration unit
   const BAR_GAP = 6;
-  const BAR_HEIGHT = 10;
   const PLAYHEAD_X = 40; // Fixed playhead position from left
 
-  // Staff-like grid constants (in viewBox units)
-  const VIEWBOX_HEIGHT = 80;
-  const STAFF_LINE_SPACING = 12;
-  const STAFF_BASE_Y = 52; // bottom line (E4), positioned to leave room for low notes
-  const STAFF_LINE_COUNT = 5;
   const START_X = PLAYHEAD_X;
+  const REST_STAFF_NOTE = 'B4'; // Rests are drawn on the middle line of the treble staff
 
-  const getStaffY = (note: string) => {
-    const noteName = note.replace(/\d+/, '').replace('#', '');
-    const octave = parseInt(note.match(/\d+/)?.[0] || '4');
-
-    // Map notes to scale steps relative to C4
-    const scale = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
-    const idx = scale.indexOf(noteName);
-    const globalStep = (octave - 4) * 7 + idx;
+  // Repeats are laid out one pass after another, the way they are played
+  const melody = createMemo(() => unfoldMelody(props.melody));
 
-    // Treble clef reference used in SheetChart: bottom line is E4.
-    const E4_Step = 2; // C=0, D=1, E=2
-    const diff = globalStep - E4_Step;
-
-    // Each diatonic step is a half-line (line/space), so spacing/2.
-    return STAFF_BASE_Y - diff * (STAFF_LINE_SPACING / 2);
-  };
+  // The line the user plays drives scrolling, seeking and bar lines; every track is drawn
+  const practiceLine = createMemo(() => getPracticeLine(melody(), settings.trackRoles));
+  const tracks = createMemo(() => getTracks(melody()));
+  const { currentSpan, playedUntil, isSounding } = createPlaybackBeats(() => practiceLine());
 
   // Precompute X positions based on duration (timeline), not index.
   const timeline = createMemo(() => {
     let cursorX = START_X;
-    const computed = props.melody.notes.map((item) => {
+    const computed = practiceLine().map((item) => {
       const x = cursorX;
       // Use grid-based width: occupy the full slot minus gap
       const w = item.duration * BAR_WIDTH_UNIT - BAR_GAP;
@@ -64,12 +64,12 @@ const BarChart = (props: BarChartProps) => {
   const items = () => timeline().items;
   const svgWidth = () => timeline().width;
 
-  const isSameNotes = (a: NoteEvent[], b: NoteEvent[]) => {
+  const isSameNotes = (a: MelodyEvent[], b: MelodyEvent[]) => {
     if (a.length !== b.length) {
       return false;
     }
     for (let i = 0; i < a.length; i += 1) {
-      if (a[i].note !== b[i].note || a[i].duration !== b[i].duration) {
+      if (!isSameEvent(a[i], b[i])) {
         return false;
       }
     }
@@ -78,12 +78,14 @@ const BarChart = (props: BarChartProps) => {
 
   // Hydrate playback melody so seek works before play
   createEffect(() => {
-    const notes = props.melody.notes;
+    const notes = practiceLine();
     if (!isSameNotes(notes, playback.melody)) {
       setPlayback('melody', notes);
       setPlayback('currentNoteIndex', -1);
       setPlayback('lastCompletedNoteIndex', -1);
     }
+    setPlayback('accompaniment', getAccompaniment(melody(), settings.trackRoles));
+    setPlayback('tempoMap', { tempo: melody().tempo, tempoChanges: melody().tempoChanges });
   });
 
   const currentNoteDurationMs = createMemo(() => {
@@ -91,13 +93,13 @@ const BarChart = (props: BarChartProps) => {
       return 0;
     }
     const idx = playback.currentNoteIndex;
-    if (idx < 0 || idx >= props.melody.notes.length) {
+    if (idx < 0 || idx >= practiceLine().length) {
       return 0;
     }
 
-    const note = props.melody.notes[idx];
-    const msPerBeat = 60000 / settings.tempo;
-    return note.duration * msPerBeat;
+    // The tempo map sets how long the event lasts where it is
+    const beats = getEventStartBeats(practiceLine());
+    return getBeatSpanMs(melody(), beats[idx], beats[idx + 1], settings.tempo);
   });
 
   // Calculate scroll offset to align current note with playhead
@@ -127,29 +129,25 @@ const BarChart = (props: BarChartProps) => {
     return Math.max(0, offset);
   });
 
-  // Calculate measure lines
-  const measureLines = createMemo(() => {
-    if (!props.melody.ratio) {
-      return [];
-    }
-
-    const [beatsPerMeasure, beatNoteValue] = props.melody.ratio;
-    const measureDuration = beatsPerMeasure * (4 / beatNoteValue);
+  // Measures from the time signature; bar lines sit in the gap before the first bar
+  const measures = createMemo(() =>
+    getMeasureStarts(practiceLine(), melody().ratio, melody().meterChanges),
+  );
 
-    const width = svgWidth();
-    const lines: number[] = [];
-    const totalDuration = props.melody.notes.reduce((acc, note) => acc + note.duration, 0);
-    const totalMeasures = Math.ceil(totalDuration / measureDuration);
+  const measureLines = createMemo(() =>
+    measures()
+      .slice(1)
+      .map((measure) => START_X + measure.beat * BAR_WIDTH_UNIT - BAR_GAP / 2),
+  );
 
-    for (let i = 1; i <= totalMeasures; i++) {
-      const x = START_X + i * measureDuration * BAR_WIDTH_UNIT;
-      if (x < width) {
-        lines.push(x);
-      }
-    }
-    return lines;
+  const endLineX = createMemo(() => {
+    const totalDuration = getEventStartBeats(practiceLine()).pop() ?? 0;
+    return START_X + totalDuration * BAR_WIDTH_UNIT - BAR_GAP / 2;
   });
 
+  // Lyrics are sung to the main track, followed by the beat
+  const lyricBeats = createMemo(() => getEventStartBeats(melody().notes));
+
   const {
     scrollStyle,
     handleWheel,
@@ -168,6 +166,11 @@ const BarChart = (props: BarChartProps) => {
     getCurrentNoteIndex: () => playback.currentNoteIndex,
     getLastCompletedNoteIndex: () => playback.lastCompletedNoteIndex,
     onSeek: seek,
+    snapToMeasures: () => settings.snapToMeasures,
+    getMeasureStartIndices: () =>
+      measures()
+        .map((measure) => measure.noteIndex)
+        .filter((index) => index >= 0),
     ignorePointerDown: (e) => !!(e.target instanceof HTMLElement && e.target.closest('button')),
   });
 
@@ -182,173 +185,147 @@ const BarChart = (props: BarChartProps) => {
       style={{ 'touch-action': 'none' }}
     >
       {/* Playhead Controls */}
-      <PlayheadControls
-        x={PLAYHEAD_X}
-        melodyNotes={props.melody.notes}
-        onRewind={() => setManualOffset(0)}
-      />
+      <PlayheadControls x={PLAYHEAD_X} melody={melody()} onRewind={() => setManualOffset(0)} />
 
       {/* Scrollable content */}
       <div class="relative w-full h-full">
         <div class="h-full" style={{ width: `${svgWidth()}px`, ...scrollStyle() }}>
           <svg
             class="block h-full"
-            viewBox={`0 0 ${svgWidth()} ${VIEWBOX_HEIGHT}`}
+            viewBox={`0 0 ${svgWidth()} ${GRAND_STAFF_HEIGHT}`}
             width={`${svgWidth()}px`}
             height="100%"
             preserveAspectRatio="none"
           >
-            {/* 5 staff lines (grid rows) */}
-            <For each={Array.from({ length: STAFF_LINE_COUNT }, (_, i) => i)}>
-              {(i) => (
-                <line
-                  x1="0"
-                  y1={STAFF_BASE_Y - i * STAFF_LINE_SPACING}
-                  x2="100%"
-                  y2={STAFF_BASE_Y - i * STAFF_LINE_SPACING}
-                  stroke="#c7c7c7"
-                  stroke-width="1"
-                />
-              )}
+            {/* Treble and bass staff lines (grid rows) */}
+            <For each={getStaffLineYs()}>
+              {(y) => <line x1="0" y1={y} x2="100%" y2={y} stroke="#c7c7c7" stroke-width="1" />}
             </For>
 
-            {/* Measure Lines */}
+            {/* Bar lines */}
             <For each={measureLines()}>
               {(x) => (
                 <line
                   x1={x}
-                  y1={0}
+                  y1={TREBLE_TOP_Y}
                   x2={x}
-                  y2="100%"
-                  stroke="#ccc"
-                  stroke-width="2"
-                  stroke-dasharray="4 4"
+                  y2={BASS_BASE_Y}
+                  stroke="#9ca3af"
+                  stroke-width="1"
                 />
               )}
             </For>
 
-            {/* Bars positioned by pitch (high on top) */}
-            <For each={items()}>
-              {({ item, x, w }, index) => {
-                const yCenter = createMemo(() => getStaffY(item.note));
-                const y = createMemo(() => yCenter() - BAR_HEIGHT / 2);
-                const color = createMemo(() => getNoteColor(item.note, settings.noteColors));
-                const contrastColor = createMemo(() =>
-                  getNoteContrastColor(item.note, settings.contrastColors),
-                );
-                const label = createMemo(() => getSolfege(item.note));
-                const isCurrentNote = () => playback.currentNoteIndex === index();
-                const noteErrors = createMemo(() =>
-                  playback.errors.filter((error) => error.noteIndex === index()),
-                );
-
-                const topLineY = STAFF_BASE_Y - (STAFF_LINE_COUNT - 1) * STAFF_LINE_SPACING;
-                const ledgerLines = createMemo(() => {
-                  const current = yCenter();
-                  const lines: number[] = [];
-
-                  if (current >= STAFF_BASE_Y + STAFF_LINE_SPACING) {
-                    for (
-                      let ly = STAFF_BASE_Y + STAFF_LINE_SPACING;
-                      ly <= current;
-                      ly += STAFF_LINE_SPACING
-                    ) {
-                      lines.push(ly);
-                    }
-                  }
-
-                  if (current <= topLineY - STAFF_LINE_SPACING) {
-                    for (
-                      let ly = topLineY - STAFF_LINE_SPACING;
-                      ly >= current;
-                      ly -= STAFF_LINE_SPACING
-                    ) {
-                      lines.push(ly);
-                    }
-                  }
+            {/* Final double bar */}
+            <Show when={practiceLine().length > 0}>
+              <line
+                x1={endLineX() - 3}
+                y1={TREBLE_TOP_Y}
+                x2={endLineX() - 3}
+                y2={BASS_BASE_Y}
+                stroke="#9ca3af"
+                stroke-width="1"
+              />
+              <line
+                x1={endLineX()}
+                y1={TREBLE_TOP_Y}
+                x2={endLineX()}
+                y2={BASS_BASE_Y}
+                stroke="#9ca3af"
+                stroke-width="3"
+              />
+            </Show>
 
-                  return lines;
-                });
+            {/* Measure numbers */}
+            <For each={measures()}>
+              {(measure) => (
+                <text
+                  x={START_X + measure.beat * BAR_WIDTH_UNIT}
+                  y={9}
+                  font-size="8"
+                  fill="#9ca3af"
+                >
+                  {measure.number}
+                </text>
+              )}
+            </For>
 
+            {/* Tracks: the main one as plain bars, the others outlined in their color */}
+            <For each={tracks()}>
+              {(track, index) => (
+                <g opacity={getTrackOpacity(getTrackRole(track.id, settings.trackRoles))}>
+                  <BarTrack
+                    notes={track.notes}
+                    clef={track.clef}
+                    startX={START_X}
+                    beatWidth={BAR_WIDTH_UNIT}
+                    gap={BAR_GAP}
+                    outline={index() > 0 ? getTrackColor(index()) : undefined}
+                    isSounding={isSounding}
+                  />
+                </g>
+              )}
+            </For>
+            {/* Error indicators, on the line the user plays */}
+            <For each={playback.errors}>
+              {(error) => {
+                const item = () => items()[error.noteIndex];
+                const x = () => (item()?.x ?? 0) + (item()?.w ?? 0) / 2;
+                // Mark errors on the pitch they refer to (the top of a chord otherwise)
+                const errorY = () => {
+                  const event = practiceLine()[error.noteIndex];
+                  const pitches =
+                    !event || isRest(event) ? [REST_STAFF_NOTE] : getEventPitches(event);
+                  return getStaffY(
+                    pitches.includes(error.expectedNote)
+                      ? error.expectedNote
+                      : getHighestPitch(pitches),
+                  );
+                };
+                const errorColor =
+                  error.type === 'WRONG_NOTE' ||
+                  error.type === 'MISSED_NOTE' ||
+                  error.type === 'EXTRA_NOTE'
+                    ? '#ef4444' // Red
+                    : error.type === 'TOO_EARLY' || error.type === 'TOO_LATE'
+                      ? '#eab308' // Yellow
+                      : '#f97316'; // Orange for duration errors
                 return (
                   <g>
-                    <title>{item.note}</title>
-                    {/* Ledger lines */}
-                    <For each={ledgerLines()}>
-                      {(ly) => (
-                        <line
-                          x1={x - 4}
-                          y1={ly}
-                          x2={x + w + 4}
-                          y2={ly}
-                          stroke="#c7c7c7"
-                          stroke-width="1"
-                        />
-                      )}
-                    </For>
-                    <rect
-                      x={x}
-                      y={y()}
-                      width={w}
-                      height={BAR_HEIGHT}
-                      rx="4"
-                      fill={color()}
-                      class={isCurrentNote() ? 'brightness-125' : ''}
-                    />
-                    {w >= 28 && (
-                      <text
-                        x={x + w / 2}
-                        y={yCenter() + 3}
-                        font-size="9"
-                        text-anchor="middle"
-                        fill={contrastColor()}
-                      >
-                        {label()}
-                      </text>
-                    )}
-                    {/* Error indicators */}
-                    <For each={noteErrors()}>
-                      {(error) => {
-                        const errorColor =
-                          error.type === 'WRONG_NOTE' || error.type === 'MISSED_NOTE'
-                            ? '#ef4444' // Red
-                            : error.type === 'TOO_EARLY' || error.type === 'TOO_LATE'
-                              ? '#eab308' // Yellow
-                              : '#f97316'; // Orange for duration errors
-                        return (
-                          <g>
-                            {/* Error circle/X */}
-                            <circle
-                              cx={x + w / 2}
-                              cy={yCenter()}
-                              r="8"
-                              fill={errorColor}
-                              opacity="0.9"
-                            />
-                            <text
-                              x={x + w / 2}
-                              y={yCenter() + 3}
-                              font-size="10"
-                              text-anchor="middle"
-                              fill="white"
-                              font-weight="bold"
-                            >
-                              {error.type === 'WRONG_NOTE' || error.type === 'MISSED_NOTE'
-                                ? '✕'
-                                : error.type === 'TOO_EARLY'
-                                  ? '←'
-                                  : error.type === 'TOO_LATE'
-                                    ? '→'
-                                    : '~'}
-                            </text>
-                          </g>
-                        );
-                      }}
-                    </For>
+                    {/* Error circle/X */}
+                    <circle cx={x()} cy={errorY()} r="8" fill={errorColor} opacity="0.9" />
+                    <text
+                      x={x()}
+                      y={errorY() + 3}
+                      font-size="10"
+                      text-anchor="middle"
+                      fill="white"
+                      font-weight="bold"
+                    >
+                      {error.type === 'WRONG_NOTE' || error.type === 'MISSED_NOTE'
+                        ? '✕'
+                        : error.type === 'EXTRA_NOTE'
+                          ? '+'
+                          : error.type === 'TOO_EARLY'
+                            ? '←'
+                            : error.type === 'TOO_LATE'
+                              ? '→'
+                              : '~'}
+                    </text>
                   </g>
                 );
               }}
             </For>
+            {/* Lyrics */}
+            <Lyrics
+              notes={melody().notes}
+              getX={(index) =>
+                START_X + ((lyricBeats()[index] + lyricBeats()[index + 1]) / 2) * BAR_WIDTH_UNIT
+              }
+              getEndX={(index) => START_X + lyricBeats()[index + 1] * BAR_WIDTH_UNIT - BAR_GAP}
+              currentBeat={currentSpan()?.start ?? null}
+              playedUntil={playedUntil()}
+            />
             {/* Error count display */}
             <Show when={playback.errors.length > 0 && settings.playbackMode === 'errorTracking'}>
               <g>
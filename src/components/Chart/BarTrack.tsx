@@ -0,0 +1,134 @@
+import { For, Show, createMemo } from 'solid-js';
+
+import { settings } from '@lib/store';
+import { getEventPitches, isRest } from '@lib/utils/melodyUtils';
+import { getNoteColor, getNoteContrastColor, getSolfege } from '@lib/utils/musicUtils';
+import { getEventStartBeats } from '@lib/utils/rhythmUtils';
+
+import { getLedgerLineYs, getStaffY } from './staffUtils';
+import type { Clef } from './staffUtils';
+
+import type { MelodyEvent } from './index';
+
+const BAR_HEIGHT = 10;
+
+// Rests are drawn on the middle line of their staff (the treble one unless a clef is set)
+const REST_STAFF_NOTES: Record<Clef, string> = { treble: 'B4', bass: 'D3' };
+
+interface BarTrackProps {
+  notes: MelodyEvent[];
+  clef?: Clef; // staff every note is drawn on; each pitch picks its own otherwise
+  startX: number; // x of the first beat
+  beatWidth: number; // x per beat, the same for every track so they line up
+  gap: number; // between consecutive bars
+  outline?: string; // color around the bars, telling the track apart from the main one
+  isSounding: (start: number, end: number) => boolean; // whether an event between two beats plays now
+}
+
+/**
+ * One track of the melody as bars on the grand staff, one per pitch and as long as the note
+ */
+export const BarTrack = (props: BarTrackProps) => {
+  const restStaffNote = () => REST_STAFF_NOTES[props.clef ?? 'treble'];
+
+  // Bars at their beats; x is proportional to time so every track scrolls together
+  const items = createMemo(() => {
+    const beats = getEventStartBeats(props.notes);
+    return props.notes.map((item, i) => ({
+      item,
+      x: props.startX + beats[i] * props.beatWidth,
+      w: item.duration * props.beatWidth - props.gap,
+      start: beats[i],
+      end: beats[i + 1],
+    }));
+  });
+
+  return (
+    <g>
+      <For each={items()}>
+        {({ item, x, w, start, end }) => {
+          const rest = isRest(item);
+          // Chords stack one bar per pitch; rests sit on the middle line
+          const pitches = rest ? [restStaffNote()] : getEventPitches(item);
+          const isCurrentNote = () => props.isSounding(start, end);
+
+          const ledgerLines = createMemo(() => getLedgerLineYs(pitches, props.clef));
+
+          return (
+            <g>
+              <title>{rest ? 'Rest' : pitches.join(' ')}</title>
+              <Show
+                when={!rest}
+                fallback={
+                  // Rests leave a gap, outlined so the silence is still visible
+                  <rect
+                    x={x}
+                    y={getStaffY(restStaffNote(), props.clef) - BAR_HEIGHT / 2}
+                    width={w}
+                    height={BAR_HEIGHT}
+                    rx="4"
+                    fill="none"
+                    stroke="#9ca3af"
+                    stroke-width="1"
+                    stroke-dasharray="3 3"
+                    class={isCurrentNote() ? 'brightness-75' : ''}
+                  />
+                }
+              >
+                {/* Ledger lines */}
+                <For each={ledgerLines()}>
+                  {(ly) => (
+                    <line
+                      x1={x - 4}
+                      y1={ly}
+                      x2={x + w + 4}
+                      y2={ly}
+                      stroke="#c7c7c7"
+                      stroke-width="1"
+                    />
+                  )}
+                </For>
+                <For each={pitches}>
+                  {(pitch) => {
+                    const yCenter = getStaffY(pitch, props.clef);
+                    const color = createMemo(() => getNoteColor(pitch, settings.noteColors));
+                    const contrastColor = createMemo(() =>
+                      getNoteContrastColor(pitch, settings.contrastColors),
+                    );
+
+                    return (
+                      <>
+                        <rect
+                          x={x}
+                          y={yCenter - BAR_HEIGHT / 2}
+                          width={w}
+                          height={BAR_HEIGHT}
+                          rx="4"
+                          fill={color()}
+                          stroke={props.outline}
+                          stroke-width={props.outline ? 2 : 0}
+                          class={isCurrentNote() ? 'brightness-125' : ''}
+                        />
+                        {w >= 28 && (
+                          <text
+                            x={x + w / 2}
+                            y={yCenter + 3}
+                            font-size="9"
+                            text-anchor="middle"
+                            fill={contrastColor()}
+                          >
+                            {getSolfege(pitch)}
+                          </text>
+                        )}
+                      </>
+                    );
+                  }}
+                </For>
+              </Show>
+            </g>
+          );
+        }}
+      </For>
+    </g>
+  );
+};
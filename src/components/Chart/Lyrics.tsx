@@ -0,0 +1,95 @@
+import { For, Show, createMemo, type Component } from 'solid-js';
+
+import { getLyricSpans } from '@lib/utils/lyricsUtils';
+import { getEventStartBeats } from '@lib/utils/rhythmUtils';
+
+import { LYRICS_Y } from './staffUtils';
+import { BEAT_TOLERANCE } from './trackLayout';
+
+import type { MelodyEvent } from './index';
+
+const FONT_SIZE = 11;
+const CHAR_WIDTH = FONT_SIZE * 0.55; // rough advance of one character
+const SUNG_COLOR = '#9ca3af';
+const CURRENT_COLOR = '#2563eb';
+const UPCOMING_COLOR = '#1f2937';
+
+interface LyricsProps {
+  notes: MelodyEvent[];
+  getX: (index: number) => number; // where the syllable of an event is centred
+  getEndX: (index: number) => number; // where an event ends, for melisma lines
+  currentBeat: number | null; // where the event playing now starts, null when none is
+  playedUntil: number; // beat everything before has been played to
+}
+
+/**
+ * Syllables under the notes, karaoke style: sung ones fade, the current one is highlighted
+ * while its note, tied continuations or melisma play
+ */
+export const Lyrics: Component<LyricsProps> = (props) => {
+  const spans = createMemo(() => getLyricSpans(props.notes));
+  const beats = createMemo(() => getEventStartBeats(props.notes));
+
+  return (
+    <g font-size={FONT_SIZE} text-anchor="middle">
+      <For each={spans()}>
+        {(span, index) => {
+          const isCurrent = () =>
+            props.currentBeat !== null &&
+            beats()[span.startIndex] <= props.currentBeat + BEAT_TOLERANCE &&
+            beats()[span.endIndex + 1] > props.currentBeat + BEAT_TOLERANCE;
+          const color = () =>
+            isCurrent()
+              ? CURRENT_COLOR
+              : beats()[span.endIndex + 1] <= props.playedUntil + BEAT_TOLERANCE
+                ? SUNG_COLOR
+                : UPCOMING_COLOR;
+
+          const x = () => props.getX(span.startIndex);
+          const halfWidth = (span.lyric.text.length * CHAR_WIDTH) / 2;
+          // A hyphen sits halfway to the next syllable of the word
+          const hyphenX = () => {
+            const next = spans()[index() + 1];
+            if (!span.lyric.hyphen || !next) {
+              return null;
+            }
+            const nextX = props.getX(next.startIndex);
+            const nextHalfWidth = (next.lyric.text.length * CHAR_WIDTH) / 2;
+            return (x() + halfWidth + nextX - nextHalfWidth) / 2;
+          };
+
+          return (
+            <>
+              <text
+                x={x()}
+                y={LYRICS_Y}
+                fill={color()}
+                font-weight={isCurrent() ? 'bold' : 'normal'}
+              >
+                {span.lyric.text}
+              </text>
+              <Show when={hyphenX()}>
+                {(hx) => (
+                  <text x={hx()} y={LYRICS_Y} fill={color()}>
+                    -
+                  </text>
+                )}
+              </Show>
+              {/* Melisma: an extender line under the notes the syllable is held over */}
+              <Show when={span.lyric.extend && span.endIndex > span.startIndex}>
+                <line
+                  x1={x() + halfWidth + 2}
+                  y1={LYRICS_Y + 1}
+                  x2={props.getEndX(span.endIndex)}
+                  y2={LYRICS_Y + 1}
+                  stroke={color()}
+                  stroke-width="1"
+                />
+              </Show>
+            </>
+          );
+        }}
+      </For>
+    </g>
+  );
+};
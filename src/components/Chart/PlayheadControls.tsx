@@ -4,11 +4,11 @@ import { seek, toggle } from '@lib/audio/playback/router';
 import { playback } from '@lib/playbackStore';
 import { setSettings, settings } from '@lib/store';
 
-import type { NoteEvent } from './index';
+import type { Melody } from './index';
 
 interface PlayheadControlsProps {
   x: number;
-  melodyNotes: NoteEvent[];
+  melody: Melody;
   onRewind: () => void;
 }
 
@@ -48,9 +48,9 @@ export const PlayheadControls: Component<PlayheadControlsProps> = (props) => {
             if (settings.playbackMode !== 'normal') {
               setSettings('playbackMode', 'normal');
             }
-            // If playback has no melody yet (first play), pass current notes once.
+            // If playback has no melody yet (first play), pass the current melody once.
             if (playback.melody.length === 0) {
-              toggle(props.melodyNotes);
+              toggle(props.melody);
             } else {
               toggle();
             }
@@ -3,12 +3,36 @@ import { For, Show, createEffect, createMemo } from 'solid-js';
 import { seek } from '@lib/audio/playback/router';
 import { playback, setPlayback } from '@lib/playbackStore';
 import { settings } from '@lib/store';
-import { getNoteColor } from '@lib/utils/musicUtils';
-
+import { getEventPitches, getHighestPitch, isRest, isSameEvent } from '@lib/utils/melodyUtils';
+import { getRepeatMarks, unfoldMelody } from '@lib/utils/repeatUtils';
+import { getEventStartBeats, getMeasureStarts } from '@lib/utils/rhythmUtils';
+import { getBeatSpanMs } from '@lib/utils/tempoUtils';
+import { getAccompaniment, getPracticeLine, getTrackRole, getTracks } from '@lib/utils/trackUtils';
+
+import { NOTE_RADIUS } from './beamUtils';
+import { Lyrics } from './Lyrics';
 import { createPanAndSeek } from './panUtils';
 import { PlayheadControls } from './PlayheadControls';
-
-import type { Melody, NoteEvent } from './index';
+import { ACCIDENTAL_GLYPHS, SheetTrack } from './SheetTrack';
+import {
+  BASS_BASE_Y,
+  BASS_TOP_Y,
+  getStaffLineYs,
+  getStaffY,
+  GRAND_STAFF_HEIGHT,
+  STAFF_LINE_SPACING,
+  TREBLE_TOP_Y,
+} from './staffUtils';
+import type { Clef } from './staffUtils';
+import { createPlaybackBeats, getTrackColor, getTrackOpacity } from './trackLayout';
+
+import type { Melody, MelodyEvent } from './index';
+
+// Treble staff positions of the key signature accidentals, in the order they are added
+const KEY_SHARP_NOTES = ['F5', 'C5', 'G5', 'D5', 'A4', 'E5', 'B4'];
+const KEY_FLAT_NOTES = ['B4', 'E5', 'A4', 'D5', 'G4', 'C5', 'F4'];
+
+const GRAND_STAFF_MIDDLE_Y = (TREBLE_TOP_Y + BASS_BASE_Y) / 2;
 
 interface SheetChartProps {
   melody: Melody;
@@ -16,40 +40,46 @@ interface SheetChartProps {
 
 const SheetChart = (props: SheetChartProps) => {
   // Sheet View Constants (in viewBox units)
-  const VIEWBOX_HEIGHT = 80;
-  const STAFF_LINE_SPACING = 12;
-  const NOTE_RADIUS = 6;
   const NOTE_SPACING = 50;
   const PLAYHEAD_X = 40; // Fixed playhead position from left
   const START_X = PLAYHEAD_X;
-  const STAFF_LINE_COUNT = 5;
-  const STAFF_BASE_Y = 52; // bottom line (E4), positioned to leave room for low notes
-
-  // Helper to map note to Y position on staff
-  const getStaffY = (note: string) => {
-    const noteName = note.replace(/\d+/, '').replace('#', '');
-    const octave = parseInt(note.match(/\d+/)?.[0] || '4');
-
-    // Map notes to scale steps relative to C4
-    const scale = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
-    const idx = scale.indexOf(noteName);
-    const globalStep = (octave - 4) * 7 + idx;
-
-    // Reference: G4 is on the second line from bottom?
-    // Treble Clef:
-    // Bottom line is E4.
-    // E4 -> step 2 (C4=0, D4=1, E4=2)
+  const REST_STAFF_NOTE = 'B4'; // Rests are drawn around the middle line of the treble staff
+  const KEY_SIGNATURE_X = START_X + 8;
+  const KEY_ACCIDENTAL_SPACING = 8;
+  const BAR_LINE_OFFSET = NOTE_RADIUS * 2; // bar lines sit just before the first note of a measure
+
+  // Repeats are laid out one pass after another, the way they are played
+  const melody = createMemo(() => unfoldMelody(props.melody));
+
+  // Key signature accidentals, then the time signature, then the notes
+  const keyFifths = () => Math.max(-7, Math.min(7, melody().key?.fifths ?? 0));
+  const keySignature = createMemo(() => {
+    const fifths = keyFifths();
+    const staffNotes = (fifths >= 0 ? KEY_SHARP_NOTES : KEY_FLAT_NOTES).slice(0, Math.abs(fifths));
+    // The bass staff repeats the pattern two octaves lower
+    return (['treble', 'bass'] as Clef[]).flatMap((clef) =>
+      staffNotes.map((note, i) => ({
+        x: KEY_SIGNATURE_X + i * KEY_ACCIDENTAL_SPACING,
+        y: getStaffY(
+          clef === 'treble' ? note : note.replace(/\d+$/, (octave) => String(Number(octave) - 2)),
+          clef,
+        ),
+        glyph: ACCIDENTAL_GLYPHS[fifths > 0 ? 1 : -1],
+      })),
+    );
+  });
+  const timeSignatureX = () => KEY_SIGNATURE_X + Math.abs(keyFifths()) * KEY_ACCIDENTAL_SPACING + 6;
+  const notesStartX = () => timeSignatureX() + 22;
 
-    const E4_Step = 2; // C=0, D=1, E=2
-    const diff = globalStep - E4_Step;
-
-    return STAFF_BASE_Y - diff * (STAFF_LINE_SPACING / 2);
-  };
+  // The line the user plays drives scrolling, seeking and bar lines; every track is drawn
+  const practiceLine = createMemo(() => getPracticeLine(melody(), settings.trackRoles));
+  const tracks = createMemo(() => getTracks(melody()));
+  const { currentSpan, playedUntil, isSounding } = createPlaybackBeats(() => practiceLine());
 
   // Precompute X positions based on duration (timeline)
   const timeline = createMemo(() => {
-    let cursorX = START_X + 8;
-    const computed = props.melody.notes.map((item) => {
+    let cursorX = notesStartX();
+    const computed = practiceLine().map((item) => {
       const x = cursorX;
       // Use proportional spacing: duration * spacing unit
       // This ensures constant scroll speed (pixels per beat is constant)
@@ -66,12 +96,12 @@ const SheetChart = (props: SheetChartProps) => {
   const items = () => timeline().items;
   const svgWidth = () => timeline().width;
 
-  const isSameNotes = (a: NoteEvent[], b: NoteEvent[]) => {
+  const isSameNotes = (a: MelodyEvent[], b: MelodyEvent[]) => {
     if (a.length !== b.length) {
       return false;
     }
     for (let i = 0; i < a.length; i += 1) {
-      if (a[i].note !== b[i].note || a[i].duration !== b[i].duration) {
+      if (!isSameEvent(a[i], b[i])) {
         return false;
       }
     }
@@ -80,12 +110,14 @@ const SheetChart = (props: SheetChartProps) => {
 
   // Ensure playback store has the melody even before first play (needed for seek-on-scroll)
   createEffect(() => {
-    const notes = props.melody.notes;
+    const notes = practiceLine();
     if (!isSameNotes(notes, playback.melody)) {
       setPlayback('melody', notes);
       setPlayback('currentNoteIndex', -1);
       setPlayback('lastCompletedNoteIndex', -1);
     }
+    setPlayback('accompaniment', getAccompaniment(melody(), settings.trackRoles));
+    setPlayback('tempoMap', { tempo: melody().tempo, tempoChanges: melody().tempoChanges });
   });
 
   const currentNoteDurationMs = createMemo(() => {
@@ -94,13 +126,13 @@ const SheetChart = (props: SheetChartProps) => {
     }
 
     const idx = playback.currentNoteIndex;
-    if (idx < 0 || idx >= props.melody.notes.length) {
+    if (idx < 0 || idx >= practiceLine().length) {
       return 0;
     }
 
-    const note = props.melody.notes[idx];
-    const msPerBeat = 60000 / settings.tempo;
-    return note.duration * msPerBeat;
+    // The tempo map sets how long the event lasts where it is
+    const beats = getEventStartBeats(practiceLine());
+    return getBeatSpanMs(melody(), beats[idx], beats[idx + 1], settings.tempo);
   });
 
   // Calculate scroll offset to align current note with playhead
@@ -129,37 +161,35 @@ const SheetChart = (props: SheetChartProps) => {
     return Math.max(0, offset);
   });
 
-  // Calculate measure lines
-  const measureLines = createMemo(() => {
-    if (!props.melody.ratio) {
-      return [];
-    }
+  // Measures from the time signature and its changes
+  const measures = createMemo(() =>
+    getMeasureStarts(practiceLine(), melody().ratio, melody().meterChanges),
+  );
 
-    const [beatsPerMeasure, beatNoteValue] = props.melody.ratio;
-    // Calculate measure duration in relative duration units (assuming 1 = quarter note)
-    // Formula: beatsPerMeasure * (4 / beatNoteValue)
-    // e.g. 4/4 -> 4 * (4/4) = 4 units
-    // e.g. 6/8 -> 6 * (4/8) = 3 units (if 1 unit = quarter note)
-    const measureDuration = beatsPerMeasure * (4 / beatNoteValue);
-
-    // We need to cover the entire timeline width
-    const width = svgWidth();
-    const lines: number[] = [];
-
-    // Calculate total duration to know how far to draw
-    const totalDuration = props.melody.notes.reduce((acc, note) => acc + note.duration, 0);
-    const totalMeasures = Math.ceil(totalDuration / measureDuration);
-
-    for (let i = 1; i <= totalMeasures; i++) {
-      // Each measure starts at START_X + cumulative duration * spacing
-      const x = START_X + i * measureDuration * NOTE_SPACING;
-      if (x < width) {
-        lines.push(x);
-      }
-    }
+  const getBarLineX = (beat: number) => notesStartX() + beat * NOTE_SPACING - BAR_LINE_OFFSET;
 
-    return lines;
-  });
+  const measureLines = createMemo(() =>
+    measures()
+      .slice(1)
+      .map((measure) => getBarLineX(measure.beat)),
+  );
+
+  // Repeat signs, endings and D.C./D.S. directions, on every pass they are played
+  const repeatMarks = createMemo(() => getRepeatMarks(props.melody));
+
+  // A new time signature is marked above the bar line where the meter changes
+  const meterMarks = createMemo(() =>
+    measures()
+      .filter(
+        (measure, i) => i > 0 && measure.ratio.join('/') !== measures()[i - 1].ratio.join('/'),
+      )
+      .map((measure) => ({ x: getBarLineX(measure.beat) + 12, ratio: measure.ratio })),
+  );
+
+  const endLineX = createMemo(() => getBarLineX(getEventStartBeats(practiceLine()).pop() ?? 0));
+
+  // Lyrics are sung to the main track, followed by the beat
+  const lyricBeats = createMemo(() => getEventStartBeats(melody().notes));
 
   const {
     scrollStyle,
@@ -179,6 +209,11 @@ const SheetChart = (props: SheetChartProps) => {
     getCurrentNoteIndex: () => playback.currentNoteIndex,
     getLastCompletedNoteIndex: () => playback.lastCompletedNoteIndex,
     onSeek: seek,
+    snapToMeasures: () => settings.snapToMeasures,
+    getMeasureStartIndices: () =>
+      measures()
+        .map((measure) => measure.noteIndex)
+        .filter((index) => index >= 0),
     ignorePointerDown: (e) => !!(e.target instanceof HTMLElement && e.target.closest('button')),
   });
 
@@ -194,174 +229,300 @@ const SheetChart = (props: SheetChartProps) => {
       style={{ 'touch-action': 'none' }}
     >
       {/* Playhead Controls */}
-      <PlayheadControls
-        x={PLAYHEAD_X}
-        melodyNotes={props.melody.notes}
-        onRewind={() => setManualOffset(0)}
-      />
+      <PlayheadControls x={PLAYHEAD_X} melody={melody()} onRewind={() => setManualOffset(0)} />
 
       {/* Scrollable content */}
       <div class="relative w-full h-full">
         <div class="h-full" style={{ width: `${svgWidth()}px`, ...scrollStyle() }}>
           <svg
             class="block h-full"
-            viewBox={`0 0 ${svgWidth()} ${VIEWBOX_HEIGHT}`}
+            viewBox={`0 0 ${svgWidth()} ${GRAND_STAFF_HEIGHT}`}
             width={`${svgWidth()}px`}
             height="100%"
             preserveAspectRatio="none"
           >
-            {/* Staff Lines */}
-            <For each={Array.from({ length: STAFF_LINE_COUNT }, (_, i) => i)}>
-              {(i) => (
-                <line
-                  x1="0"
-                  y1={STAFF_BASE_Y - i * STAFF_LINE_SPACING}
-                  x2="100%"
-                  y2={STAFF_BASE_Y - i * STAFF_LINE_SPACING}
-                  stroke="#999"
-                  stroke-width="1"
-                />
+            {/* Staff Lines (treble and bass) */}
+            <For each={getStaffLineYs()}>
+              {(y) => <line x1="0" y1={y} x2="100%" y2={y} stroke="#999" stroke-width="1" />}
+            </For>
+
+            {/* Brace and system line joining the staves */}
+            <path
+              d={`M 9 ${TREBLE_TOP_Y} C 2 ${TREBLE_TOP_Y} 8 ${GRAND_STAFF_MIDDLE_Y} 2 ${GRAND_STAFF_MIDDLE_Y} C 8 ${GRAND_STAFF_MIDDLE_Y} 2 ${BASS_BASE_Y} 9 ${BASS_BASE_Y}`}
+              fill="none"
+              stroke="#000"
+              stroke-width="2"
+            />
+            <line
+              x1={12}
+              y1={TREBLE_TOP_Y}
+              x2={12}
+              y2={BASS_BASE_Y}
+              stroke="#000"
+              stroke-width="1"
+            />
+
+            {/* Clefs: the G clef curls around G4, the F clef's dots sit around F3 */}
+            <text x={26} y={getStaffY('G4', 'treble') + 10} font-size="44" text-anchor="middle">
+              𝄞
+            </text>
+            <text x={26} y={getStaffY('F3', 'bass') + 14} font-size="34" text-anchor="middle">
+              𝄢
+            </text>
+
+            {/* Key signature */}
+            <For each={keySignature()}>
+              {(accidental) => (
+                <text
+                  x={accidental.x}
+                  y={accidental.y}
+                  font-size="16"
+                  text-anchor="middle"
+                  dominant-baseline="central"
+                >
+                  {accidental.glyph}
+                </text>
               )}
             </For>
 
-            {/* Measure Lines */}
+            {/* Time signature */}
+            <g font-size="22" font-weight="bold" font-family="serif" text-anchor="middle">
+              <For each={[TREBLE_TOP_Y, BASS_TOP_Y]}>
+                {(topY) => (
+                  <>
+                    <text x={timeSignatureX() + 8} y={topY + 2 * STAFF_LINE_SPACING - 2}>
+                      {melody().ratio[0]}
+                    </text>
+                    <text x={timeSignatureX() + 8} y={topY + 4 * STAFF_LINE_SPACING - 2}>
+                      {melody().ratio[1]}
+                    </text>
+                  </>
+                )}
+              </For>
+            </g>
+
+            {/* Bar lines */}
             <For each={measureLines()}>
               {(x) => (
                 <line
                   x1={x}
-                  y1={0}
+                  y1={TREBLE_TOP_Y}
                   x2={x}
-                  y2="100%"
-                  stroke="#ccc"
-                  stroke-width="2"
-                  stroke-dasharray="4 4"
+                  y2={BASS_BASE_Y}
+                  stroke="#000"
+                  stroke-width="1"
                 />
               )}
             </For>
 
-            {/* Notes */}
-            <For each={items()}>
-              {({ item, x }, index) => {
-                const y = createMemo(() => getStaffY(item.note));
-                const color = createMemo(() => getNoteColor(item.note, settings.noteColors));
-                const isCurrentNote = () => playback.currentNoteIndex === index();
-                const noteErrors = createMemo(() =>
-                  playback.errors.filter((error) => error.noteIndex === index()),
-                );
-                const topLineY = STAFF_BASE_Y - (STAFF_LINE_COUNT - 1) * STAFF_LINE_SPACING;
-
-                // Visual distinction for duration
-                const isHollow = item.duration >= 2;
-                const hasStem = item.duration < 4;
-
-                const ledgerLines = createMemo(() => {
-                  const yValue = y();
-                  const lines: number[] = [];
-
-                  if (yValue >= STAFF_BASE_Y + STAFF_LINE_SPACING) {
-                    for (
-                      let ly = STAFF_BASE_Y + STAFF_LINE_SPACING;
-                      ly <= yValue;
-                      ly += STAFF_LINE_SPACING
-                    ) {
-                      lines.push(ly);
-                    }
-                  }
-
-                  if (yValue <= topLineY - STAFF_LINE_SPACING) {
-                    for (
-                      let ly = topLineY - STAFF_LINE_SPACING;
-                      ly >= yValue;
-                      ly -= STAFF_LINE_SPACING
-                    ) {
-                      lines.push(ly);
-                    }
-                  }
-
-                  return lines;
-                });
-
+            {/* Repeat bar lines: thick and thin lines with dots on the side that repeats */}
+            <For each={repeatMarks().barLines}>
+              {(barLine) => {
+                const x = () => getBarLineX(barLine.beat);
+                const isStart = barLine.type === 'start';
                 return (
-                  <g>
-                    {/* Ledger lines */}
-                    <For each={ledgerLines()}>
-                      {(ly) => (
-                        <line
-                          x1={x - 10}
-                          y1={ly}
-                          x2={x + 10}
-                          y2={ly}
-                          stroke="#999"
-                          stroke-width="1"
-                        />
+                  <>
+                    <line
+                      x1={x() + (isStart ? -5 : 1)}
+                      y1={TREBLE_TOP_Y}
+                      x2={x() + (isStart ? -5 : 1)}
+                      y2={BASS_BASE_Y}
+                      stroke="#000"
+                      stroke-width="3"
+                    />
+                    <line
+                      x1={x() + (isStart ? -1 : -3)}
+                      y1={TREBLE_TOP_Y}
+                      x2={x() + (isStart ? -1 : -3)}
+                      y2={BASS_BASE_Y}
+                      stroke="#000"
+                      stroke-width="1"
+                    />
+                    <For each={[TREBLE_TOP_Y, BASS_TOP_Y]}>
+                      {(topY) => (
+                        <For each={[1.5, 2.5]}>
+                          {(space) => (
+                            <circle
+                              cx={x() + (isStart ? 3 : -7)}
+                              cy={topY + space * STAFF_LINE_SPACING}
+                              r="1.5"
+                              fill="#000"
+                            />
+                          )}
+                        </For>
                       )}
                     </For>
+                  </>
+                );
+              }}
+            </For>
+
+            {/* Volta brackets over first and second endings */}
+            <For each={repeatMarks().voltas}>
+              {(volta) => (
+                <>
+                  <polyline
+                    points={`${getBarLineX(volta.start) + 2},${TREBLE_TOP_Y - 14} ${getBarLineX(volta.start) + 2},${TREBLE_TOP_Y - 24} ${getBarLineX(volta.end) - 2},${TREBLE_TOP_Y - 24}`}
+                    fill="none"
+                    stroke="#000"
+                    stroke-width="1"
+                  />
+                  <text x={getBarLineX(volta.start) + 14} y={TREBLE_TOP_Y - 15} font-size="9">
+                    {volta.label}
+                  </text>
+                </>
+              )}
+            </For>
 
-                    {/* Stem (drawn before note head to appear behind) */}
-                    {hasStem && (
-                      <line
-                        x1={x + NOTE_RADIUS}
-                        y1={y()}
-                        x2={x + NOTE_RADIUS}
-                        y2={y() - 24}
-                        stroke="#000"
-                        stroke-width="1.5"
-                      />
-                    )}
-
-                    {/* Note Head */}
+            {/* D.C., D.S., Fine, segno and coda */}
+            <g font-size="10" font-style="italic" font-weight="bold" font-family="serif">
+              <For each={repeatMarks().texts}>
+                {(mark) => (
+                  <text
+                    x={getBarLineX(mark.beat) + (mark.side === 'start' ? 4 : -4)}
+                    y={TREBLE_TOP_Y - 4}
+                    text-anchor={mark.side === 'start' ? 'start' : 'end'}
+                  >
+                    {mark.text}
+                  </text>
+                )}
+              </For>
+            </g>
+
+            {/* Final double bar */}
+            <Show when={practiceLine().length > 0}>
+              <line
+                x1={endLineX() - 4}
+                y1={TREBLE_TOP_Y}
+                x2={endLineX() - 4}
+                y2={BASS_BASE_Y}
+                stroke="#000"
+                stroke-width="1"
+              />
+              <line
+                x1={endLineX()}
+                y1={TREBLE_TOP_Y}
+                x2={endLineX()}
+                y2={BASS_BASE_Y}
+                stroke="#000"
+                stroke-width="3"
+              />
+            </Show>
+
+            {/* Measure numbers */}
+            <For each={measures()}>
+              {(measure) => (
+                <text
+                  x={measure.number === 1 ? START_X - 28 : getBarLineX(measure.beat)}
+                  y={9}
+                  font-size="8"
+                  font-style="italic"
+                  fill="#6b7280"
+                >
+                  {measure.number}
+                </text>
+              )}
+            </For>
+
+            {/* Meter changes */}
+            <g font-size="10" font-weight="bold" font-family="serif" text-anchor="middle">
+              <For each={meterMarks()}>
+                {(mark) => (
+                  <>
+                    <text x={mark.x} y={TREBLE_TOP_Y - 16}>
+                      {mark.ratio[0]}
+                    </text>
+                    <text x={mark.x} y={TREBLE_TOP_Y - 6}>
+                      {mark.ratio[1]}
+                    </text>
+                  </>
+                )}
+              </For>
+            </g>
+
+            {/* Tracks, each in its own color; the ones the user does not play are faded */}
+            <For each={tracks()}>
+              {(track, index) => (
+                <g opacity={getTrackOpacity(getTrackRole(track.id, settings.trackRoles))}>
+                  <SheetTrack
+                    notes={track.notes}
+                    ratio={melody().ratio}
+                    meterChanges={melody().meterChanges}
+                    keySignature={melody().key}
+                    clef={track.clef}
+                    startX={notesStartX()}
+                    beatWidth={NOTE_SPACING}
+                    color={getTrackColor(index())}
+                    isSounding={isSounding}
+                  />
+                </g>
+              )}
+            </For>
+            {/* Error indicators, on the line the user plays */}
+            <For each={playback.errors}>
+              {(error) => {
+                const x = () => items()[error.noteIndex]?.x ?? 0;
+                // Mark errors on the pitch they refer to (the top of a chord otherwise)
+                const errorY = () => {
+                  const event = practiceLine()[error.noteIndex];
+                  const pitches =
+                    !event || isRest(event) ? [REST_STAFF_NOTE] : getEventPitches(event);
+                  return getStaffY(
+                    pitches.includes(error.expectedNote)
+                      ? error.expectedNote
+                      : getHighestPitch(pitches),
+                  );
+                };
+                const errorColor =
+                  error.type === 'WRONG_NOTE' ||
+                  error.type === 'MISSED_NOTE' ||
+                  error.type === 'EXTRA_NOTE'
+                    ? '#ef4444' // Red
+                    : error.type === 'TOO_EARLY' || error.type === 'TOO_LATE'
+                      ? '#eab308' // Yellow
+                      : '#f97316'; // Orange for duration errors
+                return (
+                  <g>
+                    {/* Error circle/X */}
                     <circle
-                      cx={x}
-                      cy={y()}
-                      r={NOTE_RADIUS}
-                      fill={isHollow ? '#fff' : color()}
-                      stroke={isHollow ? color() : '#000'}
-                      stroke-width={isHollow ? '2' : '1'}
-                      class={isCurrentNote() ? 'brightness-125' : ''}
+                      cx={x()}
+                      cy={errorY()}
+                      r={NOTE_RADIUS + 4}
+                      fill={errorColor}
+                      opacity="0.9"
                     />
-                    {/* Error indicators */}
-                    <For each={noteErrors()}>
-                      {(error) => {
-                        const errorColor =
-                          error.type === 'WRONG_NOTE' || error.type === 'MISSED_NOTE'
-                            ? '#ef4444' // Red
-                            : error.type === 'TOO_EARLY' || error.type === 'TOO_LATE'
-                              ? '#eab308' // Yellow
-                              : '#f97316'; // Orange for duration errors
-                        return (
-                          <g>
-                            {/* Error circle/X */}
-                            <circle
-                              cx={x}
-                              cy={y()}
-                              r={NOTE_RADIUS + 4}
-                              fill={errorColor}
-                              opacity="0.9"
-                            />
-                            <text
-                              x={x}
-                              y={y() + 3}
-                              font-size="10"
-                              text-anchor="middle"
-                              fill="white"
-                              font-weight="bold"
-                            >
-                              {error.type === 'WRONG_NOTE' || error.type === 'MISSED_NOTE'
-                                ? '✕'
-                                : error.type === 'TOO_EARLY'
-                                  ? '←'
-                                  : error.type === 'TOO_LATE'
-                                    ? '→'
-                                    : '~'}
-                            </text>
-                          </g>
-                        );
-                      }}
-                    </For>
+                    <text
+                      x={x()}
+                      y={errorY() + 3}
+                      font-size="10"
+                      text-anchor="middle"
+                      fill="white"
+                      font-weight="bold"
+                    >
+                      {error.type === 'WRONG_NOTE' || error.type === 'MISSED_NOTE'
+                        ? '✕'
+                        : error.type === 'EXTRA_NOTE'
+                          ? '+'
+                          : error.type === 'TOO_EARLY'
+                            ? '←'
+                            : error.type === 'TOO_LATE'
+                              ? '→'
+                              : '~'}
+                    </text>
                   </g>
                 );
               }}
             </For>
+            {/* Lyrics */}
+            <Lyrics
+              notes={melody().notes}
+              getX={(index) => notesStartX() + lyricBeats()[index] * NOTE_SPACING}
+              getEndX={(index) =>
+                notesStartX() + lyricBeats()[index + 1] * NOTE_SPACING - NOTE_RADIUS * 2
+              }
+              currentBeat={currentSpan()?.start ?? null}
+              playedUntil={playedUntil()}
+            />
             {/* Error count display */}
             <Show when={playback.errors.length > 0 && settings.playbackMode === 'errorTracking'}>
               <g>
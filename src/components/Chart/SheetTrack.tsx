@@ -0,0 +1,517 @@
+import { For, Match, Show, Switch, createMemo } from 'solid-js';
+
+import { settings } from '@lib/store';
+import { getHairpinSpans } from '@lib/utils/dynamicsUtils';
+import { getAccidentalMarks } from '@lib/utils/keyUtils';
+import { getEventPitches, isRest, isTiedFromPrevious } from '@lib/utils/melodyUtils';
+import { getNoteColor } from '@lib/utils/musicUtils';
+import {
+  getBeamGroups,
+  getClosestNoteValue,
+  getEventStartBeats,
+  getWrittenValue,
+  NOTE_VALUE_BEATS,
+} from '@lib/utils/rhythmUtils';
+import type { NoteValue, NoteValueType } from '@lib/utils/rhythmUtils';
+
+import { BEAM_THICKNESS, layoutStems, NOTE_RADIUS, STEM_LENGTH } from './beamUtils';
+import type { StemInput } from './beamUtils';
+import {
+  BASS_TOP_Y,
+  getLedgerLineYs,
+  getMiddleLineOffset,
+  getStaffY,
+  STAFF_LINE_SPACING,
+  TREBLE_BASE_Y,
+} from './staffUtils';
+import type { Clef } from './staffUtils';
+
+import type { KeySignature, MelodyEvent, MeterChange } from './index';
+
+// Flags on the stem of unbeamed short notes
+const FLAG_COUNTS: Partial<Record<NoteValueType, number>> = { eighth: 1, '16th': 2, '32nd': 3 };
+
+// Accidental symbols by alteration in semitones
+export const ACCIDENTAL_GLYPHS: Record<number, string> = {
+  [-2]: '♭♭',
+  [-1]: '♭',
+  0: '♮',
+  1: '♯',
+  2: 'x',
+};
+
+// Rests are drawn around the middle line of their staff (the treble one unless a clef is set)
+const REST_STAFF_NOTES: Record<Clef, string> = { treble: 'B4', bass: 'D3' };
+
+const DYNAMICS_Y = (TREBLE_BASE_Y + BASS_TOP_Y) / 2; // dynamics go between the staves
+const HAIRPIN_OPENING = 4; // half the height of the open end of a hairpin
+const DOT_SPACING = 4;
+const ACCIDENTAL_SPACING = 7; // between stacked accidentals in a chord
+
+/**
+ * Glyph for an event: its written value, or the nearest shorter value for other durations
+ */
+const getDisplayValue = (event: MelodyEvent): NoteValue =>
+  getWrittenValue(event) ?? { type: getClosestNoteValue(event.duration), dots: 0 };
+
+interface RestGlyphProps {
+  x: number;
+  middleY: number; // y of the middle staff line
+  spacing: number; // distance between staff lines
+  duration: number;
+  highlighted: boolean;
+  color: string;
+}
+
+/**
+ * Rest symbol for the closest standard note value (whole, half, quarter, eighth, sixteenth)
+ */
+const RestGlyph = (props: RestGlyphProps) => {
+  const fill = () => (props.highlighted ? '#4b5563' : props.color);
+  const quarterTop = () => props.middleY - props.spacing * 1.25;
+  // Eighth rests get one flag, shorter values two
+  const flagYs = () =>
+    props.duration >= 0.5
+      ? [props.middleY - props.spacing / 2]
+      : [props.middleY - props.spacing / 2, props.middleY + props.spacing / 3];
+
+  return (
+    <Switch
+      fallback={
+        <g fill={fill()} stroke={fill()}>
+          <line
+            x1={props.x + 4}
+            y1={props.middleY - props.spacing / 2}
+            x2={props.x - 1}
+            y2={props.middleY + props.spacing * 1.25}
+            stroke-width="1.5"
+          />
+          <For each={flagYs()}>
+            {(flagY) => (
+              <>
+                <circle cx={props.x - 3} cy={flagY + 1} r="2.5" stroke="none" />
+                <path
+                  d={`M ${props.x - 3} ${flagY + 3} Q ${props.x + 1} ${flagY + 4} ${props.x + 4} ${flagY}`}
+                  fill="none"
+                  stroke-width="1.5"
+                />
+              </>
+            )}
+          </For>
+        </g>
+      }
+    >
+      {/* Whole rest hangs from the fourth line */}
+      <Match when={props.duration >= 4}>
+        <rect
+          x={props.x - 6}
+          y={props.middleY - props.spacing}
+          width="12"
+          height={props.spacing / 2}
+          fill={fill()}
+        />
+      </Match>
+      {/* Half rest sits on the middle line */}
+      <Match when={props.duration >= 2}>
+        <rect
+          x={props.x - 6}
+          y={props.middleY - props.spacing / 2}
+          width="12"
+          height={props.spacing / 2}
+          fill={fill()}
+        />
+      </Match>
+      <Match when={props.duration >= 1}>
+        <path
+          d={`M ${props.x - 3} ${quarterTop()} L ${props.x + 3} ${quarterTop() + 8} L ${props.x - 2} ${quarterTop() + 14} L ${props.x + 3} ${quarterTop() + 20} Q ${props.x - 6} ${quarterTop() + 18} ${props.x - 1} ${quarterTop() + 28}`}
+          fill="none"
+          stroke={fill()}
+          stroke-width="2"
+          stroke-linejoin="round"
+        />
+      </Match>
+    </Switch>
+  );
+};
+
+interface SheetTrackProps {
+  notes: MelodyEvent[];
+  ratio: [number, number];
+  meterChanges?: MeterChange[];
+  keySignature?: KeySignature;
+  clef?: Clef; // staff every note is written on; each pitch picks its own otherwise
+  startX: number; // x of the first beat
+  beatWidth: number; // x per beat, the same for every track so they line up
+  color: string; // stems, beams, outlines and markings
+  isSounding: (start: number, end: number) => boolean; // whether an event between two beats plays now
+}
+
+/**
+ * One track of the melody engraved on the grand staff: notes and rests with their accidentals,
+ * stems, beams, ties and tuplets, plus its dynamics
+ */
+export const SheetTrack = (props: SheetTrackProps) => {
+  const restStaffNote = () => REST_STAFF_NOTES[props.clef ?? 'treble'];
+
+  // Accidentals that differ from the key signature (or remind of it), per event and pitch
+  const accidentalMarks = createMemo(() =>
+    getAccidentalMarks(props.notes, props.ratio, props.keySignature, props.meterChanges),
+  );
+
+  // Events at their beats; x is proportional to time so every track scrolls together
+  const items = createMemo(() => {
+    const beats = getEventStartBeats(props.notes);
+    return props.notes.map((item, i) => ({
+      item,
+      x: props.startX + beats[i] * props.beatWidth,
+      w: item.duration * props.beatWidth,
+      start: beats[i],
+      end: beats[i + 1],
+    }));
+  });
+
+  // Stem directions, flags and beams; short notes are beamed by the beat groups of the meter
+  const stemLayout = createMemo(() => {
+    const inputs = items().map(({ item, x }): StemInput | null => {
+      const { type } = getDisplayValue(item);
+      if (isRest(item) || type === 'whole') {
+        return null;
+      }
+      const pitches = getEventPitches(item);
+      return {
+        x,
+        ys: pitches.map((pitch) => getStaffY(pitch, props.clef)),
+        offsets: pitches.map((pitch) => getMiddleLineOffset(pitch, props.clef)),
+        beams: FLAG_COUNTS[type] ?? 0,
+      };
+    });
+    const groups = getBeamGroups(
+      items().map(({ item }, i) => ({ duration: item.duration, beams: inputs[i]?.beams ?? 0 })),
+      props.ratio,
+      props.meterChanges,
+    );
+    return layoutStems(inputs, groups);
+  });
+
+  // Brackets over tuplet groups, from an event marked `start` to the next one marked `end`
+  const tupletBrackets = createMemo(() => {
+    const brackets: { x1: number; x2: number; y: number; label: number }[] = [];
+    let open: { x1: number; y: number; label: number } | null = null;
+
+    items().forEach(({ item, x }, index) => {
+      if (!item.tuplet) {
+        return;
+      }
+      const pitches = isRest(item) ? [restStaffNote()] : getEventPitches(item);
+      const topY = Math.min(...pitches.map((pitch) => getStaffY(pitch, props.clef)));
+      // Clear the heads and up stems, but stay inside the viewBox
+      const stem = stemLayout().stems[index];
+      const y = Math.max(
+        6,
+        stem ? Math.min(topY - NOTE_RADIUS, stem.endY) - 6 : topY - STEM_LENGTH - 6,
+      );
+
+      if (item.tuplet.start || !open) {
+        open = { x1: x - NOTE_RADIUS, y, label: item.tuplet.actual };
+      } else {
+        open.y = Math.min(open.y, y);
+      }
+      if (item.tuplet.end) {
+        brackets.push({ ...open, x2: x + NOTE_RADIUS * 2 });
+        open = null;
+      }
+    });
+
+    return brackets;
+  });
+
+  // Crescendo and decrescendo wedges, ending just before the note that follows them
+  const hairpins = createMemo(() =>
+    getHairpinSpans(props.notes).map((span) => {
+      const start = items()[span.startIndex];
+      const end = items()[span.endIndex];
+      return {
+        type: span.type,
+        // Leave room for a marking written at the start
+        x1: start.x + (start.item.dynamic ? NOTE_RADIUS * 2 : -NOTE_RADIUS),
+        x2: Math.max(start.x + NOTE_RADIUS, end.x + end.w - NOTE_RADIUS * 2),
+      };
+    }),
+  );
+
+  return (
+    <g>
+      <For each={items()}>
+        {({ item, x, start, end }, index) => {
+          const rest = isRest(item);
+          // Chord noteheads stack on one stem; rests sit around the middle line
+          const pitches = rest ? [restStaffNote()] : getEventPitches(item);
+          const isCurrentNote = () => props.isSounding(start, end);
+          const value = getDisplayValue(item);
+          const dots = Array.from({ length: value.dots }, (_, i) => i);
+          const isHollow = value.type === 'whole' || value.type === 'half';
+          const isWhole = value.type === 'whole';
+          const stem = () => stemLayout().stems[index()];
+          const isStemDown = () => stem()?.direction === 'down';
+          const flags = () => Array.from({ length: stem()?.flags ?? 0 }, (_, i) => i);
+
+          // Ties arc to the next event when it continues the same pitches
+          const tieSide = () => (isStemDown() ? -1 : 1);
+          const tieEndX = () =>
+            isTiedFromPrevious(props.notes, index() + 1) ? items()[index() + 1].x : null;
+
+          // Heads from the stem's far end; the second head of an interval of a second
+          // moves to the other side of the stem (right when it points up, left when down)
+          const heads = createMemo(() => {
+            const down = isStemDown();
+            const sorted = pitches
+              .map((pitch) => ({ pitch, y: getStaffY(pitch, props.clef) }))
+              .sort((a, b) => (down ? a.y - b.y : b.y - a.y));
+            let previous: { y: number; shifted: boolean } | null = null;
+            // Accidentals on nearby heads move further left so they do not collide
+            let previousAccidental: { y: number; column: number } | null = null;
+            return sorted.map(({ pitch, y: headY }) => {
+              const shifted =
+                previous !== null &&
+                !previous.shifted &&
+                Math.abs(previous.y - headY) <= STAFF_LINE_SPACING / 2;
+              previous = { y: headY, shifted };
+
+              const accidental = accidentalMarks()[index()]?.[pitch] ?? null;
+              let accidentalColumn = 0;
+              if (accidental) {
+                if (
+                  previousAccidental !== null &&
+                  Math.abs(previousAccidental.y - headY) < STAFF_LINE_SPACING * 2.5
+                ) {
+                  accidentalColumn = previousAccidental.column + 1;
+                }
+                previousAccidental = { y: headY, column: accidentalColumn };
+              }
+
+              return {
+                pitch,
+                y: headY,
+                x: shifted ? x + (down ? -NOTE_RADIUS * 2 : NOTE_RADIUS * 2) : x,
+                accidental,
+                accidentalX: x - NOTE_RADIUS - 6 - accidentalColumn * ACCIDENTAL_SPACING,
+              };
+            });
+          });
+
+          const ledgerLines = createMemo(() => getLedgerLineYs(pitches, props.clef));
+
+          return (
+            <g>
+              <Show
+                when={!rest}
+                fallback={
+                  <>
+                    <RestGlyph
+                      x={x}
+                      middleY={getStaffY(restStaffNote(), props.clef)}
+                      spacing={STAFF_LINE_SPACING}
+                      duration={NOTE_VALUE_BEATS[value.type]}
+                      highlighted={isCurrentNote()}
+                      color={props.color}
+                    />
+                    <For each={dots}>
+                      {(dot) => (
+                        <circle
+                          cx={x + 9 + dot * DOT_SPACING}
+                          cy={getStaffY(restStaffNote(), props.clef) - STAFF_LINE_SPACING / 2}
+                          r="1.5"
+                          fill={props.color}
+                        />
+                      )}
+                    </For>
+                  </>
+                }
+              >
+                {/* Ledger lines */}
+                <For each={ledgerLines()}>
+                  {(ly) => (
+                    <line x1={x - 10} y1={ly} x2={x + 10} y2={ly} stroke="#999" stroke-width="1" />
+                  )}
+                </For>
+
+                {/* Stem (drawn before note heads to appear behind), spanning the whole chord */}
+                <Show when={stem()}>
+                  {(noteStem) => (
+                    <>
+                      <line
+                        x1={noteStem().x}
+                        y1={noteStem().startY}
+                        x2={noteStem().x}
+                        y2={noteStem().endY}
+                        stroke={props.color}
+                        stroke-width="1.5"
+                      />
+                      {/* Flags curl from the free end back towards the heads */}
+                      <For each={flags()}>
+                        {(flag) => (
+                          <path
+                            d={
+                              isStemDown()
+                                ? `M ${noteStem().x} ${noteStem().endY - flag * 5} q 8 -4 5 -12`
+                                : `M ${noteStem().x} ${noteStem().endY + flag * 5} q 8 4 5 12`
+                            }
+                            fill="none"
+                            stroke={props.color}
+                            stroke-width="1.5"
+                          />
+                        )}
+                      </For>
+                    </>
+                  )}
+                </Show>
+
+                {/* Note Heads */}
+                <For each={heads()}>
+                  {(head) => {
+                    const color = createMemo(() => getNoteColor(head.pitch, settings.noteColors));
+                    // Dots sit in a space, so heads on a line move them up
+                    const isOnLine = Math.abs((TREBLE_BASE_Y - head.y) % STAFF_LINE_SPACING) < 0.01;
+                    const dotY = isOnLine ? head.y - STAFF_LINE_SPACING / 2 : head.y;
+                    return (
+                      <>
+                        <Show when={head.accidental}>
+                          {(accidental) => (
+                            <text
+                              x={head.accidentalX - (accidental().courtesy ? 3 : 0)}
+                              y={head.y}
+                              font-size={accidental().courtesy ? '11' : '14'}
+                              text-anchor="middle"
+                              dominant-baseline="central"
+                            >
+                              {accidental().courtesy
+                                ? `(${ACCIDENTAL_GLYPHS[accidental().alter]})`
+                                : ACCIDENTAL_GLYPHS[accidental().alter]}
+                            </text>
+                          )}
+                        </Show>
+                        {/* Oval heads: tilted for stemmed notes, wider and upright for whole notes */}
+                        <ellipse
+                          cx={head.x}
+                          cy={head.y}
+                          rx={isWhole ? NOTE_RADIUS * 1.25 : NOTE_RADIUS}
+                          ry={NOTE_RADIUS * 0.75}
+                          transform={isWhole ? undefined : `rotate(-20 ${head.x} ${head.y})`}
+                          fill={isHollow ? '#fff' : color()}
+                          stroke={isHollow ? color() : props.color}
+                          stroke-width={isHollow ? '2' : '1'}
+                          class={isCurrentNote() ? 'brightness-125' : ''}
+                        />
+                        <For each={dots}>
+                          {(dot) => (
+                            <circle
+                              cx={head.x + NOTE_RADIUS + 4 + dot * DOT_SPACING}
+                              cy={dotY}
+                              r="1.5"
+                              fill={props.color}
+                            />
+                          )}
+                        </For>
+                        {/* Tie arc to the next note, on the side away from the stem */}
+                        <Show when={tieEndX()}>
+                          {(endX) => (
+                            <path
+                              d={`M ${head.x + NOTE_RADIUS} ${head.y + tieSide() * (NOTE_RADIUS / 2)} Q ${(head.x + endX()) / 2} ${head.y + tieSide() * NOTE_RADIUS * 2} ${endX() - NOTE_RADIUS} ${head.y + tieSide() * (NOTE_RADIUS / 2)}`}
+                              fill="none"
+                              stroke={props.color}
+                              stroke-width="1.2"
+                            />
+                          )}
+                        </Show>
+                      </>
+                    );
+                  }}
+                </For>
+              </Show>
+            </g>
+          );
+        }}
+      </For>
+      {/* Dynamics */}
+      <For each={items()}>
+        {({ item, x }) => (
+          <Show when={item.dynamic}>
+            {(dynamic) => (
+              <text
+                x={x}
+                y={DYNAMICS_Y}
+                font-size="13"
+                font-family="serif"
+                font-style="italic"
+                font-weight="bold"
+                text-anchor="middle"
+                dominant-baseline="central"
+                fill={props.color}
+              >
+                {dynamic()}
+              </text>
+            )}
+          </Show>
+        )}
+      </For>
+      <For each={hairpins()}>
+        {(hairpin) => {
+          // Crescendos open towards the right, decrescendos close
+          const pointX = hairpin.type === 'crescendo' ? hairpin.x1 : hairpin.x2;
+          const openX = hairpin.type === 'crescendo' ? hairpin.x2 : hairpin.x1;
+          return (
+            <path
+              d={`M ${openX} ${DYNAMICS_Y - HAIRPIN_OPENING} L ${pointX} ${DYNAMICS_Y} L ${openX} ${DYNAMICS_Y + HAIRPIN_OPENING}`}
+              fill="none"
+              stroke={props.color}
+              stroke-width="1"
+            />
+          );
+        }}
+      </For>
+      {/* Beams */}
+      <For each={stemLayout().beams}>
+        {(beam) => (
+          <line
+            x1={beam.x1}
+            y1={beam.y1}
+            x2={beam.x2}
+            y2={beam.y2}
+            stroke={props.color}
+            stroke-width={BEAM_THICKNESS}
+          />
+        )}
+      </For>
+      {/* Tuplet brackets */}
+      <For each={tupletBrackets()}>
+        {(bracket) => (
+          <g>
+            <path
+              d={`M ${bracket.x1} ${bracket.y + 4} V ${bracket.y} H ${bracket.x2} V ${bracket.y + 4}`}
+              fill="none"
+              stroke={props.color}
+              stroke-width="1"
+            />
+            <rect
+              x={(bracket.x1 + bracket.x2) / 2 - 5}
+              y={bracket.y - 5}
+              width="10"
+              height="10"
+              fill="#fff"
+            />
+            <text
+              x={(bracket.x1 + bracket.x2) / 2}
+              y={bracket.y + 3}
+              font-size="9"
+              font-style="italic"
+              text-anchor="middle"
+              fill={props.color}
+            >
+              {bracket.label}
+            </text>
+          </g>
+        )}
+      </For>
+    </g>
+  );
+};
@@ -0,0 +1,136 @@
+export type StemDirection = 'up' | 'down';
+
+// Engraving sizes (in viewBox units)
+export const NOTE_RADIUS = 6;
+export const STEM_LENGTH = 24;
+export const BEAM_THICKNESS = 4;
+const BEAM_SPACING = 6; // between the beams of 16ths, 32nds...
+const MIN_BEAMED_STEM = 18; // shortest stem from a head to the nearest beam
+const MAX_BEAM_SLOPE = 0.2;
+const BEAM_STUB = 8; // length of a partial beam on a lone shorter note
+
+export interface StemInput {
+  x: number; // notehead x
+  ys: number[]; // y of every head of the note or chord
+  offsets: number[]; // staff steps of every head from the middle line, positive above
+  beams: number; // flags or beams for the written value: 1 for an eighth, 0 for a quarter
+}
+
+export interface Stem {
+  direction: StemDirection;
+  x: number;
+  startY: number; // at the head farthest from the free end
+  endY: number; // the free end, or where the stem meets its beam
+  flags: number; // 0 when the note is beamed
+}
+
+export interface Beam {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Notes on or above the middle line take stems down, notes below take stems up;
+ * for chords and beamed groups the head farthest from the middle line decides
+ */
+export const getStemDirection = (offsets: number[]): StemDirection =>
+  Math.max(...offsets) >= -Math.min(...offsets) ? 'down' : 'up';
+
+const createStem = (input: StemInput, direction: StemDirection): Stem => {
+  const isUp = direction === 'up';
+  return {
+    direction,
+    // Up stems attach on the right of the head, down stems on the left
+    x: isUp ? input.x + NOTE_RADIUS : input.x - NOTE_RADIUS,
+    startY: isUp ? Math.max(...input.ys) : Math.min(...input.ys),
+    endY: isUp ? Math.min(...input.ys) - STEM_LENGTH : Math.max(...input.ys) + STEM_LENGTH,
+    flags: input.beams,
+  };
+};
+
+/**
+ * Stems for every note (null for rests and stemless notes) and the beams joining each group.
+ * Beams follow the contour of the group with a limited slope and keep every stem long enough.
+ */
+export function layoutStems(
+  inputs: (StemInput | null)[],
+  groups: number[][],
+): { stems: (Stem | null)[]; beams: Beam[] } {
+  const stems = inputs.map((input) =>
+    input ? createStem(input, getStemDirection(input.offsets)) : null,
+  );
+  const beams: Beam[] = [];
+
+  groups.forEach((group) => {
+    const members = group
+      .map((index) => ({ index, input: inputs[index] }))
+      .filter((member): member is { index: number; input: StemInput } => member.input !== null);
+    if (members.length < 2) {
+      return;
+    }
+
+    const direction = getStemDirection(members.flatMap(({ input }) => input.offsets));
+    const sign = direction === 'up' ? -1 : 1; // towards the free end of the stems
+    const groupStems = members.map(({ input }) => createStem(input, direction));
+
+    const first = groupStems[0];
+    const last = groupStems[groupStems.length - 1];
+    const rawSlope = (last.endY - first.endY) / Math.max(1, last.x - first.x);
+    const slope = Math.max(-MAX_BEAM_SLOPE, Math.min(MAX_BEAM_SLOPE, rawSlope));
+    let beamY = (x: number) => first.endY + slope * (x - first.x);
+
+    // Move the beam away from the heads until every stem is long enough for its beams
+    const shortfall = Math.max(
+      ...members.map(({ input }, i) => {
+        const nearestHead = direction === 'up' ? Math.min(...input.ys) : Math.max(...input.ys);
+        const needed = MIN_BEAMED_STEM + (input.beams - 1) * BEAM_SPACING;
+        return needed - (beamY(groupStems[i].x) - nearestHead) * sign;
+      }),
+    );
+    if (shortfall > 0) {
+      const base = beamY;
+      beamY = (x: number) => base(x) + shortfall * sign;
+    }
+
+    members.forEach(({ index }, i) => {
+      stems[index] = { ...groupStems[i], endY: beamY(groupStems[i].x), flags: 0 };
+    });
+
+    // The first beam joins the whole group; further beams join runs of shorter notes
+    const maxBeams = Math.max(...members.map(({ input }) => input.beams));
+    for (let level = 0; level < maxBeams; level++) {
+      const offset = -sign * level * BEAM_SPACING;
+      const segment = (x1: number, x2: number) =>
+        beams.push({ x1, y1: beamY(x1) + offset, x2, y2: beamY(x2) + offset });
+
+      let runStart: number | null = null;
+      members.forEach(({ input }, i) => {
+        const inRun = input.beams > level;
+        if (inRun && runStart === null) {
+          runStart = i;
+        }
+        const runEnds = runStart !== null && (!inRun || i === members.length - 1);
+        if (!runEnds || runStart === null) {
+          return;
+        }
+
+        const runEnd = inRun ? i : i - 1;
+        const startX = groupStems[runStart].x;
+        if (runEnd > runStart) {
+          segment(startX, groupStems[runEnd].x);
+        } else {
+          // A lone shorter note gets a stub pointing into the group
+          segment(
+            runStart === members.length - 1 ? startX - BEAM_STUB : startX,
+            runStart === members.length - 1 ? startX : startX + BEAM_STUB,
+          );
+        }
+        runStart = null;
+      });
+    }
+  });
+
+  return { stems, beams };
+}
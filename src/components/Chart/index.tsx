@@ -1,53 +1,159 @@
 import { Show } from 'solid-js';
 
+import { getActiveMelody } from '@lib/editorStore';
+import { getCurrentSong } from '@lib/songs/library';
 import { settings } from '@lib/store';
 
 import BarChart from './BarChart';
 import SheetChart from './SheetChart';
+import type { Clef } from './staffUtils';
 
-export interface NoteEvent {
+export interface Tuplet {
+  actual: number; // notes played...
+  normal: number; // ...in the time of this many, e.g. 3:2 for a triplet
+}
+
+export interface TupletMark extends Tuplet {
+  start?: boolean; // first event of the group
+  end?: boolean; // last event of the group
+}
+
+// Written rhythm. `duration` stays the sounding length the engines play;
+// these only change how it is notated.
+export interface RhythmNotation {
+  dots?: number; // augmentation dots on the written value
+  tie?: boolean; // tied into the next event, which continues the same sound
+  tuplet?: TupletMark; // `duration` already includes the tuplet ratio
+}
+
+export type DynamicLevel = 'pp' | 'p' | 'mp' | 'mf' | 'f' | 'ff';
+
+export interface HairpinMark {
+  type: 'crescendo' | 'decrescendo';
+  start?: boolean; // first event under the hairpin
+  end?: boolean; // last event under the hairpin
+}
+
+// Loudness. A dynamic holds until the next one; a hairpin moves towards the
+// dynamic after it (or one level further). The engines interpolate both.
+export interface DynamicsNotation {
+  dynamic?: DynamicLevel; // marking written at this event
+  hairpin?: HairpinMark; // set on every event under the hairpin
+}
+
+export interface Expression extends DynamicsNotation {
+  velocity?: number; // 1-127 as in MIDI; overrides the dynamics for this event only
+}
+
+export interface Lyric {
+  text: string; // one syllable, e.g. "Twin"
+  hyphen?: boolean; // the word goes on with the next syllable ("Twin-kle")
+  extend?: boolean; // melisma: held over the following notes that have no syllable
+}
+
+export interface LyricNotation {
+  lyric?: Lyric; // syllable sung on this event; tied continuations keep singing it
+}
+
+export interface NoteEvent extends RhythmNotation, Expression, LyricNotation {
   note: string;
   duration: number; // relative duration, e.g., 1 = quarter note
 }
 
-export interface Melody {
-  notes: NoteEvent[];
+export interface ChordEvent extends RhythmNotation, Expression, LyricNotation {
+  notes: string[]; // simultaneous pitches, e.g. ['C4', 'E4', 'G4']
+  duration: number; // same units as NoteEvent
+}
+
+export interface RestEvent extends Omit<RhythmNotation, 'tie'>, DynamicsNotation {
+  rest: true;
+  duration: number; // same units as NoteEvent
+}
+
+export type MelodyEvent = NoteEvent | ChordEvent | RestEvent;
+
+export interface KeySignature {
+  fifths: number; // sharps (positive) or flats (negative) in the signature, -7 to 7
+  mode: 'major' | 'minor';
+}
+
+export interface TempoChange {
+  beat: number; // beats from the start of the melody
+  bpm: number; // quarter notes per minute from this beat on
+  ramp?: boolean; // ritardando/accelerando: reach `bpm` gradually from the change before
+}
+
+export interface MeterChange {
+  beat: number; // a bar line of the meter before
   ratio: [number, number];
 }
 
-// Twinkle Twinkle Little Star
-export const DEMO_MELODY: Melody = {
-  ratio: [4, 4],
-  notes: [
-    { note: 'C4', duration: 1 },
-    { note: 'C4', duration: 1 },
-    { note: 'G4', duration: 1 },
-    { note: 'G4', duration: 1 },
-    { note: 'A4', duration: 1 },
-    { note: 'A4', duration: 1 },
-    { note: 'G4', duration: 2 },
-
-    { note: 'F4', duration: 1 },
-    { note: 'F4', duration: 1 },
-    { note: 'E4', duration: 1 },
-    { note: 'E4', duration: 1 },
-    { note: 'D4', duration: 1 },
-    { note: 'D4', duration: 1 },
-    { note: 'C4', duration: 2 },
-  ],
-};
+// A passage between repeat bar lines
+export interface RepeatSection {
+  start: number; // beat of the start repeat bar line, 0 when it repeats from the beginning
+  end: number; // beat of the end repeat bar line
+  times?: number; // passes through the section, 2 when missing
+}
+
+// First, second... ending: measures under a volta bracket, played on the listed passes only
+export interface Volta {
+  start: number; // beat, at a bar line
+  end: number; // beat, at a bar line
+  passes: number[]; // e.g. [1] for the first ending of the section it closes
+}
+
+// D.C. (back to the start) or D.S. (back to the segno), then on to Fine or to the coda.
+// Repeats are not taken again after the jump, which plays the last ending of each.
+export interface Jump {
+  beat: number; // where the D.C. or D.S. is written, at a bar line
+  to: 'start' | 'segno';
+  segno?: number; // beat of the segno sign, for D.S.
+  fine?: number; // al Fine: beat the piece ends at after the jump
+  toCoda?: number; // al Coda: beat left from after the jump...
+  coda?: number; // ...for the coda starting at this beat
+}
+
+// A part played alongside the main line, e.g. the left hand of a piano piece
+export interface MelodyTrack {
+  id: string; // e.g. "lh"; who plays a track is remembered by its id
+  name: string; // e.g. "Left hand"
+  notes: MelodyEvent[]; // from the start of the melody, like the main line
+  clef?: Clef; // staff the track is written on; each pitch picks its own otherwise
+}
+
+export interface Melody {
+  notes: MelodyEvent[]; // the main track, e.g. the right hand
+  ratio: [number, number];
+  key?: KeySignature; // C major when missing
+  tempo?: number; // written tempo at the start in quarter notes per minute, 120 when missing
+  tempoChanges?: TempoChange[]; // in beat order
+  meterChanges?: MeterChange[]; // in beat order; `ratio` is the meter at the start
+  trackName?: string; // name of the main track, "Melody" when missing
+  tracks?: MelodyTrack[]; // further tracks, played at the same time as `notes`
+  // Beats above are where things are written; playback follows them unfolded
+  repeats?: RepeatSection[]; // in beat order, not nested
+  voltas?: Volta[];
+  jump?: Jump;
+}
 
 const ChartDisplay = () => {
   return (
     <div class="w-full h-full flex-1 bg-white/50 backdrop-blur-sm rounded-lg shadow-sm border border-white/20 overflow-hidden flex flex-col">
       {/* We use transform-based panning in the charts; avoid native horizontal scrolling */}
       <div class="w-full flex-1 min-h-0 overflow-x-hidden flex">
-        <Show when={settings.chartType === 'bar'}>
-          <BarChart melody={DEMO_MELODY} />
-        </Show>
+        {/* Keyed on the song so switching songs remounts the chart with a fresh pan offset */}
+        <Show when={getCurrentSong()} keyed>
+          {(_song) => (
+            <>
+              <Show when={settings.chartType === 'bar'}>
+                <BarChart melody={getActiveMelody()} />
+              </Show>
 
-        <Show when={settings.chartType === 'sheet'}>
-          <SheetChart melody={DEMO_MELODY} />
+              <Show when={settings.chartType === 'sheet'}>
+                <SheetChart melody={getActiveMelody()} />
+              </Show>
+            </>
+          )}
         </Show>
       </div>
     </div>
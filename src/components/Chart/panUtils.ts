@@ -21,6 +21,9 @@ interface PanConfig {
   getLastCompletedNoteIndex: Accessor<number>;
   onSeek: (index: number, delayMs?: number) => void;
   ignorePointerDown?: (e: PointerEvent) => boolean;
+  // Snap seeking to measure starts (indices of the first note of each measure)
+  snapToMeasures?: Accessor<boolean>;
+  getMeasureStartIndices?: Accessor<number[]>;
 }
 
 export function createPanAndSeek(config: PanConfig) {
@@ -28,6 +31,8 @@ export function createPanAndSeek(config: PanConfig) {
   let isDragging = false;
   let dragStartX = 0;
   let dragStartOffset = 0;
+  // Unsnapped wheel position, so small wheel steps add up to reach the next measure
+  let wheelOffset: number | null = null;
 
   const clampOffset = (val: number) => {
     const timelineItems = config.getTimeline().items;
@@ -75,9 +80,23 @@ export function createPanAndSeek(config: PanConfig) {
     return Math.max(0, offset);
   };
 
+  const findMeasureAtOffset = (offset: number, noteIndex: number): number => {
+    const starts = config.getMeasureStartIndices?.() ?? [];
+    if (!config.snapToMeasures?.() || starts.length === 0) {
+      return noteIndex;
+    }
+
+    // Nearest measure start to where the user scrolled
+    return starts.reduce((best, start) =>
+      Math.abs(getNoteStartOffset(start) - offset) < Math.abs(getNoteStartOffset(best) - offset)
+        ? start
+        : best,
+    );
+  };
+
   const applyManualOffset = (offset: number) => {
     const clamped = clampOffset(offset);
-    const idx = findNoteAtOffset(clamped);
+    const idx = findMeasureAtOffset(clamped, findNoteAtOffset(clamped));
 
     if (idx >= 0) {
       // Snap to the beginning of the note
@@ -99,7 +118,9 @@ export function createPanAndSeek(config: PanConfig) {
     e.preventDefault();
     e.stopPropagation();
     const delta = Math.abs(e.deltaX) > Math.abs(e.deltaY) ? e.deltaX : e.deltaY;
-    applyManualOffset(manualOffset() + delta);
+    const base = config.snapToMeasures?.() ? (wheelOffset ?? manualOffset()) : manualOffset();
+    wheelOffset = clampOffset(base + delta);
+    applyManualOffset(wheelOffset);
   };
 
   const handlePointerDown = (e: PointerEvent) => {
@@ -113,6 +134,7 @@ export function createPanAndSeek(config: PanConfig) {
 
     e.preventDefault();
     e.stopPropagation();
+    wheelOffset = null;
     isDragging = true;
     dragStartX = e.clientX;
     dragStartOffset = manualOffset();
@@ -171,6 +193,7 @@ export function createPanAndSeek(config: PanConfig) {
 
     // When stopping playback, sync manual offset to current position
     if (prevPlaying && !isPlaying) {
+      wheelOffset = null;
       const currentIdx = config.getCurrentNoteIndex();
       const lastIdx = config.getLastCompletedNoteIndex();
 
@@ -195,6 +218,9 @@ export function createPanAndSeek(config: PanConfig) {
     handlePointerMove,
     handlePointerUp,
     handlePointerCancel,
-    setManualOffset,
+    setManualOffset: (offset: number) => {
+      wheelOffset = null;
+      setManualOffset(offset);
+    },
   };
 }
@@ -0,0 +1,79 @@
+import { parseNoteName } from '@lib/utils/musicUtils';
+
+export type Clef = 'treble' | 'bass';
+
+// Grand staff geometry shared by the charts (in viewBox units)
+export const STAFF_LINE_SPACING = 12;
+export const STAFF_LINE_COUNT = 5;
+const STAFF_HEIGHT = (STAFF_LINE_COUNT - 1) * STAFF_LINE_SPACING;
+
+export const TREBLE_TOP_Y = 28; // F5, leaving room for measure numbers and high ledger lines
+export const TREBLE_BASE_Y = TREBLE_TOP_Y + STAFF_HEIGHT; // E4
+export const BASS_TOP_Y = TREBLE_BASE_Y + 3 * STAFF_LINE_SPACING; // A3, middle C sits between
+export const BASS_BASE_Y = BASS_TOP_Y + STAFF_HEIGHT; // G2
+export const GRAND_STAFF_HEIGHT = BASS_BASE_Y + 3 * STAFF_LINE_SPACING; // room for low ledger lines
+export const LYRICS_Y = BASS_BASE_Y + 2 * STAFF_LINE_SPACING; // baseline of the lyrics, under the staves
+
+// Diatonic steps from C4 of the bottom line of each staff
+const BASE_STEPS: Record<Clef, number> = { treble: 2, bass: -10 }; // E4, G2
+const MIDDLE_STEPS: Record<Clef, number> = { treble: 6, bass: -6 }; // B4, D3
+const BASE_YS: Record<Clef, number> = { treble: TREBLE_BASE_Y, bass: BASS_BASE_Y };
+const TOP_YS: Record<Clef, number> = { treble: TREBLE_TOP_Y, bass: BASS_TOP_Y };
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+/**
+ * Diatonic steps from middle C; the letter sets the position, so "Bb4" and "B4" share it
+ */
+export const getStaffStep = (note: string): number => {
+  const { letter, octave } = parseNoteName(note) ?? { letter: 'B', octave: 4 };
+  return (octave - 4) * 7 + LETTERS.indexOf(letter);
+};
+
+/**
+ * Staff a note is written on: middle C and above on the treble staff, the rest on the bass staff
+ */
+export const getClef = (note: string): Clef => (getStaffStep(note) >= 0 ? 'treble' : 'bass');
+
+/**
+ * Diatonic steps above (positive) or below (negative) the middle line of the note's staff
+ */
+export const getMiddleLineOffset = (note: string, clef: Clef = getClef(note)): number =>
+  getStaffStep(note) - MIDDLE_STEPS[clef];
+
+/**
+ * Vertical position of a note on the grand staff
+ */
+export const getStaffY = (note: string, clef: Clef = getClef(note)) =>
+  // Each diatonic step is a half-line (line/space), so spacing/2
+  BASE_YS[clef] - (getStaffStep(note) - BASE_STEPS[clef]) * (STAFF_LINE_SPACING / 2);
+
+/**
+ * y of every line of both staves, treble first
+ */
+export const getStaffLineYs = (): number[] =>
+  (['treble', 'bass'] as Clef[]).flatMap((clef) =>
+    Array.from({ length: STAFF_LINE_COUNT }, (_, i) => TOP_YS[clef] + i * STAFF_LINE_SPACING),
+  );
+
+/**
+ * Ledger lines needed by a note or chord, above and below the staff each pitch is written on
+ * (the given staff, or each pitch's own)
+ */
+export const getLedgerLineYs = (pitches: string[], staff?: Clef): number[] => {
+  const lines = new Set<number>();
+
+  pitches.forEach((pitch) => {
+    const clef = staff ?? getClef(pitch);
+    const y = getStaffY(pitch, clef);
+
+    for (let ly = BASE_YS[clef] + STAFF_LINE_SPACING; ly <= y; ly += STAFF_LINE_SPACING) {
+      lines.add(ly);
+    }
+    for (let ly = TOP_YS[clef] - STAFF_LINE_SPACING; ly >= y; ly -= STAFF_LINE_SPACING) {
+      lines.add(ly);
+    }
+  });
+
+  return Array.from(lines);
+};
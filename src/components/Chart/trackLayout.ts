@@ -0,0 +1,48 @@
+import { createMemo } from 'solid-js';
+
+import { playback } from '@lib/playbackStore';
+import type { TrackRole } from '@lib/store';
+import { getEventStartBeats } from '@lib/utils/rhythmUtils';
+
+import type { MelodyEvent } from './index';
+
+// Tracks in the order of the melody: the main one in black, the others in blue, green, amber
+const TRACK_COLORS = ['#000', '#2563eb', '#059669', '#d97706'];
+const TRACK_OPACITIES: Record<TrackRole, number> = { user: 1, app: 0.6, muted: 0.25 };
+
+export const BEAT_TOLERANCE = 1e-6;
+
+export const getTrackColor = (index: number): string => TRACK_COLORS[index % TRACK_COLORS.length];
+
+/**
+ * Tracks the app plays are faded, muted ones even more
+ */
+export const getTrackOpacity = (role: TrackRole): number => TRACK_OPACITIES[role];
+
+/**
+ * Where playback is, in beats, so every track can follow the line the engines play:
+ * the span of the event playing now and the beat everything before has been played to
+ */
+export function createPlaybackBeats(line: () => MelodyEvent[]) {
+  const beats = createMemo(() => getEventStartBeats(line()));
+
+  const currentSpan = createMemo(() => {
+    const index = playback.currentNoteIndex;
+    if (index < 0 || index >= line().length) {
+      return null;
+    }
+    return { start: beats()[index], end: beats()[index + 1] };
+  });
+
+  const playedUntil = createMemo(() =>
+    Math.max(currentSpan()?.start ?? 0, beats()[playback.lastCompletedNoteIndex + 1] ?? 0),
+  );
+
+  // An event sounds while it overlaps the event playing now
+  const isSounding = (start: number, end: number) => {
+    const span = currentSpan();
+    return span !== null && start < span.end - BEAT_TOLERANCE && end > span.start + BEAT_TOLERANCE;
+  };
+
+  return { currentSpan, playedUntil, isSounding };
+}
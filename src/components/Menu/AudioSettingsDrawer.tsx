@@ -8,6 +8,8 @@ import {
 
 import { setSettings, settings, type Waveform, type InstrumentPreset } from '@lib/store';
 import { BUILTIN_PRESETS } from '@lib/audio/presets';
+import { DEFAULT_TEMPO } from '@lib/utils/tempoUtils';
+
 import CustomDrawer from './CustomDrawer';
 
 interface AudioSettingsDrawerProps {
@@ -21,6 +23,8 @@ const AudioSettingsDrawer: Component<AudioSettingsDrawerProps> = (props) => {
   const [lastPresetId, setLastPresetId] = createSignal<string>('');
 
   const allPresets = () => ({ ...BUILTIN_PRESETS, ...settings.customPresets });
+  const tempoLabel = () =>
+    `${settings.tempo} (${Math.round((settings.tempo / DEFAULT_TEMPO) * 100)}% of written)`;
   const currentPreset = (): InstrumentPreset => {
     const presets = allPresets();
     return presets[settings.currentPresetId] || BUILTIN_PRESETS['simple'];
@@ -228,11 +232,11 @@ const AudioSettingsDrawer: Component<AudioSettingsDrawerProps> = (props) => {
                   </Show>
                 </div>
 
-                {/* Tempo Control */}
+                {/* Tempo Control: scales the tempo marks of the song, 120 plays them as written */}
                 <div class="space-y-2">
                   <div class="flex justify-between">
                     <h3 class="font-semibold text-corvu-text text-sm">Tempo (BPM)</h3>
-                    <span class="text-sm text-gray-500">{settings.tempo}</span>
+                    <span class="text-sm text-gray-500">{tempoLabel()}</span>
                   </div>
                   <input
                     type="range"
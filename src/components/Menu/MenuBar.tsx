@@ -1,19 +1,24 @@
 import { Show, createSignal, type Component } from 'solid-js';
 
+import { closeEditor, editor, openEditor, type EditorMode } from '@lib/editorStore';
 import { setSettings, settings, type InstrumentPreset } from '@lib/store';
 import { BUILTIN_PRESETS } from '@lib/audio/presets';
 
 import PlaybackModeDrawer from './PlaybackModeDrawer';
+import RelayStatusIndicator from './RelayStatusIndicator';
 import SettingsDrawer from './SettingsDrawer';
 import AudioSettingsDrawer from './AudioSettingsDrawer';
+import SongLibraryDrawer from './SongLibraryDrawer';
+
+type DrawerId = 'settings' | 'playback' | 'audio' | 'library';
 
 const MenuBar: Component = () => {
   let menuBarRef: HTMLDivElement | undefined;
   let overlayRef: HTMLDivElement | undefined;
   const [isExpanded, setIsExpanded] = createSignal(false);
-  const [activeDrawer, setActiveDrawer] = createSignal<'settings' | 'playback' | 'audio' | null>(null);
+  const [activeDrawer, setActiveDrawer] = createSignal<DrawerId | null>(null);
 
-  const handleIconClick = (drawer: 'settings' | 'playback' | 'audio') => {
+  const handleIconClick = (drawer: DrawerId) => {
     // Toggle: if clicking the same drawer, close it; otherwise open the new one
     if (activeDrawer() === drawer) {
       setActiveDrawer(null);
@@ -59,7 +64,7 @@ const MenuBar: Component = () => {
           ) {
             // Found the button that was clicked - determine which drawer it opens
             const ariaLabel = button.getAttribute('aria-label') || '';
-            let targetDrawer: 'settings' | 'playback' | 'audio' | null = null;
+            let targetDrawer: DrawerId | null = null;
             
             if (ariaLabel === 'Settings') {
               targetDrawer = 'settings';
@@ -67,6 +72,8 @@ const MenuBar: Component = () => {
               targetDrawer = 'audio';
             } else if (ariaLabel === 'Playback Mode') {
               targetDrawer = 'playback';
+            } else if (ariaLabel === 'Song Library') {
+              targetDrawer = 'library';
             }
             
             // If it's a drawer button
@@ -102,6 +109,16 @@ const MenuBar: Component = () => {
     }
   };
 
+  const handleEditorToggle = (mode: EditorMode) => {
+    if (editor.isOpen && editor.mode === mode) {
+      closeEditor();
+    } else {
+      // The editor takes the place of the piano, so get drawers out of the way
+      setActiveDrawer(null);
+      openEditor(mode);
+    }
+  };
+
   const handleOctaveToggle = () => {
     const newCount = settings.octaveCount === 1 ? 2 : 1;
     setSettings('octaveCount', newCount);
@@ -172,6 +189,8 @@ const MenuBar: Component = () => {
       </Show>
 
       <div ref={menuBarRef} class="fixed top-4 right-4 z-[100] flex items-center gap-2">
+        <RelayStatusIndicator />
+
         <Show when={!isExpanded() && !activeDrawer()}>
           {/* Burger Menu Icon */}
           <button
@@ -274,6 +293,107 @@ const MenuBar: Component = () => {
             </svg>
           </button>
 
+          {/* Song Library Icon (Music Note) */}
+          <button
+            onClick={() => handleIconClick('library')}
+            aria-label="Song Library"
+            title="Song Library"
+            class={`grid h-10 w-10 place-items-center rounded-full text-white transition-all hover:bg-gray-800 active:translate-y-0.5 shadow-lg ring-1 ring-white/10 ${
+              activeDrawer() === 'library' ? 'bg-corvu-400' : 'bg-gray-900/90'
+            }`}
+          >
+            <svg
+              class="h-5 w-5"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              stroke-width="2"
+              stroke-linecap="round"
+              stroke-linejoin="round"
+              aria-hidden="true"
+            >
+              <path d="M4 19.5V5a2 2 0 0 1 2-2h14v16H6a2 2 0 0 0-2 2.5z" />
+              <path d="M4 19.5A2.5 2.5 0 0 0 6.5 22H20v-3" />
+              <path d="M11 14V7l5-1v6" />
+              <circle cx="9.5" cy="14" r="1.5" />
+              <circle cx="14.5" cy="12" r="1.5" />
+            </svg>
+          </button>
+
+          {/* ABC Editor Toggle (Pencil) */}
+          <button
+            onClick={() => handleEditorToggle('abc')}
+            aria-label="ABC Editor"
+            title="ABC Editor"
+            aria-pressed={editor.isOpen && editor.mode === 'abc'}
+            class={`grid h-10 w-10 place-items-center rounded-full text-white transition-all hover:bg-gray-800 active:translate-y-0.5 shadow-lg ring-1 ring-white/10 ${
+              editor.isOpen && editor.mode === 'abc' ? 'bg-corvu-400' : 'bg-gray-900/90'
+            }`}
+          >
+            <svg
+              class="h-5 w-5"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              stroke-width="2"
+              stroke-linecap="round"
+              stroke-linejoin="round"
+              aria-hidden="true"
+            >
+              <path d="M12 20h9" />
+              <path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4Z" />
+            </svg>
+          </button>
+
+          {/* Step Entry Toggle (Note) */}
+          <button
+            onClick={() => handleEditorToggle('step')}
+            aria-label="Step Entry"
+            title="Step Entry"
+            aria-pressed={editor.isOpen && editor.mode === 'step'}
+            class={`grid h-10 w-10 place-items-center rounded-full text-white transition-all hover:bg-gray-800 active:translate-y-0.5 shadow-lg ring-1 ring-white/10 ${
+              editor.isOpen && editor.mode === 'step' ? 'bg-corvu-400' : 'bg-gray-900/90'
+            }`}
+          >
+            <svg
+              class="h-5 w-5"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              stroke-width="2"
+              stroke-linecap="round"
+              stroke-linejoin="round"
+              aria-hidden="true"
+            >
+              <path d="M9 18V5l12-2v13" />
+              <circle cx="6" cy="18" r="3" />
+              <circle cx="18" cy="16" r="3" />
+            </svg>
+          </button>
+
+          {/* Recorder Toggle (Record) */}
+          <button
+            onClick={() => handleEditorToggle('record')}
+            aria-label="Record"
+            title="Record"
+            aria-pressed={editor.isOpen && editor.mode === 'record'}
+            class={`grid h-10 w-10 place-items-center rounded-full text-white transition-all hover:bg-gray-800 active:translate-y-0.5 shadow-lg ring-1 ring-white/10 ${
+              editor.isOpen && editor.mode === 'record' ? 'bg-corvu-400' : 'bg-gray-900/90'
+            }`}
+          >
+            <svg
+              class="h-5 w-5"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              stroke-width="2"
+              aria-hidden="true"
+            >
+              <circle cx="12" cy="12" r="9" />
+              <circle cx="12" cy="12" r="4" fill="currentColor" />
+            </svg>
+          </button>
+
           {/* Octave Count Toggle */}
           <button
             onClick={handleOctaveToggle}
@@ -502,6 +622,16 @@ const MenuBar: Component = () => {
           }
         }}
       />
+      <SongLibraryDrawer
+        open={activeDrawer() === 'library'}
+        onOpenChange={(open) => {
+          // Don't handle close here - MenuBar handles it via overlay clicks
+          // Only handle open to ensure menu bar is expanded
+          if (open) {
+            setIsExpanded(true);
+          }
+        }}
+      />
       <AudioSettingsDrawer
         open={activeDrawer() === 'audio'}
         onOpenChange={(open) => {
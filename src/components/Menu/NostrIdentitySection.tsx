@@ -0,0 +1,201 @@
+import { nip19 } from 'nostr-tools';
+import { Match, Show, Switch, createSignal, onMount, type Component } from 'solid-js';
+
+import {
+  createLocalKey,
+  detectExtension,
+  forgetLocalKey,
+  getEncryptedLocalKey,
+  identity,
+  importLocalKey,
+  signInWithExtension,
+  signOut,
+  unlockLocalKey,
+} from '@lib/identityStore';
+
+const BUTTON_CLASS =
+  'flex-1 rounded-lg border border-corvu-300 bg-white px-3 py-1.5 text-sm hover:bg-corvu-50 disabled:opacity-50';
+const INPUT_CLASS =
+  'w-full rounded-lg border border-corvu-300 bg-white px-2 py-1 text-sm focus:border-corvu-400 focus:outline-none';
+
+const SOURCE_LABELS = {
+  extension: 'Browser extension',
+  local: 'Key on this device',
+};
+
+const NostrIdentitySection: Component = () => {
+  const [passphrase, setPassphrase] = createSignal('');
+  const [keyToImport, setKeyToImport] = createSignal('');
+  const [isImporting, setIsImporting] = createSignal(false);
+  const [isBusy, setIsBusy] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  onMount(() => {
+    detectExtension().catch((err) => setError(err instanceof Error ? err.message : String(err)));
+  });
+
+  // Encrypting and decrypting the key take a moment (NIP-49 is slow on purpose)
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      setPassphrase('');
+      setKeyToImport('');
+      setIsImporting(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = () => {
+    const key = keyToImport();
+    const secret = passphrase();
+    return run(() => importLocalKey(key, secret));
+  };
+  const handleUnlock = () => {
+    const secret = passphrase();
+    return run(() => unlockLocalKey(secret));
+  };
+  const handleCreate = () => {
+    const secret = passphrase();
+    return run(() => createLocalKey(secret));
+  };
+
+  const handleForget = () => {
+    if (confirm('Forget the key stored on this device? Without a backup it is lost for good.')) {
+      forgetLocalKey();
+    }
+  };
+
+  return (
+    <div class="space-y-4">
+      <h3 class="text-lg font-bold text-corvu-text border-b border-corvu-300 pb-1">
+        Nostr Identity
+      </h3>
+
+      <Show
+        when={identity.pubkey}
+        fallback={
+          <div class="space-y-2">
+            <Show when={identity.hasExtension}>
+              <button
+                onClick={() => run(signInWithExtension)}
+                disabled={isBusy()}
+                class="w-full rounded-lg bg-corvu-400 px-3 py-1.5 text-sm text-white hover:bg-corvu-300 disabled:opacity-50"
+              >
+                Use browser extension (NIP-07)
+              </button>
+            </Show>
+
+            <Show when={isImporting()}>
+              <input
+                value={keyToImport()}
+                onInput={(e) => setKeyToImport(e.currentTarget.value)}
+                type="password"
+                autocomplete="off"
+                class={`${INPUT_CLASS} font-mono`}
+                aria-label="Secret key"
+                placeholder="nsec1…, hex or ncryptsec1…"
+              />
+            </Show>
+            <input
+              value={passphrase()}
+              onInput={(e) => setPassphrase(e.currentTarget.value)}
+              type="password"
+              autocomplete={identity.hasLocalKey ? 'current-password' : 'new-password'}
+              class={INPUT_CLASS}
+              aria-label="Passphrase"
+              placeholder="Passphrase"
+            />
+            <div class="flex gap-2">
+              <Switch>
+                <Match when={isImporting()}>
+                  <button
+                    onClick={handleImport}
+                    disabled={isBusy() || !keyToImport() || !passphrase()}
+                    class={BUTTON_CLASS}
+                  >
+                    Import key
+                  </button>
+                  <button onClick={() => setIsImporting(false)} class={BUTTON_CLASS}>
+                    Cancel
+                  </button>
+                </Match>
+                <Match when={identity.hasLocalKey}>
+                  <button
+                    onClick={handleUnlock}
+                    disabled={isBusy() || !passphrase()}
+                    class={BUTTON_CLASS}
+                  >
+                    Unlock key
+                  </button>
+                  <button onClick={handleForget} class={BUTTON_CLASS}>
+                    Forget key
+                  </button>
+                </Match>
+                <Match when={!identity.hasLocalKey}>
+                  <button
+                    onClick={handleCreate}
+                    disabled={isBusy() || !passphrase()}
+                    class={BUTTON_CLASS}
+                  >
+                    Create key
+                  </button>
+                  <button onClick={() => setIsImporting(true)} class={BUTTON_CLASS}>
+                    Import key
+                  </button>
+                </Match>
+              </Switch>
+            </div>
+            <p class="text-xs text-gray-500">
+              The key is stored on this device encrypted with the passphrase (NIP-49); you need it
+              again after reloading.
+            </p>
+          </div>
+        }
+      >
+        {(pubkey) => (
+          <div class="space-y-2">
+            <div class="rounded-lg border border-corvu-200 bg-white px-3 py-2">
+              <div class="text-xs text-gray-500">
+                {identity.source ? SOURCE_LABELS[identity.source] : ''}
+              </div>
+              <div class="break-all font-mono text-xs text-corvu-text">
+                {nip19.npubEncode(pubkey())}
+              </div>
+            </div>
+            <Show when={identity.source === 'local'}>
+              <details class="text-xs text-gray-600">
+                <summary class="cursor-pointer">Back up the key</summary>
+                <p class="mt-1">
+                  Encrypted with your passphrase (ncryptsec); import it on another device.
+                </p>
+                <input
+                  value={getEncryptedLocalKey() ?? ''}
+                  readOnly
+                  onFocus={(e) => e.currentTarget.select()}
+                  class={`${INPUT_CLASS} mt-1 font-mono text-xs`}
+                  aria-label="Encrypted key"
+                />
+              </details>
+            </Show>
+            <button onClick={signOut} class={`${BUTTON_CLASS} w-full`}>
+              Sign out
+            </button>
+          </div>
+        )}
+      </Show>
+
+      <Show when={error()}>
+        <div class="rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error()}
+        </div>
+      </Show>
+    </div>
+  );
+};
+
+export default NostrIdentitySection;
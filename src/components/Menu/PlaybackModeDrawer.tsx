@@ -1,6 +1,9 @@
-import { Show, type Component } from 'solid-js';
+import { For, Show, createMemo, type Component } from 'solid-js';
 
-import { setSettings, settings, type PlaybackMode } from '@lib/store';
+import { getTrackColor } from '@lib/components/Chart/trackLayout';
+import { getActiveMelody } from '@lib/editorStore';
+import { setSettings, settings, type PlaybackMode, type TrackRole } from '@lib/store';
+import { getTrackRole, getTracks } from '@lib/utils/trackUtils';
 import CustomDrawer from './CustomDrawer';
 
 interface PlaybackModeDrawerProps {
@@ -8,7 +11,15 @@ interface PlaybackModeDrawerProps {
   onOpenChange: (open: boolean) => void;
 }
 
+const TRACK_ROLE_LABELS: Record<TrackRole, string> = {
+  user: 'I play it',
+  app: 'App plays it',
+  muted: 'Muted',
+};
+
 const PlaybackModeDrawer: Component<PlaybackModeDrawerProps> = (props) => {
+  const tracks = createMemo(() => getTracks(getActiveMelody()));
+
   return (
     <CustomDrawer open={props.open} onOpenChange={props.onOpenChange} label="Playback Mode">
       {/* Playback Mode Section */}
@@ -62,6 +73,40 @@ const PlaybackModeDrawer: Component<PlaybackModeDrawerProps> = (props) => {
           </p>
         </div>
 
+        {/* Who plays each track of a song with several (e.g. right and left hand) */}
+        <Show when={tracks().length > 1}>
+          <div class="space-y-2 pt-2">
+            <h3 class="font-semibold text-corvu-text text-sm">Tracks</h3>
+            <For each={tracks()}>
+              {(track, index) => (
+                <label class="flex items-center justify-between gap-2">
+                  <span class="flex items-center gap-2 text-sm text-corvu-text">
+                    <span
+                      class="w-3 h-3 rounded-full"
+                      style={{ 'background-color': getTrackColor(index()) }}
+                    />
+                    {track.name}
+                  </span>
+                  <select
+                    value={getTrackRole(track.id, settings.trackRoles)}
+                    onChange={(e) =>
+                      setSettings('trackRoles', track.id, e.currentTarget.value as TrackRole)
+                    }
+                    class="rounded-lg border border-corvu-300 bg-white px-2 py-1 text-sm focus:border-corvu-400 focus:outline-none"
+                  >
+                    <For each={Object.entries(TRACK_ROLE_LABELS)}>
+                      {([role, label]) => <option value={role}>{label}</option>}
+                    </For>
+                  </select>
+                </label>
+              )}
+            </For>
+            <p class="text-xs text-gray-500">
+              Practice the tracks you play while the app plays the others along with you.
+            </p>
+          </div>
+        </Show>
+
         <Show when={settings.playbackMode === 'waitForUser'}>
           <div class="space-y-3 pt-2">
             <label class="flex items-center justify-between cursor-pointer">
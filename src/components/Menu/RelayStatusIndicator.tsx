@@ -0,0 +1,53 @@
+import { Show, type Component } from 'solid-js';
+
+import type { RelayStatus } from '@lib/nostr/pool';
+import { relayStatus } from '@lib/relayStore';
+import { settings } from '@lib/store';
+
+const describeStatus = (relay: string, status: RelayStatus) => {
+  const details = [
+    status.state === 'reconnecting' && status.attempts > 0 ? `attempt ${status.attempts + 1}` : '',
+    status.state !== 'connected' ? status.error : '',
+    status.authenticated ? 'authenticated' : '',
+    status.notice ? `notice: ${status.notice}` : '',
+  ].filter(Boolean);
+  return `${relay}: ${status.state}${details.length ? ` (${details.join(', ')})` : ''}`;
+};
+
+/**
+ * How the configured Nostr relays are connected, while the app is using any of them
+ */
+const RelayStatusIndicator: Component = () => {
+  const activeRelays = () =>
+    settings.nostrRelays
+      .map((relay) => [relay, relayStatus[relay]] as const)
+      .filter(([, status]) => status && status.state !== 'disconnected');
+  const connectedCount = () =>
+    activeRelays().filter(([, status]) => status.state === 'connected').length;
+
+  const dotClass = () => {
+    if (connectedCount() === activeRelays().length) {
+      return 'bg-green-400';
+    }
+    return connectedCount() > 0 ? 'bg-yellow-400' : 'bg-red-400';
+  };
+
+  return (
+    <Show when={activeRelays().length > 0}>
+      <div
+        role="status"
+        title={activeRelays()
+          .map(([relay, status]) => describeStatus(relay, status))
+          .join('\n')}
+        class="flex h-10 items-center gap-1.5 rounded-full bg-gray-900/90 px-3 text-xs text-white shadow-lg ring-1 ring-white/10"
+      >
+        <span class={`h-2 w-2 rounded-full ${dotClass()}`} aria-hidden="true" />
+        <span>
+          {connectedCount()}/{activeRelays().length} relays
+        </span>
+      </div>
+    </Show>
+  );
+};
+
+export default RelayStatusIndicator;
@@ -2,6 +2,8 @@ import { Show, createEffect, createSignal, onCleanup, onMount, type Component }
 
 import { setSettings, settings } from '@lib/store';
 import CustomDrawer from './CustomDrawer';
+import NostrIdentitySection from './NostrIdentitySection';
+import SettingsSyncSection from './SettingsSyncSection';
 
 // Chrome/Edge on desktop + Android fire `beforeinstallprompt`.
 // Safari/iOS does not, so we show an "Add to Home Screen" hint there.
@@ -131,6 +133,16 @@ const SettingsDrawer: Component<SettingsDrawerProps> = (props) => {
             />
           </label>
 
+          <label class="flex items-center justify-between cursor-pointer">
+            <span class="font-semibold text-corvu-text text-sm">Snap Seeking to Measures</span>
+            <input
+              type="checkbox"
+              checked={settings.snapToMeasures}
+              onChange={(e) => setSettings('snapToMeasures', e.currentTarget.checked)}
+              class="w-5 h-5 rounded border-corvu-300 text-corvu-400 focus:ring-corvu-400"
+            />
+          </label>
+
           <label
             class={`flex items-center justify-between ${
               desktopCapable() ? 'cursor-pointer' : 'cursor-not-allowed opacity-60'
@@ -171,6 +183,10 @@ const SettingsDrawer: Component<SettingsDrawerProps> = (props) => {
         </div>
       </div>
 
+      <NostrIdentitySection />
+
+      <SettingsSyncSection />
+
       {/* App / Install Section */}
       <div class="space-y-4">
         <h3 class="text-lg font-bold text-corvu-text border-b border-corvu-300 pb-1">
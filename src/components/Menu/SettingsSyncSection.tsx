@@ -0,0 +1,69 @@
+import { Show, type Component } from 'solid-js';
+
+import { setSyncEnabled, sync, syncNow, type SyncStatus } from '@lib/syncStore';
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  off: 'Off',
+  signedOut: 'Sign in with your Nostr identity above to sync.',
+  syncing: 'Syncing…',
+  synced: 'Up to date',
+  conflict: 'Paused',
+  error: 'Not synced',
+};
+
+const SettingsSyncSection: Component = () => {
+  const statusText = () =>
+    sync.status === 'synced' && sync.lastSyncedAt
+      ? `Up to date (${new Date(sync.lastSyncedAt).toLocaleTimeString()})`
+      : STATUS_LABELS[sync.status];
+
+  return (
+    <div class="space-y-3">
+      <h3 class="text-lg font-bold text-corvu-text border-b border-corvu-300 pb-1">
+        Sync Across Devices
+      </h3>
+
+      <label class="flex items-center justify-between cursor-pointer">
+        <span class="font-semibold text-corvu-text text-sm">Sync Settings and Presets</span>
+        <input
+          type="checkbox"
+          checked={sync.enabled}
+          onChange={(e) => setSyncEnabled(e.currentTarget.checked)}
+          class="w-5 h-5 rounded border-corvu-300 text-corvu-400 focus:ring-corvu-400"
+        />
+      </label>
+
+      <Show when={sync.enabled}>
+        <div class="flex items-center justify-between gap-2">
+          <span class="text-xs text-gray-600">{statusText()}</span>
+          <button
+            onClick={syncNow}
+            disabled={sync.status === 'signedOut' || sync.status === 'conflict'}
+            class="shrink-0 rounded-lg border border-corvu-300 bg-white px-3 py-1 text-xs hover:bg-corvu-50 disabled:opacity-50"
+          >
+            Sync now
+          </button>
+        </div>
+      </Show>
+      <Show when={sync.enabled && sync.message}>
+        <div
+          class={`rounded-lg border px-3 py-2 text-sm ${
+            sync.status === 'conflict'
+              ? 'border-yellow-300 bg-yellow-50 text-yellow-800'
+              : 'border-red-300 bg-red-50 text-red-700'
+          }`}
+        >
+          {sync.message}
+        </div>
+      </Show>
+
+      <p class="text-xs text-gray-500">
+        Instruments and preferences are kept on your relays as app data (NIP-78), encrypted so only
+        your identity can read them (NIP-44). The most recent change to each setting wins. Volume,
+        piano range and songs stay on this device.
+      </p>
+    </div>
+  );
+};
+
+export default SettingsSyncSection;
@@ -0,0 +1,244 @@
+import { nip19 } from 'nostr-tools';
+import { For, Show, createSignal, onCleanup, type Component } from 'solid-js';
+
+import { parsePublicKey } from '@lib/identityStore';
+import { createMelodyFilter, parseMelodyEvent, type PublishedMelody } from '@lib/nostr/melodyEvent';
+import { relayPool } from '@lib/relayStore';
+import {
+  addCustomSong,
+  DIFFICULTY_LABELS,
+  loadSong,
+  loadedSong,
+  unloadSong,
+} from '@lib/songs/library';
+import { settings } from '@lib/store';
+
+const BUTTON_CLASS =
+  'rounded-lg border border-corvu-300 bg-white px-2 py-1 text-xs hover:bg-corvu-50 disabled:opacity-50';
+const INPUT_CLASS =
+  'w-full rounded-lg border border-corvu-300 bg-white px-2 py-1 text-sm focus:border-corvu-400 focus:outline-none';
+
+interface RelayFailure {
+  relay: string;
+  reason: string;
+}
+
+const shortenNpub = (pubkey: string) => {
+  const npub = nip19.npubEncode(pubkey);
+  return `${npub.slice(0, 10)}…${npub.slice(-4)}`;
+};
+
+const formatDate = (createdAt: number) => new Date(createdAt * 1000).toLocaleDateString();
+
+const SongBrowseSection: Component = () => {
+  const [authors, setAuthors] = createSignal('');
+  const [tag, setTag] = createSignal('');
+  const [since, setSince] = createSignal('');
+  const [results, setResults] = createSignal<PublishedMelody[]>([]);
+  const [pendingRelays, setPendingRelays] = createSignal(0);
+  const [answeredRelays, setAnsweredRelays] = createSignal(0);
+  const [failures, setFailures] = createSignal<RelayFailure[]>([]);
+  const [hasSearched, setHasSearched] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  let closeSubscription: (() => void) | null = null;
+  const stopSearch = () => {
+    closeSubscription?.();
+    closeSubscription = null;
+  };
+  onCleanup(stopSearch);
+
+  // Every version of a song shares its address; only the newest one is listed
+  const addResult = (melody: PublishedMelody) =>
+    setResults((previous) => {
+      const existing = previous.find(({ address }) => address === melody.address);
+      if (existing && existing.createdAt >= melody.createdAt) {
+        return previous;
+      }
+      return [...previous.filter((result) => result !== existing), melody].sort(
+        (a, b) => b.createdAt - a.createdAt,
+      );
+    });
+
+  const handleSearch = () => {
+    const authorInputs = authors()
+      .split(/[\s,]+/)
+      .filter(Boolean);
+    const pubkeys = authorInputs.map(parsePublicKey);
+    const invalid = authorInputs.filter((_, i) => pubkeys[i] === null);
+    if (invalid.length > 0) {
+      setError(`Not a public key: ${invalid.join(', ')}`);
+      return;
+    }
+    const sinceDate = since() ? new Date(since()) : null;
+    const relays = settings.nostrRelays;
+
+    stopSearch();
+    setError(null);
+    setResults([]);
+    setFailures([]);
+    setHasSearched(true);
+    setPendingRelays(relays.length);
+    setAnsweredRelays(0);
+
+    // A relay is done once it has sent its stored melodies, or failed before that
+    const doneRelays = new Set<string>();
+    const settle = (relay: string) => {
+      doneRelays.add(relay);
+      setPendingRelays(relays.length - doneRelays.size);
+    };
+
+    const filter = createMelodyFilter({
+      authors: pubkeys.filter((pubkey): pubkey is string => pubkey !== null),
+      tag: tag().trim().replace(/^#/, ''),
+      since: sinceDate ? Math.floor(sinceDate.getTime() / 1000) : undefined,
+    });
+    closeSubscription = relayPool.subscribe(relays, [filter], {
+      onEvent: (event) => {
+        const melody = parseMelodyEvent(event);
+        if (melody) {
+          addResult(melody);
+        }
+      },
+      onEose: (relay) => {
+        settle(relay);
+        setAnsweredRelays((count) => count + 1);
+        // The pool keeps trying relays that were not reached in time
+        setFailures((previous) => previous.filter((failure) => failure.relay !== relay));
+      },
+      onClose: (relay, reason) => {
+        // Losing the live part of the subscription later is not worth reporting
+        if (!doneRelays.has(relay)) {
+          settle(relay);
+          setFailures((previous) => [...previous, { relay, reason }]);
+        }
+      },
+    });
+  };
+
+  const status = () => {
+    const count = results().length;
+    const found = `${count} ${count === 1 ? 'melody' : 'melodies'}`;
+    return pendingRelays() > 0
+      ? `Searching… ${found} so far`
+      : `${found} found on ${answeredRelays()} ${answeredRelays() === 1 ? 'relay' : 'relays'}`;
+  };
+
+  return (
+    <div class="space-y-2">
+      <h3 class="text-lg font-bold text-corvu-text border-b border-corvu-300 pb-1">
+        Find on Nostr
+      </h3>
+
+      <Show when={loadedSong()}>
+        {(song) => (
+          <div class="flex items-center justify-between gap-2 rounded-lg border border-corvu-400 bg-corvu-200 px-3 py-2 text-sm">
+            <span class="truncate">Playing “{song().title}” from Nostr (not saved)</span>
+            <button onClick={unloadSong} class={BUTTON_CLASS}>
+              Unload
+            </button>
+          </div>
+        )}
+      </Show>
+
+      <input
+        value={authors()}
+        onInput={(e) => setAuthors(e.currentTarget.value)}
+        class={`${INPUT_CLASS} font-mono`}
+        aria-label="Authors"
+        placeholder="Authors: npub1… (optional)"
+      />
+      <div class="flex gap-2">
+        <input
+          value={tag()}
+          onInput={(e) => setTag(e.currentTarget.value)}
+          class={INPUT_CLASS}
+          aria-label="Tag"
+          placeholder="#tag (optional)"
+        />
+        <input
+          value={since()}
+          onInput={(e) => setSince(e.currentTarget.value)}
+          type="date"
+          class={INPUT_CLASS}
+          aria-label="Published since"
+          title="Published since"
+        />
+      </div>
+      <button
+        onClick={handleSearch}
+        disabled={settings.nostrRelays.length === 0}
+        class="w-full rounded-lg bg-corvu-400 px-3 py-1.5 text-sm text-white hover:bg-corvu-300 disabled:opacity-50"
+      >
+        Search the relays
+      </button>
+
+      <Show when={error()}>
+        <div class="rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error()}
+        </div>
+      </Show>
+
+      <Show when={hasSearched()}>
+        <p class="text-xs text-gray-500">{status()}</p>
+        <Show when={failures().length > 0}>
+          <p class="text-xs text-red-700">
+            Not reached:{' '}
+            {failures()
+              .map(({ relay, reason }) => `${relay} (${reason})`)
+              .join(', ')}
+          </p>
+        </Show>
+        <ul class="flex flex-col gap-2">
+          <For each={results()}>
+            {(result) => (
+              <li
+                class={`rounded-lg border px-3 py-2 ${
+                  loadedSong() === result.song
+                    ? 'border-corvu-400 bg-corvu-200'
+                    : 'border-corvu-200 bg-white'
+                }`}
+              >
+                <div class="flex items-center justify-between gap-2">
+                  <span class="font-semibold text-sm text-corvu-text truncate">
+                    {result.song.title}
+                  </span>
+                  <span class="shrink-0 text-[10px] font-semibold uppercase tracking-wide text-gray-500">
+                    {DIFFICULTY_LABELS[result.song.difficulty]}
+                  </span>
+                </div>
+                <div class="text-xs text-gray-500">
+                  {result.song.composer} · {result.song.melody.ratio[0]}/
+                  {result.song.melody.ratio[1]}
+                </div>
+                <div class="mt-1 flex items-center justify-between gap-2">
+                  <span class="truncate font-mono text-[10px] text-gray-500">
+                    {shortenNpub(result.pubkey)} · {formatDate(result.createdAt)}
+                  </span>
+                  <span class="flex shrink-0 gap-1">
+                    <button onClick={() => loadSong(result.song)} class={BUTTON_CLASS}>
+                      Load
+                    </button>
+                    <button
+                      onClick={() => addCustomSong({ ...result.song })}
+                      class={BUTTON_CLASS}
+                      title="Save to My Songs"
+                    >
+                      Save
+                    </button>
+                  </span>
+                </div>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+      <p class="text-xs text-gray-500">
+        Melodies shared by anyone on your relays. Signatures are checked; loading a melody plays it
+        without adding it to your songs.
+      </p>
+    </div>
+  );
+};
+
+export default SongBrowseSection;
@@ -0,0 +1,140 @@
+import { Show, createSignal, type Component } from 'solid-js';
+
+import { userInputTracker } from '@lib/audio/userInputTracker';
+import { getSongMelody } from '@lib/editorStore';
+import { melodyToAbc } from '@lib/formats/abc';
+import { melodyToMidi, userInputToMidi } from '@lib/formats/midiWriter';
+import { melodyToMusicXml, melodyToMxl } from '@lib/formats/musicXml';
+import { playback } from '@lib/playbackStore';
+import { getCurrentSong } from '@lib/songs/library';
+import { settings } from '@lib/store';
+import { downloadFile, toFileName } from '@lib/utils/download';
+import { unfoldMelody } from '@lib/utils/repeatUtils';
+
+const MIDI_MIME_TYPE = 'audio/midi';
+const MUSICXML_MIME_TYPE = 'application/vnd.recordare.musicxml+xml';
+const MXL_MIME_TYPE = 'application/vnd.recordare.musicxml';
+const ABC_MIME_TYPE = 'text/vnd.abc';
+
+const SongExportSection: Component = () => {
+  const [error, setError] = createSignal<string | null>(null);
+
+  // Prefer the take in progress; fall back to the last finished one
+  const performanceEvents = () =>
+    userInputTracker.getTotalEventCount() > 0
+      ? userInputTracker.getAllEvents()
+      : playback.userInputEvents;
+
+  const runExport = (exporter: () => void) => {
+    setError(null);
+    try {
+      exporter();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // The formats get the song as it is played: transposed, with repeats and endings written out
+  const getExportMelody = () => unfoldMelody(getSongMelody());
+
+  const handleExportSong = () =>
+    runExport(() => {
+      const song = getCurrentSong();
+      const data = melodyToMidi(getExportMelody(), { tempo: settings.tempo, title: song.title });
+      downloadFile(data, `${toFileName(song.title)}.mid`, MIDI_MIME_TYPE);
+    });
+
+  const handleExportMusicXml = (compressed: boolean) =>
+    runExport(() => {
+      const song = getCurrentSong();
+      const metadata = { title: song.title, composer: song.composer };
+      if (compressed) {
+        downloadFile(
+          melodyToMxl(getExportMelody(), metadata),
+          `${toFileName(song.title)}.mxl`,
+          MXL_MIME_TYPE,
+        );
+      } else {
+        downloadFile(
+          melodyToMusicXml(getExportMelody(), metadata),
+          `${toFileName(song.title)}.musicxml`,
+          MUSICXML_MIME_TYPE,
+        );
+      }
+    });
+
+  const handleExportAbc = () =>
+    runExport(() => {
+      const song = getCurrentSong();
+      const data = melodyToAbc(getExportMelody(), { title: song.title, composer: song.composer });
+      downloadFile(data, `${toFileName(song.title)}.abc`, ABC_MIME_TYPE);
+    });
+
+  const handleExportPerformance = () =>
+    runExport(() => {
+      const events = performanceEvents();
+      if (events.length === 0) {
+        throw new Error('Nothing recorded yet. Play some notes on the piano first.');
+      }
+
+      const song = getCurrentSong();
+      const data = userInputToMidi(events, {
+        tempo: settings.tempo,
+        title: `${song.title} (performance)`,
+        ratio: song.melody.ratio,
+      });
+      downloadFile(data, `${toFileName(song.title)}-performance.mid`, MIDI_MIME_TYPE);
+    });
+
+  return (
+    <div class="space-y-2">
+      <h3 class="text-lg font-bold text-corvu-text border-b border-corvu-300 pb-1">Export</h3>
+      <div class="flex gap-2">
+        <button
+          onClick={handleExportSong}
+          class="flex-1 rounded-lg border border-corvu-300 bg-white px-3 py-1.5 text-sm hover:bg-corvu-50"
+        >
+          Song (.mid)
+        </button>
+        <button
+          onClick={handleExportPerformance}
+          class="flex-1 rounded-lg border border-corvu-300 bg-white px-3 py-1.5 text-sm hover:bg-corvu-50"
+        >
+          My Performance (.mid)
+        </button>
+      </div>
+      <div class="flex gap-2">
+        <button
+          onClick={() => handleExportMusicXml(false)}
+          class="flex-1 rounded-lg border border-corvu-300 bg-white px-3 py-1.5 text-sm hover:bg-corvu-50"
+        >
+          MusicXML (.musicxml)
+        </button>
+        <button
+          onClick={() => handleExportMusicXml(true)}
+          class="flex-1 rounded-lg border border-corvu-300 bg-white px-3 py-1.5 text-sm hover:bg-corvu-50"
+        >
+          Compressed (.mxl)
+        </button>
+        <button
+          onClick={handleExportAbc}
+          class="flex-1 rounded-lg border border-corvu-300 bg-white px-3 py-1.5 text-sm hover:bg-corvu-50"
+        >
+          ABC (.abc)
+        </button>
+      </div>
+      <p class="text-xs text-gray-500">
+        MIDI exports follow the song's tempo marks at the current tempo ({settings.tempo} BPM). Your
+        performance is every key you pressed since the last practice run started.
+      </p>
+
+      <Show when={error()}>
+        <div class="rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error()}
+        </div>
+      </Show>
+    </div>
+  );
+};
+
+export default SongExportSection;
@@ -0,0 +1,228 @@
+import { For, Show, createSignal, type Component } from 'solid-js';
+
+import type { Melody } from '@lib/components/Chart';
+import { AbcImportError, formatAbcError, parseAbc } from '@lib/formats/abc';
+import { describeMidiTrack, midiTrackToMelody, parseMidi } from '@lib/formats/midiParser';
+import { parseMusicXml, readMxl } from '@lib/formats/musicXml';
+import { addCustomSong } from '@lib/songs/library';
+
+interface ImportedSong {
+  title: string;
+  composer: string;
+  melody: Melody;
+  warnings: string[];
+}
+
+interface ImportChoice {
+  label: string;
+  load: () => ImportedSong;
+}
+
+interface PendingImport {
+  fileName: string;
+  choiceLabel: string; // "Track", "Part", ...
+  choices: ImportChoice[];
+}
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() ?? '';
+
+async function readMidiImport(file: File): Promise<PendingImport> {
+  const midiFile = parseMidi(await file.arrayBuffer());
+  const baseTitle = stripExtension(file.name);
+
+  return {
+    fileName: file.name,
+    choiceLabel: 'Track',
+    choices: midiFile.tracks.map((track) => ({
+      label: describeMidiTrack(track),
+      load: () => ({
+        title:
+          midiFile.tracks.length > 1 && track.name ? `${baseTitle} – ${track.name}` : baseTitle,
+        composer: 'Imported',
+        ...midiTrackToMelody(midiFile, track.index),
+      }),
+    })),
+  };
+}
+
+async function readMusicXmlImport(file: File): Promise<PendingImport> {
+  const text =
+    getExtension(file.name) === 'mxl' ? await readMxl(await file.arrayBuffer()) : await file.text();
+  const score = parseMusicXml(text);
+  const baseTitle = score.title || stripExtension(file.name);
+
+  return {
+    fileName: file.name,
+    choiceLabel: 'Part',
+    choices: score.parts.map((part) => ({
+      label: `${part.name} — ${part.melody.notes.length} notes`,
+      load: () => ({
+        title: score.parts.length > 1 ? `${baseTitle} – ${part.name}` : baseTitle,
+        composer: score.composer || 'Imported',
+        melody: part.melody,
+        warnings: part.warnings,
+      }),
+    })),
+  };
+}
+
+async function readAbcImport(file: File): Promise<PendingImport> {
+  const tunes = parseAbc(await file.text());
+  if (tunes.length === 0) {
+    throw new AbcImportError('The file does not contain any ABC tunes with notes.');
+  }
+
+  return {
+    fileName: file.name,
+    choiceLabel: 'Tune',
+    choices: tunes.map((tune) => ({
+      label: `${tune.index}. ${tune.title || 'Untitled'} — ${tune.melody.notes.length} notes`,
+      load: () => {
+        if (tune.errors.length > 0) {
+          throw new AbcImportError(formatAbcError(tune.errors[0]));
+        }
+        return {
+          title: tune.title || stripExtension(file.name),
+          composer: tune.composer || 'Imported',
+          melody: tune.melody,
+          warnings: tune.warnings,
+        };
+      },
+    })),
+  };
+}
+
+const IMPORTERS: Record<string, (file: File) => Promise<PendingImport>> = {
+  mid: readMidiImport,
+  midi: readMidiImport,
+  musicxml: readMusicXmlImport,
+  xml: readMusicXmlImport,
+  mxl: readMusicXmlImport,
+  abc: readAbcImport,
+};
+
+const ACCEPTED_FILES = Object.keys(IMPORTERS)
+  .map((extension) => `.${extension}`)
+  .join(',');
+
+const SongImportSection: Component = () => {
+  const [pending, setPending] = createSignal<PendingImport | null>(null);
+  const [selectedChoice, setSelectedChoice] = createSignal(0);
+  const [error, setError] = createSignal<string | null>(null);
+  const [warnings, setWarnings] = createSignal<string[]>([]);
+
+  const reset = () => {
+    setPending(null);
+    setError(null);
+    setWarnings([]);
+  };
+
+  const handleFileChange = async (e: Event & { currentTarget: HTMLInputElement }) => {
+    const input = e.currentTarget;
+    const file = input.files?.[0];
+    // Allow picking the same file again after an error
+    input.value = '';
+
+    if (!file) {
+      return;
+    }
+
+    reset();
+
+    const importer = IMPORTERS[getExtension(file.name)];
+    if (!importer) {
+      setError(`Unsupported file type. Please choose one of: ${ACCEPTED_FILES}`);
+      return;
+    }
+
+    try {
+      setPending(await importer(file));
+      setSelectedChoice(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImport = () => {
+    const current = pending();
+    if (!current) {
+      return;
+    }
+
+    try {
+      const {
+        title,
+        composer,
+        melody,
+        warnings: importWarnings,
+      } = current.choices[selectedChoice()].load();
+
+      addCustomSong({ title, composer, difficulty: 'intermediate', melody });
+      setPending(null);
+      setError(null);
+      setWarnings(importWarnings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div class="space-y-2">
+      <h3 class="text-lg font-bold text-corvu-text border-b border-corvu-300 pb-1">Import</h3>
+      <label class="block w-full cursor-pointer rounded-lg border border-dashed border-corvu-300 bg-white px-3 py-2 text-center text-sm text-corvu-text hover:bg-corvu-50">
+        Choose a MIDI, MusicXML or ABC file…
+        <input type="file" accept={ACCEPTED_FILES} class="hidden" onChange={handleFileChange} />
+      </label>
+
+      <Show when={pending()}>
+        {(current) => (
+          <div class="space-y-2 rounded-lg border border-corvu-200 bg-white p-3">
+            <div class="text-sm font-semibold text-corvu-text">{current().fileName}</div>
+            <label class="block space-y-1">
+              <span class="text-xs text-gray-600">{current().choiceLabel}</span>
+              <select
+                value={selectedChoice()}
+                onChange={(e) => setSelectedChoice(parseInt(e.currentTarget.value, 10))}
+                class="w-full rounded-lg border border-corvu-300 bg-white px-3 py-2 text-sm focus:border-corvu-400 focus:outline-none"
+              >
+                <For each={current().choices}>
+                  {(choice, index) => <option value={index()}>{choice.label}</option>}
+                </For>
+              </select>
+            </label>
+            <div class="flex gap-2">
+              <button
+                onClick={reset}
+                class="flex-1 rounded-lg border border-corvu-300 bg-white px-3 py-1.5 text-sm hover:bg-corvu-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                class="flex-1 rounded-lg bg-corvu-400 px-3 py-1.5 text-sm text-white hover:bg-corvu-300"
+              >
+                Import {current().choiceLabel}
+              </button>
+            </div>
+          </div>
+        )}
+      </Show>
+
+      <Show when={error()}>
+        <div class="rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error()}
+        </div>
+      </Show>
+
+      <Show when={warnings().length > 0}>
+        <div class="rounded-lg border border-yellow-300 bg-yellow-50 px-3 py-2 text-xs text-yellow-800 space-y-1">
+          <For each={warnings()}>{(warning) => <div>{warning}</div>}</For>
+        </div>
+      </Show>
+    </div>
+  );
+};
+
+export default SongImportSection;
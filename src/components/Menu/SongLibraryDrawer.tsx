@@ -0,0 +1,121 @@
+import { For, Show, type Component } from 'solid-js';
+
+import {
+  BUILTIN_SONGS,
+  deleteCustomSong,
+  DIFFICULTY_LABELS,
+  loadedSong,
+  unloadSong,
+} from '@lib/songs/library';
+import { setSettings, settings, type Song, type SongDifficulty } from '@lib/store';
+
+import CustomDrawer from './CustomDrawer';
+import SongBrowseSection from './SongBrowseSection';
+import SongExportSection from './SongExportSection';
+import SongImportSection from './SongImportSection';
+import SongPublishSection from './SongPublishSection';
+import SongTransposeSection from './SongTransposeSection';
+
+interface SongLibraryDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DIFFICULTY_ORDER: SongDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+const DIFFICULTY_BADGE_CLASSES: Record<SongDifficulty, string> = {
+  beginner: 'bg-green-100 text-green-800',
+  intermediate: 'bg-yellow-100 text-yellow-800',
+  advanced: 'bg-red-100 text-red-800',
+};
+
+const SongButton: Component<{ song: Song }> = (props) => {
+  const isSelected = () => settings.currentSongId === props.song.id && !loadedSong();
+  const isCustom = () => !BUILTIN_SONGS[props.song.id];
+
+  return (
+    <div class="flex gap-2">
+      <button
+        onClick={() => {
+          unloadSong();
+          setSettings('currentSongId', props.song.id);
+        }}
+        class={`flex-1 min-w-0 rounded-lg border px-3 py-2 text-left transition-all active:translate-y-0.5 ${
+          isSelected()
+            ? 'border-corvu-400 bg-corvu-200'
+            : 'border-corvu-200 bg-white hover:bg-corvu-50'
+        }`}
+        aria-pressed={isSelected()}
+      >
+        <div class="flex items-center justify-between gap-2">
+          <span class="font-semibold text-sm text-corvu-text truncate">{props.song.title}</span>
+          <span
+            class={`shrink-0 rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide ${DIFFICULTY_BADGE_CLASSES[props.song.difficulty]}`}
+          >
+            {DIFFICULTY_LABELS[props.song.difficulty]}
+          </span>
+        </div>
+        <div class="text-xs text-gray-500">
+          {props.song.composer} · {props.song.melody.ratio[0]}/{props.song.melody.ratio[1]}
+        </div>
+      </button>
+      <Show when={isCustom()}>
+        <button
+          onClick={() => deleteCustomSong(props.song.id)}
+          class="rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-700 hover:bg-red-100"
+          title="Delete song"
+        >
+          🗑️
+        </button>
+      </Show>
+    </div>
+  );
+};
+
+const SongLibraryDrawer: Component<SongLibraryDrawerProps> = (props) => {
+  const songsByDifficulty = (difficulty: SongDifficulty) =>
+    Object.values(BUILTIN_SONGS).filter((song) => song.difficulty === difficulty);
+  const customSongs = () => Object.values(settings.customSongs || {});
+
+  return (
+    <CustomDrawer open={props.open} onOpenChange={props.onOpenChange} label="Song Library">
+      <Show when={customSongs().length > 0}>
+        <div class="space-y-2">
+          <h3 class="text-lg font-bold text-corvu-text border-b border-corvu-300 pb-1">My Songs</h3>
+          <div class="flex flex-col gap-2">
+            <For each={customSongs()}>{(song) => <SongButton song={song} />}</For>
+          </div>
+        </div>
+      </Show>
+
+      <For each={DIFFICULTY_ORDER}>
+        {(difficulty) => (
+          <Show when={songsByDifficulty(difficulty).length > 0}>
+            <div class="space-y-2">
+              <h3 class="text-lg font-bold text-corvu-text border-b border-corvu-300 pb-1">
+                {DIFFICULTY_LABELS[difficulty]}
+              </h3>
+              <div class="flex flex-col gap-2">
+                <For each={songsByDifficulty(difficulty)}>
+                  {(song) => <SongButton song={song} />}
+                </For>
+              </div>
+            </div>
+          </Show>
+        )}
+      </For>
+
+      <SongTransposeSection />
+
+      <SongImportSection />
+
+      <SongExportSection />
+
+      <SongPublishSection />
+
+      <SongBrowseSection />
+    </CustomDrawer>
+  );
+};
+
+export default SongLibraryDrawer;
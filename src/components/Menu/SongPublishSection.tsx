@@ -0,0 +1,112 @@
+import { For, Show, createSignal, type Component } from 'solid-js';
+
+import { getSigner, identity } from '@lib/identityStore';
+import type { PublishResult } from '@lib/nostr/pool';
+import { publishSong } from '@lib/nostr/publish';
+import { normalizeRelayUrl } from '@lib/nostr/relay';
+import { relayPool } from '@lib/relayStore';
+import { getCurrentSong } from '@lib/songs/library';
+import { setSettings, settings } from '@lib/store';
+
+const SongPublishSection: Component = () => {
+  const [relayText, setRelayText] = createSignal(settings.nostrRelays.join('\n'));
+  const [invalidRelays, setInvalidRelays] = createSignal<string[]>([]);
+  const [isPublishing, setIsPublishing] = createSignal(false);
+  const [results, setResults] = createSignal<PublishResult[]>([]);
+  const [error, setError] = createSignal<string | null>(null);
+
+  // One relay per line; lines that are not relay addresses are pointed out, not saved
+  const handleRelaysChange = (text: string) => {
+    const lines = text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+    const relays = lines.map(normalizeRelayUrl);
+    setInvalidRelays(lines.filter((_, i) => relays[i] === null));
+    setSettings('nostrRelays', [
+      ...new Set(relays.filter((relay): relay is string => relay !== null)),
+    ]);
+  };
+
+  const handlePublish = async () => {
+    const signer = getSigner();
+    if (!signer) {
+      return;
+    }
+    setIsPublishing(true);
+    setResults([]);
+    setError(null);
+    try {
+      setResults(await publishSong(getCurrentSong(), settings.nostrRelays, signer, relayPool));
+    } catch (err) {
+      // The signer can refuse, e.g. when the extension's prompt is declined
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div class="space-y-2">
+      <h3 class="text-lg font-bold text-corvu-text border-b border-corvu-300 pb-1">
+        Share on Nostr
+      </h3>
+      <textarea
+        value={relayText()}
+        onInput={(e) => setRelayText(e.currentTarget.value)}
+        onChange={(e) => handleRelaysChange(e.currentTarget.value)}
+        rows={3}
+        spellcheck={false}
+        class="w-full rounded-lg border border-corvu-300 bg-white px-2 py-1 font-mono text-xs focus:border-corvu-400 focus:outline-none"
+        aria-label="Relays, one per line"
+        placeholder="wss://relay.example.com"
+      />
+      <Show when={invalidRelays().length > 0}>
+        <p class="text-xs text-red-700">Not a relay address: {invalidRelays().join(', ')}</p>
+      </Show>
+      <button
+        onClick={handlePublish}
+        disabled={isPublishing() || !identity.pubkey || settings.nostrRelays.length === 0}
+        class="w-full rounded-lg bg-corvu-400 px-3 py-1.5 text-sm text-white hover:bg-corvu-300 disabled:opacity-50"
+      >
+        {isPublishing() ? 'Publishing…' : `Publish “${getCurrentSong().title}”`}
+      </button>
+
+      <Show when={!identity.pubkey}>
+        <p class="text-xs text-gray-500">Sign in with your Nostr identity in Settings first.</p>
+      </Show>
+      <Show when={error()}>
+        <div class="rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error()}
+        </div>
+      </Show>
+
+      <Show when={results().length > 0}>
+        <ul class="space-y-1">
+          <For each={results()}>
+            {(result) => (
+              <li
+                class={`flex justify-between gap-2 rounded-lg border px-2 py-1 text-xs ${
+                  result.ok
+                    ? 'border-green-300 bg-green-50 text-green-800'
+                    : 'border-red-300 bg-red-50 text-red-700'
+                }`}
+              >
+                <span class="truncate font-mono">{result.relay}</span>
+                <span class="shrink-0">
+                  {result.ok ? '✓ Published' : `✗ ${result.message || 'Rejected'}`}
+                </span>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+      <p class="text-xs text-gray-500">
+        The song is signed with your Nostr identity. Publishing it again replaces the copy on each
+        relay.
+      </p>
+    </div>
+  );
+};
+
+export default SongPublishSection;
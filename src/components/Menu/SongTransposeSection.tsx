@@ -0,0 +1,84 @@
+import { For, type Component } from 'solid-js';
+
+import { getCurrentSong } from '@lib/songs/library';
+import { setSettings, settings } from '@lib/store';
+import { getKeyName } from '@lib/utils/keyUtils';
+import { getSemitonesToKey, getTransposedKey, getTransposedKeys } from '@lib/utils/transposeUtils';
+
+// Shifts offered as target keys: one of each tonic, nearest first up and down
+const KEY_SHIFTS = [-6, -5, -4, -3, -2, -1, 0, 1, 2, 3, 4, 5];
+const MAX_TRANSPOSE = 12;
+
+const BUTTON_CLASS =
+  'rounded-lg border border-corvu-300 bg-white px-3 py-1 text-sm hover:bg-corvu-50 disabled:opacity-50';
+
+const formatShift = (semitones: number) =>
+  semitones === 0 ? 'as written' : `${semitones > 0 ? '+' : ''}${semitones} semitones`;
+
+const SongTransposeSection: Component = () => {
+  const writtenKey = () => getCurrentSong().melody.key;
+  // Octaves above or below keep the key, so the key menu picks among the nearest shifts
+  const octaves = () => Math.round(settings.transpose / 12);
+  const setTranspose = (semitones: number) =>
+    setSettings('transpose', Math.max(-MAX_TRANSPOSE, Math.min(MAX_TRANSPOSE, semitones)));
+  // Every spelling of each tonic, so that F# major can be picked as well as Gb major
+  const keys = () => KEY_SHIFTS.flatMap((shift) => getTransposedKeys(writtenKey(), shift));
+  const shownKey = () => getTransposedKey(writtenKey(), settings.transpose, settings.transposeKey);
+  const pickKey = (fifths: number) => {
+    const key = keys().find((candidate) => candidate.fifths === fifths);
+    if (key) {
+      setSettings('transposeKey', key);
+      setTranspose(octaves() * 12 + getSemitonesToKey(writtenKey(), key));
+    }
+  };
+
+  return (
+    <div class="space-y-2">
+      <h3 class="text-lg font-bold text-corvu-text border-b border-corvu-300 pb-1">Transpose</h3>
+      <div class="flex items-center gap-2">
+        <button
+          onClick={() => setTranspose(settings.transpose - 1)}
+          disabled={settings.transpose <= -MAX_TRANSPOSE}
+          class={BUTTON_CLASS}
+          aria-label="Down a semitone"
+        >
+          −
+        </button>
+        <span class="min-w-[7rem] text-center text-sm text-corvu-text">
+          {formatShift(settings.transpose)}
+        </span>
+        <button
+          onClick={() => setTranspose(settings.transpose + 1)}
+          disabled={settings.transpose >= MAX_TRANSPOSE}
+          class={BUTTON_CLASS}
+          aria-label="Up a semitone"
+        >
+          +
+        </button>
+        <select
+          value={shownKey().fifths}
+          onChange={(e) => pickKey(Number(e.currentTarget.value))}
+          class="flex-1 rounded-lg border border-corvu-300 bg-white px-2 py-1 text-sm focus:border-corvu-400 focus:outline-none"
+          aria-label="Key"
+        >
+          <For each={keys()}>{(key) => <option value={key.fifths}>{getKeyName(key)}</option>}</For>
+        </select>
+      </div>
+      <label class="flex items-center justify-between cursor-pointer">
+        <span class="text-sm text-corvu-text">Fit to the piano's octaves</span>
+        <input
+          type="checkbox"
+          checked={settings.fitToPiano}
+          onChange={(e) => setSettings('fitToPiano', e.currentTarget.checked)}
+          class="w-5 h-5 rounded border-corvu-300 text-corvu-400 focus:ring-corvu-400"
+        />
+      </label>
+      <p class="text-xs text-gray-500">
+        Every song plays, shows and exports in the key picked here. Fitting moves it by whole
+        octaves onto the keys the piano shows.
+      </p>
+    </div>
+  );
+};
+
+export default SongTransposeSection;
@@ -5,9 +5,11 @@ import { playNote, stopNote } from '@lib/audio/audioEngine';
 import { toggle } from '@lib/audio/playback/router';
 import { checkNoteMatchAnyOctave } from '@lib/audio/noteMatcher';
 import { userInputTracker } from '@lib/audio/userInputTracker';
+import { enterStepNote, isRecorderOpen, isStepEntryOpen } from '@lib/editorStore';
 import { playback } from '@lib/playbackStore';
 import { setSettings, settings } from '@lib/store';
-import { getNoteColor, getNoteContrastColor } from '@lib/utils/musicUtils';
+import { getEventPitches } from '@lib/utils/melodyUtils';
+import { getNoteColor, getNoteContrastColor, normalizeNoteName } from '@lib/utils/musicUtils';
 
 // Helper to generate keys dynamically
 const generateKeys = (startOctave: number, count: number) => {
@@ -81,22 +83,23 @@ const Piano: Component = () => {
   // Computed Keys based on settings
   const keys = () => generateKeys(settings.baseOctave, settings.octaveCount);
 
-  // Currently playing note from playback (for highlighting)
-  const playbackNote = createMemo(() => {
+  // Currently playing note or chord from playback (for highlighting)
+  const playbackNotes = createMemo(() => {
     const { melody, currentNoteIndex, isPlaying } = playback;
     if (!isPlaying || currentNoteIndex < 0 || currentNoteIndex >= melody.length) {
-      return null;
+      return [];
     }
-    return melody[currentNoteIndex].note;
+    // Keys use sharp names, so respell flats before comparing
+    return getEventPitches(melody[currentNoteIndex]).map(normalizeNoteName);
   });
 
-  // Next note to play (for wait-for-user mode hint)
-  const nextNoteToPlay = createMemo(() => playback.nextNoteToPlay);
+  // Next note or chord to play (for wait-for-user mode hint)
+  const nextNotesToPlay = createMemo(() => playback.nextNotesToPlay.map(normalizeNoteName));
   const shouldShowNextNoteHint = createMemo(
     () =>
       settings.playbackMode === 'waitForUser' &&
       settings.showNextNoteHint &&
-      nextNoteToPlay() !== null,
+      nextNotesToPlay().length > 0,
   );
 
   // Dynamic Map
@@ -187,8 +190,16 @@ const Piano: Component = () => {
     playNote(note);
     userInputTracker.recordPress(note);
 
-    // In wait-for-user mode, if not playing, automatically start playback on first key press
-    if (settings.playbackMode === 'waitForUser' && !playback.isPlaying) {
+    if (isStepEntryOpen()) {
+      // Step entry writes the key into the melody; keys held together make a chord
+      enterStepNote(note, activeKeys().size > 0);
+    } else if (
+      settings.playbackMode === 'waitForUser' &&
+      !playback.isPlaying &&
+      !isRecorderOpen()
+    ) {
+      // In wait-for-user mode, if not playing, automatically start playback on first key press
+      // (the recorder keeps the piano to itself)
       // Start playback - the melody should already be set by the chart component
       toggle();
     }
@@ -211,13 +222,17 @@ const Piano: Component = () => {
     if (e.repeat) {
       return;
     }
+    // Typing in a field (e.g. the title of a melody being entered) is not playing
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+      return;
+    }
 
-    // Arrow Keys for Octave Shift
-    if (e.key === 'ArrowRight') {
+    // Arrow Keys for Octave Shift (step entry moves its cursor with them)
+    if (e.key === 'ArrowRight' && !isStepEntryOpen()) {
       setSettings('baseOctave', Math.min(settings.baseOctave + 1, 7));
       return;
     }
-    if (e.key === 'ArrowLeft') {
+    if (e.key === 'ArrowLeft' && !isStepEntryOpen()) {
       setSettings('baseOctave', Math.max(settings.baseOctave - 1, 1));
       return;
     }
@@ -288,11 +303,10 @@ const Piano: Component = () => {
                   : undefined;
 
               const isActive = () => activeKeys().has(note);
-              const isPlaybackHighlight = () => playbackNote() === note;
+              const isPlaybackHighlight = () => playbackNotes().includes(note);
               const isNextNoteHint = () =>
                 shouldShowNextNoteHint() &&
-                nextNoteToPlay() !== null &&
-                checkNoteMatchAnyOctave(nextNoteToPlay()!, note);
+                nextNotesToPlay().some((nextNote) => checkNoteMatchAnyOctave(nextNote, note));
               const contrastColor = () =>
                 settings.showKeyColors
                   ? getNoteContrastColor(note, settings.contrastColors)
@@ -394,9 +408,9 @@ const Piano: Component = () => {
                   ? getNoteColor(item.note, settings.noteColors)
                   : undefined;
               const isActive = () => activeKeys().has(item.note);
-              const isPlaybackHighlight = () => playbackNote() === item.note;
+              const isPlaybackHighlight = () => playbackNotes().includes(item.note);
               const isNextNoteHint = () =>
-                shouldShowNextNoteHint() && nextNoteToPlay() === item.note;
+                shouldShowNextNoteHint() && nextNotesToPlay().includes(item.note);
               const contrastColor = () =>
                 settings.showKeyColors
                   ? getNoteContrastColor(item.note, settings.contrastColors)
@@ -0,0 +1,323 @@
+import { For, Show, createEffect, createSignal, onCleanup, type Component } from 'solid-js';
+
+import { startRecording, stopRecording } from '@lib/audio/recorder';
+import type { Melody } from '@lib/components/Chart';
+import {
+  closeEditor,
+  editor,
+  saveDraftMelody,
+  setQuantizeOptions,
+  setTake,
+} from '@lib/editorStore';
+import { playback } from '@lib/playbackStore';
+import { getCurrentSong } from '@lib/songs/library';
+import { getEventPitches } from '@lib/utils/melodyUtils';
+import { noteNameToMidi } from '@lib/utils/musicUtils';
+import type { Take } from '@lib/utils/quantizeUtils';
+import { getEventStartBeats, getMeasureDuration } from '@lib/utils/rhythmUtils';
+import { DEFAULT_TEMPO } from '@lib/utils/tempoUtils';
+
+import Piano from './Piano';
+
+const METERS: [number, number][] = [
+  [4, 4],
+  [3, 4],
+  [2, 4],
+  [6, 8],
+];
+
+const GRIDS = [
+  { beats: 1, label: '1/4' },
+  { beats: 0.5, label: '1/8' },
+  { beats: 1 / 3, label: '1/8 triplet' },
+  { beats: 0.25, label: '1/16' },
+];
+
+const MIN_LENGTHS = [
+  { beats: 0, label: 'Keep all' },
+  { beats: 0.125, label: '1/32' },
+  { beats: 0.25, label: '1/16' },
+  { beats: 0.5, label: '1/8' },
+];
+
+const BUTTON_CLASS =
+  'rounded-lg border border-corvu-300 bg-white px-2.5 py-1 text-sm hover:bg-corvu-50 disabled:opacity-50';
+const SELECT_CLASS =
+  'rounded-lg border border-corvu-300 bg-white px-2 py-1 text-sm focus:border-corvu-400 focus:outline-none';
+
+// Timing preview scale
+const BEAT_WIDTH = 48;
+const LANE_HEIGHT = 6;
+
+type RecorderState = 'idle' | 'countIn' | 'recording';
+
+/**
+ * Record mode: play freely along with the metronome, then quantize the take into a melody.
+ * The chart previews the quantized melody; the strip below compares it with the timing played.
+ */
+const Recorder: Component = () => {
+  const song = getCurrentSong();
+  const [tempo, setTempo] = createSignal(song.melody.tempo ?? DEFAULT_TEMPO);
+  const [ratio, setRatio] = createSignal(
+    METERS.find((meter) => meter.join('/') === song.melody.ratio.join('/')) ?? METERS[0],
+  );
+  const [state, setState] = createSignal<RecorderState>('idle');
+  const [title, setTitle] = createSignal('My Recording');
+  const [savedTitle, setSavedTitle] = createSignal<string | null>(null);
+  let countInTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const handleRecord = () => {
+    const startTime = startRecording(tempo(), ratio());
+    setState('countIn');
+    setSavedTitle(null);
+    countInTimer = setTimeout(() => setState('recording'), startTime - Date.now());
+  };
+
+  const handleStop = () => {
+    clearTimeout(countInTimer);
+    const take = stopRecording();
+    setState('idle');
+    if (take && take.notes.length > 0) {
+      setTake(take);
+    }
+  };
+
+  // Playback takes over the piano (and clears what it recorded), so it ends the take
+  createEffect(() => {
+    if (playback.isPlaying && state() !== 'idle') {
+      handleStop();
+    }
+  });
+
+  onCleanup(() => {
+    if (state() !== 'idle') {
+      handleStop();
+    }
+  });
+
+  const handleSave = () => {
+    const saved = saveDraftMelody(title());
+    if (saved) {
+      setSavedTitle(saved.title);
+    }
+  };
+
+  return (
+    <div class="w-full flex-1 min-h-0 flex flex-col gap-2">
+      <div class="w-full shrink-0 flex flex-col gap-2 rounded-xl bg-white/80 p-2 shadow-2xl border border-corvu-200">
+        <div class="flex flex-wrap items-center gap-2">
+          <h2 class="text-lg font-bold text-corvu-text">Record</h2>
+
+          <label class="flex items-center gap-1 text-sm text-gray-700">
+            Tempo
+            <input
+              type="number"
+              min="30"
+              max="240"
+              value={tempo()}
+              onChange={(e) => setTempo(Math.max(30, Math.min(240, Number(e.currentTarget.value))))}
+              disabled={state() !== 'idle'}
+              class="w-16 rounded-lg border border-corvu-300 bg-white px-2 py-1 text-sm focus:border-corvu-400 focus:outline-none"
+            />
+          </label>
+          <select
+            value={ratio().join('/')}
+            onChange={(e) => setRatio(METERS[e.currentTarget.selectedIndex])}
+            disabled={state() !== 'idle'}
+            class={SELECT_CLASS}
+            aria-label="Meter"
+          >
+            <For each={METERS}>{(meter) => <option>{meter.join('/')}</option>}</For>
+          </select>
+
+          <Show
+            when={state() !== 'idle'}
+            fallback={
+              <button
+                onClick={handleRecord}
+                class="rounded-lg bg-red-500 px-3 py-1 text-sm text-white hover:bg-red-400"
+              >
+                ● Record
+              </button>
+            }
+          >
+            <button onClick={handleStop} class={BUTTON_CLASS}>
+              ■ Stop
+            </button>
+            <span class="text-xs text-gray-600">
+              {state() === 'countIn' ? 'Count-in…' : 'Recording'}
+            </span>
+          </Show>
+
+          <div class="ml-auto flex items-center gap-2">
+            <input
+              value={title()}
+              onInput={(e) => {
+                setTitle(e.currentTarget.value);
+                setSavedTitle(null);
+              }}
+              class="w-40 rounded-lg border border-corvu-300 bg-white px-2 py-1 text-sm focus:border-corvu-400 focus:outline-none"
+              aria-label="Song title"
+              placeholder="Title"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!editor.draftMelody || state() !== 'idle'}
+              class="rounded-lg bg-corvu-400 px-3 py-1 text-sm text-white hover:bg-corvu-300 disabled:opacity-50"
+            >
+              Save to My Songs
+            </button>
+            <button onClick={closeEditor} class={BUTTON_CLASS} aria-label="Close recorder">
+              ×
+            </button>
+          </div>
+        </div>
+
+        <Show when={editor.take}>
+          {(take) => (
+            <>
+              <div class="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                <label class="flex items-center gap-1">
+                  Grid
+                  <select
+                    value={editor.quantize.grid}
+                    onChange={(e) =>
+                      setQuantizeOptions({ grid: GRIDS[e.currentTarget.selectedIndex].beats })
+                    }
+                    class={SELECT_CLASS}
+                  >
+                    <For each={GRIDS}>
+                      {(grid) => <option value={grid.beats}>{grid.label}</option>}
+                    </For>
+                  </select>
+                </label>
+                <label class="flex items-center gap-1">
+                  Swing
+                  <input
+                    type="range"
+                    min="50"
+                    max="75"
+                    value={Math.round(editor.quantize.swing * 100)}
+                    onInput={(e) =>
+                      setQuantizeOptions({ swing: Number(e.currentTarget.value) / 100 })
+                    }
+                  />
+                  <span class="w-9 font-mono text-xs">
+                    {Math.round(editor.quantize.swing * 100)}%
+                  </span>
+                </label>
+                <label class="flex items-center gap-1">
+                  Ignore notes shorter than
+                  <select
+                    value={editor.quantize.minLength}
+                    onChange={(e) =>
+                      setQuantizeOptions({
+                        minLength: MIN_LENGTHS[e.currentTarget.selectedIndex].beats,
+                      })
+                    }
+                    class={SELECT_CLASS}
+                  >
+                    <For each={MIN_LENGTHS}>
+                      {(length) => <option value={length.beats}>{length.label}</option>}
+                    </For>
+                  </select>
+                </label>
+              </div>
+              <Show when={editor.draftMelody}>
+                {(melody) => <TimingPreview take={take()} melody={melody()} />}
+              </Show>
+            </>
+          )}
+        </Show>
+
+        <Show when={savedTitle()}>
+          <div class="w-full rounded-lg border border-green-300 bg-green-50 px-3 py-1 text-xs text-green-800">
+            Saved “{savedTitle()}” to My Songs.
+          </div>
+        </Show>
+      </div>
+
+      <Piano />
+    </div>
+  );
+};
+
+export default Recorder;
+
+interface TimingPreviewProps {
+  take: Take;
+  melody: Melody;
+}
+
+/**
+ * The take as played (outlined) over the quantized notes (filled), one lane per key
+ */
+const TimingPreview = (props: TimingPreviewProps) => {
+  const quantized = () => {
+    const beats = getEventStartBeats(props.melody.notes);
+    return props.melody.notes.flatMap((event, i) =>
+      getEventPitches(event).map((pitch) => ({
+        midi: noteNameToMidi(pitch) ?? 0,
+        start: beats[i],
+        end: beats[i + 1],
+      })),
+    );
+  };
+  const played = () =>
+    props.take.notes.map((note) => ({ ...note, midi: noteNameToMidi(note.note) ?? 0 }));
+
+  const midis = () => [...played(), ...quantized()].map(({ midi }) => midi);
+  const top = () => Math.max(...midis());
+  const lanes = () => top() - Math.min(...midis()) + 1;
+  const length = () =>
+    Math.max(getEventStartBeats(props.melody.notes).pop() ?? 0, ...played().map(({ end }) => end));
+  const measure = () => getMeasureDuration(props.take.ratio);
+
+  const x = (beat: number) => Math.max(0, beat) * BEAT_WIDTH;
+  const y = (midi: number) => (top() - midi) * LANE_HEIGHT;
+
+  return (
+    <div class="w-full overflow-x-auto rounded-lg border border-corvu-200 bg-white">
+      <svg
+        width={x(length()) + 1}
+        height={lanes() * LANE_HEIGHT}
+        role="img"
+        aria-label="Played and quantized timing"
+      >
+        <For each={Array.from({ length: Math.floor(length() / measure()) + 1 }, (_, i) => i)}>
+          {(i) => (
+            <line
+              x1={x(i * measure())}
+              x2={x(i * measure())}
+              y1={0}
+              y2={lanes() * LANE_HEIGHT}
+              class="stroke-gray-300"
+            />
+          )}
+        </For>
+        <For each={quantized()}>
+          {(note) => (
+            <rect
+              x={x(note.start)}
+              y={y(note.midi)}
+              width={x(note.end) - x(note.start)}
+              height={LANE_HEIGHT}
+              class="fill-corvu-300"
+            />
+          )}
+        </For>
+        <For each={played()}>
+          {(note) => (
+            <rect
+              x={x(note.start)}
+              y={y(note.midi)}
+              width={Math.max(1, x(note.end) - x(note.start))}
+              height={LANE_HEIGHT}
+              class="fill-none stroke-red-500"
+            />
+          )}
+        </For>
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import {
+  For,
+  Show,
+  createEffect,
+  createSignal,
+  on,
+  onCleanup,
+  onMount,
+  type Component,
+} from 'solid-js';
+
+import {
+  clearStepMelody,
+  closeEditor,
+  deleteStepEvent,
+  editor,
+  enterStepRest,
+  saveDraftMelody,
+  setEditor,
+  setStepCursor,
+  setStepValue,
+} from '@lib/editorStore';
+import { playback, setPlayback } from '@lib/playbackStore';
+import { getCurrentSong } from '@lib/songs/library';
+import type { NoteValueType } from '@lib/utils/rhythmUtils';
+
+import Piano from './Piano';
+
+// Values offered for entry, longest first, with their symbols
+const STEP_VALUES: { type: NoteValueType; label: string; name: string }[] = [
+  { type: 'whole', label: '𝅝', name: 'Whole' },
+  { type: 'half', label: '𝅗𝅥', name: 'Half' },
+  { type: 'quarter', label: '♩', name: 'Quarter' },
+  { type: 'eighth', label: '♪', name: 'Eighth' },
+  { type: '16th', label: '𝅘𝅥𝅯', name: 'Sixteenth' },
+];
+
+const BUTTON_CLASS =
+  'rounded-lg border border-corvu-300 bg-white px-2.5 py-1 text-sm hover:bg-corvu-50 disabled:opacity-50';
+const ACTIVE_BUTTON_CLASS = 'rounded-lg bg-corvu-400 px-2.5 py-1 text-sm text-white';
+
+/**
+ * Step entry: keys played on the piano are written into the melody at the cursor, at the value
+ * picked here. The chart previews the melody, its playhead marking the cursor.
+ */
+const StepEditor: Component = () => {
+  const [title, setTitle] = createSignal(getCurrentSong().title);
+  const [savedTitle, setSavedTitle] = createSignal<string | null>(null);
+
+  const noteCount = () => editor.draftMelody?.notes.length ?? 0;
+
+  const pickValue = (type: NoteValueType) => setStepValue({ ...editor.stepValue, type });
+  const toggleDot = () =>
+    setStepValue({ ...editor.stepValue, dots: editor.stepValue.dots > 0 ? 0 : 1 });
+  const shiftValue = (offset: number) => {
+    const index = STEP_VALUES.findIndex(({ type }) => type === editor.stepValue.type);
+    const next = STEP_VALUES[Math.max(0, Math.min(STEP_VALUES.length - 1, index + offset))];
+    pickValue(next.type);
+  };
+
+  // Show the cursor with the playhead: the event being replaced is lit, or, when inserting,
+  // the chart stops just before the event the new one goes in front of. Loading the edited
+  // melody rewinds playback, so this runs again once it has.
+  createEffect(
+    on(
+      () => [editor.cursor, editor.insert, editor.draftMelody, playback.melody],
+      () => {
+        if (playback.isPlaying) {
+          return;
+        }
+        const isOnEvent = !editor.insert && editor.cursor < noteCount();
+        setPlayback('currentNoteIndex', isOnEvent ? editor.cursor : -1);
+        setPlayback('lastCompletedNoteIndex', editor.cursor - 1);
+      },
+    ),
+  );
+
+  // Seeking in the chart, or pausing, moves the cursor to that event
+  createEffect(
+    on(
+      () => playback.currentNoteIndex,
+      (index) => {
+        if (index >= 0 && !playback.isPlaying && index !== editor.cursor) {
+          setStepCursor(index);
+        }
+      },
+    ),
+  );
+
+  onMount(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+      const actions: Record<string, () => void> = {
+        ArrowLeft: () => setStepCursor(editor.cursor - 1),
+        ArrowRight: () => setStepCursor(editor.cursor + 1),
+        Home: () => setStepCursor(0),
+        End: () => setStepCursor(noteCount()),
+        Backspace: () => deleteStepEvent('backward'),
+        Delete: () => deleteStepEvent('forward'),
+        Insert: () => setEditor('insert', !editor.insert),
+        '0': enterStepRest,
+        '[': () => shiftValue(1),
+        ']': () => shiftValue(-1),
+      };
+      const action = actions[e.key];
+      if (action) {
+        e.preventDefault();
+        action();
+        setSavedTitle(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    onCleanup(() => window.removeEventListener('keydown', handleKeyDown));
+  });
+
+  const handleSave = () => {
+    const song = saveDraftMelody(title());
+    if (song) {
+      setSavedTitle(song.title);
+    }
+  };
+
+  return (
+    <div class="w-full flex-1 min-h-0 flex flex-col gap-2">
+      <div class="w-full shrink-0 flex flex-wrap items-center gap-2 rounded-xl bg-white/80 p-2 shadow-2xl border border-corvu-200">
+        <h2 class="text-lg font-bold text-corvu-text">Step Entry</h2>
+
+        {/* Value of the next note or rest: [ and ] step through them */}
+        <div class="flex gap-1" role="group" aria-label="Note value">
+          <For each={STEP_VALUES}>
+            {(value) => (
+              <button
+                onClick={() => pickValue(value.type)}
+                class={editor.stepValue.type === value.type ? ACTIVE_BUTTON_CLASS : BUTTON_CLASS}
+                aria-pressed={editor.stepValue.type === value.type}
+                aria-label={value.name}
+                title={value.name}
+              >
+                {value.label}
+              </button>
+            )}
+          </For>
+          <button
+            onClick={toggleDot}
+            class={editor.stepValue.dots > 0 ? ACTIVE_BUTTON_CLASS : BUTTON_CLASS}
+            aria-pressed={editor.stepValue.dots > 0}
+            title="Dotted"
+          >
+            ·
+          </button>
+        </div>
+
+        <button onClick={enterStepRest} class={BUTTON_CLASS} title="Enter a rest (0)">
+          Rest
+        </button>
+        <button
+          onClick={() => setEditor('insert', !editor.insert)}
+          class={editor.insert ? ACTIVE_BUTTON_CLASS : BUTTON_CLASS}
+          aria-pressed={editor.insert}
+          title="Insert before the cursor instead of replacing (Insert)"
+        >
+          Insert
+        </button>
+
+        {/* Cursor: the arrow keys move it, Backspace and Delete remove around it */}
+        <div class="flex items-center gap-1">
+          <button
+            onClick={() => setStepCursor(editor.cursor - 1)}
+            disabled={editor.cursor <= 0}
+            class={BUTTON_CLASS}
+            aria-label="Previous note"
+          >
+            ◀
+          </button>
+          <span class="min-w-[4.5rem] text-center font-mono text-xs text-gray-600">
+            {editor.cursor < noteCount() ? `${editor.cursor + 1} / ${noteCount()}` : 'end'}
+          </span>
+          <button
+            onClick={() => setStepCursor(editor.cursor + 1)}
+            disabled={editor.cursor >= noteCount()}
+            class={BUTTON_CLASS}
+            aria-label="Next note"
+          >
+            ▶
+          </button>
+          <button
+            onClick={() => deleteStepEvent('backward')}
+            disabled={editor.cursor <= 0}
+            class={BUTTON_CLASS}
+            aria-label="Delete the note before the cursor"
+            title="Delete the note before the cursor (Backspace)"
+          >
+            ⌫
+          </button>
+        </div>
+
+        <div class="ml-auto flex items-center gap-2">
+          <button onClick={clearStepMelody} class={BUTTON_CLASS} title="Start an empty melody">
+            New
+          </button>
+          <input
+            value={title()}
+            onInput={(e) => {
+              setTitle(e.currentTarget.value);
+              setSavedTitle(null);
+            }}
+            class="w-40 rounded-lg border border-corvu-300 bg-white px-2 py-1 text-sm focus:border-corvu-400 focus:outline-none"
+            aria-label="Song title"
+            placeholder="Title"
+          />
+          <button
+            onClick={handleSave}
+            disabled={noteCount() === 0}
+            class="rounded-lg bg-corvu-400 px-3 py-1 text-sm text-white hover:bg-corvu-300 disabled:opacity-50"
+          >
+            Save to My Songs
+          </button>
+          <button onClick={closeEditor} class={BUTTON_CLASS} aria-label="Close step entry">
+            ×
+          </button>
+        </div>
+
+        <Show when={savedTitle()}>
+          <div class="w-full rounded-lg border border-green-300 bg-green-50 px-3 py-1 text-xs text-green-800">
+            Saved “{savedTitle()}” to My Songs.
+          </div>
+        </Show>
+      </div>
+
+      <Piano />
+    </div>
+  );
+};
+
+export default StepEditor;
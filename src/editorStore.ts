@@ -0,0 +1,213 @@
+import { createStore } from 'solid-js/store';
+
+import type { Melody, MelodyEvent } from './components/Chart';
+import { addCustomSong, getCurrentSong } from './songs/library';
+import { settings } from './store';
+import { spellMidi } from './utils/keyUtils';
+import {
+  createPitchedEvent,
+  getEventPitches,
+  getExpression,
+  getRhythmNotation,
+  isRest,
+} from './utils/melodyUtils';
+import { noteNameToMidi } from './utils/musicUtils';
+import {
+  DEFAULT_QUANTIZE_OPTIONS,
+  quantizeTake,
+  type QuantizeOptions,
+  type Take,
+} from './utils/quantizeUtils';
+import { unfoldMelody } from './utils/repeatUtils';
+import { getDottedBeats, type NoteValue } from './utils/rhythmUtils';
+import { getOctaveShiftToFit, getTransposedKey, transposeMelody } from './utils/transposeUtils';
+
+export type EditorMode = 'abc' | 'step' | 'record';
+
+export interface EditorState {
+  isOpen: boolean;
+  mode: EditorMode; // ABC text, step entry from the piano, or a recorded performance
+  draftMelody: Melody | null; // Last valid melody typed in the editor; previewed instead of the song
+  cursor: number; // Step entry: index of the event being edited, the event count to append
+  stepValue: NoteValue; // Step entry: written value of the notes and rests entered
+  insert: boolean; // Step entry: enter before the cursor instead of replacing the event there
+  take: Take | null; // Recording: the last performance, as played
+  quantize: QuantizeOptions; // Recording: how the take is written down as the draft
+}
+
+const DEFAULT_EDITOR_STATE: EditorState = {
+  isOpen: false,
+  mode: 'abc',
+  draftMelody: null,
+  cursor: 0,
+  stepValue: { type: 'quarter', dots: 0 },
+  insert: false,
+  take: null,
+  quantize: DEFAULT_QUANTIZE_OPTIONS,
+};
+
+export const [editor, setEditor] = createStore<EditorState>(DEFAULT_EDITOR_STATE);
+
+/**
+ * The current song as practiced: shifted by the transposition setting, then by whole octaves
+ * onto the keys of the piano when asked
+ */
+export const getSongMelody = (): Melody => {
+  const { melody: written } = getCurrentSong();
+  // The key menu may have picked another spelling of the key the shift leads to
+  const key = getTransposedKey(written.key, settings.transpose, settings.transposeKey);
+  const melody = transposeMelody(written, settings.transpose, key);
+  if (!settings.fitToPiano) {
+    return melody;
+  }
+  const octaves = getOctaveShiftToFit(melody, settings.baseOctave, settings.octaveCount);
+  return transposeMelody(melody, octaves * 12);
+};
+
+/**
+ * The melody shown in the chart and played back: the editor draft if any, else the current song
+ */
+export const getActiveMelody = (): Melody => editor.draftMelody ?? getSongMelody();
+
+export const closeEditor = () => setEditor({ isOpen: false, draftMelody: null });
+
+export const isStepEntryOpen = () => editor.isOpen && editor.mode === 'step';
+
+export const isRecorderOpen = () => editor.isOpen && editor.mode === 'record';
+
+/**
+ * Open an editor on the current song. Step entry edits it as it is played, transposed and with
+ * repeats written out; the ABC editor sets its own draft from the text, and the recorder from its take.
+ */
+export const openEditor = (mode: EditorMode) => {
+  if (mode === 'step') {
+    const melody = unfoldMelody(getSongMelody());
+    setEditor({ isOpen: true, mode, draftMelody: melody, cursor: melody.notes.length });
+  } else {
+    setEditor({ isOpen: true, mode, draftMelody: null, take: null });
+  }
+};
+
+/**
+ * Start step entry from an empty melody in the meter and key of the current song
+ */
+export const clearStepMelody = () => {
+  const { ratio, key } = getCurrentSong().melody;
+  setEditor({ draftMelody: { ratio, ...(key ? { key } : {}), notes: [] }, cursor: 0 });
+};
+
+const editStepNotes = (edit: (notes: MelodyEvent[], cursor: number) => number) => {
+  const melody = editor.draftMelody;
+  if (!melody) {
+    return;
+  }
+  const notes = [...melody.notes];
+  const cursor = edit(notes, Math.min(editor.cursor, notes.length));
+  setEditor({ draftMelody: { ...melody, notes }, cursor });
+};
+
+const getStepDuration = () => getDottedBeats(editor.stepValue.type, editor.stepValue.dots);
+
+const enterStepEvent = (event: MelodyEvent) => {
+  const replace = !editor.insert;
+  editStepNotes((notes, cursor) => {
+    notes.splice(cursor, replace && cursor < notes.length ? 1 : 0, event);
+    return cursor + 1;
+  });
+};
+
+/**
+ * Enter a key pressed on the piano at the cursor, spelled in the key of the melody. A key pressed
+ * while others are held joins the event entered last, making a chord.
+ */
+export const enterStepNote = (note: string, addToChord: boolean) => {
+  const midi = noteNameToMidi(note);
+  if (midi === null) {
+    return;
+  }
+  const pitch = spellMidi(midi, editor.draftMelody?.key);
+
+  const previous = editor.draftMelody?.notes[editor.cursor - 1];
+  if (addToChord && previous && !isRest(previous)) {
+    const chord = createPitchedEvent([...getEventPitches(previous), pitch], previous.duration, {
+      ...getRhythmNotation(previous),
+      ...getExpression(previous),
+    });
+    editStepNotes((notes, cursor) => {
+      notes[cursor - 1] = chord;
+      return cursor;
+    });
+    return;
+  }
+  enterStepEvent(createPitchedEvent([pitch], getStepDuration()));
+};
+
+export const enterStepRest = () => enterStepEvent({ rest: true, duration: getStepDuration() });
+
+/**
+ * Remove the event before the cursor (backspace) or at it (delete)
+ */
+export const deleteStepEvent = (direction: 'backward' | 'forward') =>
+  editStepNotes((notes, cursor) => {
+    const index = direction === 'backward' ? cursor - 1 : cursor;
+    if (index < 0 || index >= notes.length) {
+      return cursor;
+    }
+    notes.splice(index, 1);
+    return index;
+  });
+
+export const setStepCursor = (cursor: number) =>
+  setEditor('cursor', Math.max(0, Math.min(cursor, editor.draftMelody?.notes.length ?? 0)));
+
+/**
+ * Pick the value of the notes entered next; the event at the cursor takes it too,
+ * unless the cursor sits between events to insert
+ */
+export const setStepValue = (value: NoteValue) => {
+  setEditor('stepValue', value);
+  const event = editor.draftMelody?.notes[editor.cursor];
+  if (!event || editor.insert) {
+    return;
+  }
+  // The written value now follows from the new duration
+  const { dots: _dots, tuplet: _tuplet, ...rest } = event;
+  const resized = { ...rest, duration: getStepDuration() };
+  editStepNotes((notes, cursor) => {
+    notes[cursor] = resized;
+    return cursor;
+  });
+};
+
+/**
+ * Keep a recorded take and preview it, quantized, as the draft
+ */
+export const setTake = (take: Take) =>
+  setEditor({ take, draftMelody: quantizeTake(take, editor.quantize) });
+
+/**
+ * Change how the take is quantized and write it down again
+ */
+export const setQuantizeOptions = (options: Partial<QuantizeOptions>) => {
+  setEditor('quantize', options);
+  const take = editor.take;
+  if (take) {
+    setEditor('draftMelody', quantizeTake(take, editor.quantize));
+  }
+};
+
+/**
+ * Save the melody being edited as a new song, which becomes the current one
+ */
+export const saveDraftMelody = (title: string) => {
+  const melody = editor.draftMelody;
+  if (!melody || melody.notes.length === 0) {
+    return null;
+  }
+  return addCustomSong({
+    title: title.trim() || 'Untitled',
+    composer: 'Unknown',
+    difficulty: 'beginner',
+    melody,
+  });
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Melody } from '@lib/components/Chart';
+
+import { melodyToAbc, parseAbc } from './abc';
+
+const melody: Melody = {
+  ratio: [4, 4],
+  trackName: 'Right hand',
+  notes: [
+    { note: 'C5', duration: 2 },
+    { note: 'G5', duration: 2 },
+    { note: 'A5', duration: 4 },
+  ],
+  tracks: [
+    {
+      id: 'lh',
+      name: 'Left hand',
+      clef: 'bass',
+      notes: [{ notes: ['C3', 'G3'], duration: 4 }],
+    },
+  ],
+};
+
+describe('melodyToAbc', () => {
+  it('writes each track as an ABC voice, and reads the first voice back', () => {
+    const abc = melodyToAbc(melody, { title: 'Twinkle' });
+
+    expect(abc).toContain('V:1 name="Right hand"\nV:2 name="Left hand" clef=bass\nK:C');
+    const [tune] = parseAbc(abc);
+    expect(tune.errors).toEqual([]);
+    expect(tune.melody.notes).toEqual(melody.notes);
+    expect(tune.warnings).toContain(
+      'Only the first voice is imported; the other 1 voice(s) are left out.',
+    );
+  });
+});
@@ -0,0 +1,1362 @@
+import type {
+  DynamicLevel,
+  DynamicsNotation,
+  HairpinMark,
+  KeySignature,
+  Lyric,
+  Melody,
+  MelodyEvent,
+  MelodyTrack,
+  MeterChange,
+  RepeatSection,
+  TempoChange,
+  TupletMark,
+  Volta,
+} from '@lib/components/Chart';
+import { getHairpinSpans } from '@lib/utils/dynamicsUtils';
+import { getKeyAlters, getKeyTonic } from '@lib/utils/keyUtils';
+import { getLyricSpans } from '@lib/utils/lyricsUtils';
+import {
+  createPitchedEvent,
+  getEventPitches,
+  isRest,
+  isTiedFromPrevious,
+} from '@lib/utils/melodyUtils';
+import { formatNoteName, parseNoteName } from '@lib/utils/musicUtils';
+import { getMeasureDuration, getMeasures } from '@lib/utils/rhythmUtils';
+import type { Measure } from '@lib/utils/rhythmUtils';
+import { DEFAULT_TEMPO } from '@lib/utils/tempoUtils';
+
+/**
+ * Thrown when an ABC file cannot be imported
+ */
+export class AbcImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AbcImportError';
+  }
+}
+
+export interface AbcSyntaxError {
+  message: string;
+  line: number; // 1-based, relative to the whole text
+  column: number; // 1-based
+}
+
+export interface AbcTune {
+  index: number; // X: reference number
+  title: string;
+  composer: string;
+  melody: Melody;
+  warnings: string[];
+  errors: AbcSyntaxError[];
+}
+
+interface AbcMetadata {
+  title: string;
+  composer?: string;
+  index?: number;
+}
+
+// Intermediate element list; ties are resolved once the whole tune is read
+type AbcElement = (
+  | {
+      kind: 'note';
+      pitches: string[]; // several pitches for a chord
+      duration: number;
+      tie: boolean;
+      tuplet?: TupletMark;
+      lyric?: Lyric; // from the w: line under the music
+    }
+  | { kind: 'rest'; duration: number; tuplet?: TupletMark }
+) &
+  DynamicsNotation;
+
+const ACCIDENTAL_ALTERS: Record<string, number> = { '^^': 2, '^': 1, '=': 0, _: -1, __: -2 };
+
+// Position of each major key on the circle of fifths
+const MAJOR_KEY_FIFTHS: Record<string, number> = {
+  Cb: -7,
+  Gb: -6,
+  Db: -5,
+  Ab: -4,
+  Eb: -3,
+  Bb: -2,
+  F: -1,
+  C: 0,
+  G: 1,
+  D: 2,
+  A: 3,
+  E: 4,
+  B: 5,
+  'F#': 6,
+  'C#': 7,
+};
+
+// Offset from the major key with the same tonic, keyed by the first three letters of the mode
+const MODE_FIFTHS: Record<string, number> = {
+  maj: 0,
+  ion: 0,
+  mix: -1,
+  dor: -2,
+  min: -3,
+  aeo: -3,
+  phr: -4,
+  loc: -5,
+  lyd: 1,
+};
+
+const ACCIDENTAL_MARKS: Record<number, string> = { 2: '^^', 1: '^', 0: '=', [-1]: '_', [-2]: '__' };
+
+// Decorations read as dynamics; markings beyond pp and ff are read as the nearest one
+const DYNAMIC_DECORATIONS: Record<string, DynamicLevel> = {
+  pppp: 'pp',
+  ppp: 'pp',
+  pp: 'pp',
+  p: 'p',
+  mp: 'mp',
+  mf: 'mf',
+  f: 'f',
+  ff: 'ff',
+  fff: 'ff',
+  ffff: 'ff',
+};
+
+// Hairpin decorations; "(" goes before the first note under the hairpin, ")" before the last
+const HAIRPIN_DECORATIONS: Record<string, { type: HairpinMark['type']; start: boolean }> = {
+  'crescendo(': { type: 'crescendo', start: true },
+  'crescendo)': { type: 'crescendo', start: false },
+  '<(': { type: 'crescendo', start: true },
+  '<)': { type: 'crescendo', start: false },
+  'diminuendo(': { type: 'decrescendo', start: true },
+  'diminuendo)': { type: 'decrescendo', start: false },
+  'decrescendo(': { type: 'decrescendo', start: true },
+  'decrescendo)': { type: 'decrescendo', start: false },
+  '>(': { type: 'decrescendo', start: true },
+  '>)': { type: 'decrescendo', start: false },
+};
+
+// Segno, coda, Fine and D.C./D.S. directions, as decorations and as the S and O shorthands
+const NAVIGATION_DECORATIONS = [
+  'segno',
+  'coda',
+  'fine',
+  'D.C.',
+  'D.S.',
+  'dacapo',
+  'dacoda',
+  'D.C.alcoda',
+  'D.C.alfine',
+  'D.S.alcoda',
+  'D.S.alfine',
+];
+const NAVIGATION_SHORTHANDS = 'SO';
+
+const DECORATION_SHORTHANDS = '.~HLMOPSTuv';
+// Annotations starting a gradual change of tempo, which reaches the next Q: field
+const RAMP_ANNOTATIONS = /^[\^_<>@]?(rit|rall|accel|string)/i;
+const BAR_CHARS = '|:]';
+const EPSILON = 1e-6;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/**
+ * Default tuplet "q" value for (p: p notes in the time of q
+ */
+const defaultTupletTime = (p: number, ratio: [number, number]): number => {
+  if (p === 2 || p === 4 || p === 8) {
+    return 3;
+  }
+  if (p === 3 || p === 6) {
+    return 2;
+  }
+  const isCompound = ratio[1] === 8 && ratio[0] % 3 === 0 && ratio[0] > 3;
+  return isCompound ? 3 : 2;
+};
+
+function parseMeter(value: string): [number, number] | null {
+  const text = value.trim();
+  if (text === 'C') {
+    return [4, 4];
+  }
+  if (text === 'C|') {
+    return [2, 2];
+  }
+
+  const match = text.match(/^(\d+(?:\+\d+)*)\s*\/\s*(\d+)$/);
+  if (!match) {
+    return null;
+  }
+  // Composite meters like "2+3/8" are summed
+  const beats = match[1].split('+').reduce((acc, n) => acc + parseInt(n, 10), 0);
+  return [beats, parseInt(match[2], 10)];
+}
+
+/**
+ * Tempo of a Q: field in quarter notes per minute: "1/4=120", "3/8=60", "\"Allegro\" 1/4=120",
+ * or a bare number counting unit notes
+ */
+function parseTempo(value: string, unit: number): number | null {
+  const text = value.replace(/"[^"]*"/g, '').trim();
+  const match = text.match(/^((?:\d+\s*\/\s*\d+\s*)+)=\s*(\d+(?:\.\d+)?)$/);
+  if (match) {
+    // Several beat lengths are added up, e.g. "1/4 3/8=40"
+    const beatLength = (match[1].match(/\d+\s*\/\s*\d+/g) ?? [])
+      .map((fraction) => fraction.split('/').map((n) => parseInt(n, 10)))
+      .reduce((sum, [numerator, denominator]) => sum + numerator / denominator, 0);
+    const bpm = 4 * beatLength * parseFloat(match[2]);
+    return bpm > 0 ? bpm : null;
+  }
+  const count = text.match(/^\d+(?:\.\d+)?$/) ? parseFloat(text) : 0;
+  return count > 0 ? 4 * unit * count : null;
+}
+
+function parseUnitLength(value: string): number | null {
+  const match = value.trim().match(/^(\d+)(?:\s*\/\s*(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+  const numerator = parseInt(match[1], 10);
+  const denominator = match[2] ? parseInt(match[2], 10) : 1;
+  return numerator > 0 && denominator > 0 ? numerator / denominator : null;
+}
+
+/**
+ * Resolve a K: field into its key signature (null for K:none) and the semitone alteration
+ * of each letter; returns null if invalid
+ */
+function parseKey(
+  value: string,
+): { key: KeySignature | null; accidentals: Record<string, number> } | null {
+  const accidentals: Record<string, number> = {};
+  const [keyToken = '', ...rest] = value.trim().split(/\s+/);
+
+  if (keyToken === '' || keyToken.toLowerCase() === 'none') {
+    return { key: null, accidentals };
+  }
+
+  const match = keyToken.match(/^([A-G][#b]?)([A-Za-z]*)$/);
+  if (!match || !(match[1] in MAJOR_KEY_FIFTHS)) {
+    return null;
+  }
+
+  // The mode may be attached ("Dm", "Ador") or a separate word ("D minor")
+  let mode = match[2];
+  if (mode === '' && rest.length > 0 && /^[A-Za-z]+$/.test(rest[0]) && !rest[0].includes('=')) {
+    mode = rest.shift() ?? '';
+  }
+  const modeKey =
+    mode === '' ? 'maj' : mode.toLowerCase() === 'm' ? 'min' : mode.toLowerCase().slice(0, 3);
+  if (!(modeKey in MODE_FIFTHS)) {
+    return null;
+  }
+
+  // Modes such as C# lydian would need more than seven sharps
+  const fifths = Math.max(-7, Math.min(7, MAJOR_KEY_FIFTHS[match[1]] + MODE_FIFTHS[modeKey]));
+  const keyMode = modeKey === 'min' || modeKey === 'aeo' ? 'minor' : 'major';
+  const key: KeySignature = { fifths, mode: keyMode };
+  Object.assign(accidentals, getKeyAlters(key));
+
+  // Explicit extra accidentals such as "K:D ^c _b"; clef and other modifiers are ignored
+  rest.forEach((token) => {
+    const explicit = token.match(/^(\^\^|\^|__|_|=)([A-Ga-g])$/);
+    if (explicit) {
+      accidentals[explicit[2].toUpperCase()] = ACCIDENTAL_ALTERS[explicit[1]];
+    }
+  });
+
+  return { key, accidentals };
+}
+
+/**
+ * Parser state for a single tune (from its X: line to the next one)
+ */
+class TuneParser {
+  index = 1;
+  title = '';
+  composer = '';
+  ratio: [number, number] | null = null;
+  unitLength: number | null = null;
+  keyAccidentals: Record<string, number> = {};
+  key: KeySignature | null = null; // the first K: field; later changes only affect pitches
+  tempo: number | null = null; // the Q: field of the header
+
+  readonly elements: AbcElement[] = [];
+  readonly errors: AbcSyntaxError[] = [];
+  readonly repeats: RepeatSection[] = [];
+  readonly voltas: Volta[] = [];
+  readonly tempoChanges: TempoChange[] = [];
+  readonly meterChanges: MeterChange[] = [];
+
+  private inBody = false;
+  private barAccidentals = new Map<string, number>();
+  private tuplet: { remaining: number; count: number; actual: number; normal: number } | null =
+    null;
+  private brokenRhythmFactor = 1; // Applied to the element after a > or <
+  private pendingDynamic: DynamicLevel | null = null; // Applied to the next element
+  private hairpin: { type: HairpinMark['type']; started: boolean; ending: boolean } | null = null;
+  private barStarts: number[] = []; // index of the first element after each bar line
+  private lyricCursor = 0; // first element not yet under a w: line
+  private repeatStart: number | null = null; // beat of the last start repeat, until its end
+  private volta: { start: number; passes: number[] } | null = null; // ending being read
+  private isRamping = false; // a rit. or accel. was written: the next tempo is reached gradually
+  private voice: string | null = null; // the first voice named in the body, the one read
+  private isOtherVoice = false; // reading lines of another voice, which are skipped
+
+  // Warning counters
+  skippedGraceNotes = 0;
+  ignoredNavigation = 0;
+  extraSyllables = 0;
+  ignoredVerses = 0;
+  missingKey = false;
+  ignoredKeyChanges = 0;
+  readonly ignoredVoices = new Set<string>();
+
+  // Cursor within the current line
+  private text = '';
+  private pos = 0;
+  private lineNumber = 0;
+
+  private error(message: string, column = this.pos) {
+    this.errors.push({ message, line: this.lineNumber, column: column + 1 });
+  }
+
+  // Meter in effect where the tune is read up to
+  private get meter(): [number, number] {
+    return this.meterChanges[this.meterChanges.length - 1]?.ratio ?? this.ratio ?? [4, 4];
+  }
+
+  // Beats read so far
+  private get beat(): number {
+    return this.elements.reduce((sum, element) => sum + element.duration, 0);
+  }
+
+  private get unit(): number {
+    if (this.unitLength !== null) {
+      return this.unitLength;
+    }
+    // ABC default: 1/16 for meters below 3/4, otherwise 1/8, from the meter of the header
+    const [beats, beatValue] = this.ratio ?? [4, 4];
+    return beats / beatValue < 0.75 ? 1 / 16 : 1 / 8;
+  }
+
+  parseLine(line: string, lineNumber: number) {
+    this.text = line;
+    this.pos = 0;
+    this.lineNumber = lineNumber;
+
+    const field = line.match(/^([A-Za-z+]):(.*)$/);
+    if (field?.[1] === 'V') {
+      this.selectVoice(field[2].replace(/%.*$/, ''));
+      return;
+    }
+    if (this.isOtherVoice) {
+      return;
+    }
+    if (field) {
+      this.parseField(field[1], field[2].replace(/%.*$/, ''), line.length - field[2].length);
+      return;
+    }
+
+    if (line.trim() === '' || line.trimStart().startsWith('%')) {
+      return;
+    }
+
+    if (!this.inBody) {
+      // Be forgiving with pasted snippets that omit the K: line
+      this.missingKey = true;
+      this.inBody = true;
+    }
+    this.parseMusic();
+  }
+
+  private parseField(name: string, value: string, valueColumn: number) {
+    switch (name) {
+      case 'X':
+        this.index = parseInt(value, 10) || this.index;
+        break;
+      case 'T':
+        // Later T: lines are subtitles or section names
+        if (!this.title && !this.inBody) {
+          this.title = value.trim();
+        }
+        break;
+      case 'C':
+        if (!this.composer && !this.inBody) {
+          this.composer = value.trim();
+        }
+        break;
+      case 'M':
+      case 'L':
+      case 'K':
+      case 'Q':
+        this.applyChange(name, value, valueColumn);
+        if (name === 'K') {
+          this.inBody = true;
+        }
+        break;
+      case 'w':
+        if (this.inBody) {
+          this.readLyrics(value);
+        }
+        break;
+      default:
+        // Other fields (R:, W:, ...) don't affect the melody
+        break;
+    }
+  }
+
+  /**
+   * Follow a V: line of the body: the first voice it names is read, the lines of the others
+   * are skipped. In the header, V: lines only describe the voices.
+   */
+  private selectVoice(value: string) {
+    const id = value.trim().split(/\s+/)[0];
+    if (!this.inBody || !id) {
+      return;
+    }
+    this.voice ??= id;
+    this.isOtherVoice = id !== this.voice;
+    if (this.isOtherVoice) {
+      this.ignoredVoices.add(id);
+    }
+  }
+
+  /**
+   * Apply an M:, L:, K: or Q: change, from a header line, a body line or an inline [X:...] field
+   */
+  private applyChange(name: string, value: string, column: number) {
+    if (name === 'M') {
+      if (value.trim().toLowerCase() === 'none') {
+        return;
+      }
+      const meter = parseMeter(value);
+      if (!meter) {
+        this.error(`Invalid meter "${value.trim()}".`, column);
+      } else if (!this.ratio || !this.inBody) {
+        this.ratio = meter;
+      } else if (this.meter[0] !== meter[0] || this.meter[1] !== meter[1]) {
+        const beat = this.beat;
+        if (this.meterChanges[this.meterChanges.length - 1]?.beat === beat) {
+          this.meterChanges.pop();
+        }
+        this.meterChanges.push({ beat, ratio: meter });
+      }
+    } else if (name === 'L') {
+      const unit = parseUnitLength(value);
+      if (unit === null) {
+        this.error(`Invalid unit note length "${value.trim()}".`, column);
+      } else {
+        this.unitLength = unit;
+      }
+    } else if (name === 'K') {
+      const key = parseKey(value);
+      if (!key) {
+        this.error(`Invalid key "${value.trim()}".`, column);
+      } else {
+        this.keyAccidentals = key.accidentals;
+        this.barAccidentals.clear();
+        if (!this.inBody) {
+          this.key = key.key;
+        } else if (key.key?.fifths !== this.key?.fifths || key.key?.mode !== this.key?.mode) {
+          this.ignoredKeyChanges += 1;
+        }
+      }
+    } else if (name === 'Q') {
+      const tempo = parseTempo(value, this.unit);
+      if (tempo === null) {
+        this.error(`Invalid tempo "${value.trim()}".`, column);
+      } else if (!this.inBody) {
+        this.tempo = tempo;
+      } else {
+        this.addTempoChange(tempo);
+      }
+    }
+  }
+
+  private addTempoChange(bpm: number) {
+    const beat = this.beat;
+    const last = this.tempoChanges[this.tempoChanges.length - 1];
+    if (last?.beat === beat) {
+      this.tempoChanges.pop();
+    }
+    this.tempoChanges.push({ beat, bpm, ...(this.isRamping ? { ramp: true } : {}) });
+    this.isRamping = false;
+  }
+
+  /**
+   * Start a gradual change from the tempo in effect where the annotation is written
+   */
+  private startRamp() {
+    const beat = this.beat;
+    const last = this.tempoChanges[this.tempoChanges.length - 1];
+    if (!this.isRamping && last?.beat !== beat) {
+      this.tempoChanges.push({ beat, bpm: last?.bpm ?? this.tempo ?? DEFAULT_TEMPO });
+    }
+    this.isRamping = true;
+  }
+
+  private peek(offset = 0): string {
+    return this.text[this.pos + offset] ?? '';
+  }
+
+  private readNumber(): number | null {
+    const match = this.text.slice(this.pos).match(/^\d+/);
+    if (!match) {
+      return null;
+    }
+    this.pos += match[0].length;
+    return parseInt(match[0], 10);
+  }
+
+  /**
+   * Read a length multiplier such as "2", "/", "3/2" or "//"
+   */
+  private readLength(): number {
+    let numerator = this.readNumber() ?? 1;
+    let denominator = 1;
+    while (this.peek() === '/') {
+      this.pos += 1;
+      denominator *= this.readNumber() ?? 2;
+    }
+    if (numerator === 0) {
+      this.error('A note length cannot be zero.', this.pos - 1);
+      numerator = 1;
+    }
+    return numerator / denominator;
+  }
+
+  /**
+   * Read an optional accidental, a note letter and octave marks; returns the spelled note name
+   */
+  private readPitch(): string | null {
+    const start = this.pos;
+    const accidental = this.text.slice(this.pos).match(/^(\^\^|\^|__|_|=)?/)?.[0] ?? '';
+    this.pos += accidental.length;
+
+    const letter = this.peek();
+    if (!/^[A-Ga-g]$/.test(letter)) {
+      this.error(
+        letter ? `Expected a note after "${accidental}".` : 'Unexpected end of line.',
+        start,
+      );
+      return null;
+    }
+    this.pos += 1;
+
+    let octave = letter === letter.toUpperCase() ? 4 : 5;
+    while (this.peek() === "'" || this.peek() === ',') {
+      octave += this.peek() === "'" ? 1 : -1;
+      this.pos += 1;
+    }
+
+    const upper = letter.toUpperCase();
+    const pitchKey = `${upper}${octave}`;
+    if (accidental) {
+      // Accidentals apply to the same pitch until the end of the bar
+      this.barAccidentals.set(pitchKey, ACCIDENTAL_ALTERS[accidental]);
+    }
+    const alter = this.barAccidentals.get(pitchKey) ?? this.keyAccidentals[upper] ?? 0;
+
+    return formatNoteName({ letter: upper, alter, octave });
+  }
+
+  private pushElement(element: AbcElement) {
+    element.duration *= this.brokenRhythmFactor;
+    this.brokenRhythmFactor = 1;
+
+    if (this.tuplet) {
+      const { actual, normal, count } = this.tuplet;
+      element.duration *= normal / actual;
+      element.tuplet = { actual, normal };
+      if (this.tuplet.remaining === count) {
+        element.tuplet.start = true;
+      }
+      this.tuplet.remaining -= 1;
+      if (this.tuplet.remaining <= 0) {
+        element.tuplet.end = true;
+        this.tuplet = null;
+      }
+    }
+
+    if (this.pendingDynamic) {
+      element.dynamic = this.pendingDynamic;
+      this.pendingDynamic = null;
+    }
+    if (this.hairpin) {
+      const { type, started, ending } = this.hairpin;
+      element.hairpin = {
+        type,
+        ...(started ? {} : { start: true }),
+        ...(ending ? { end: true } : {}),
+      };
+      this.hairpin = ending ? null : { ...this.hairpin, started: true };
+    }
+
+    this.elements.push(element);
+  }
+
+  /**
+   * Read a !decoration! (or +decoration+); dynamics and hairpins are kept, the rest skipped
+   */
+  private readDecoration(delimiter: string) {
+    const start = this.pos;
+    this.skipUntil(delimiter, 'decoration');
+    if (this.pos - 1 === start || this.text[this.pos - 1] !== delimiter) {
+      return; // Unterminated
+    }
+
+    const name = this.text.slice(start + 1, this.pos - 1);
+    const hairpin = HAIRPIN_DECORATIONS[name];
+    if (name in DYNAMIC_DECORATIONS) {
+      this.pendingDynamic = DYNAMIC_DECORATIONS[name];
+    } else if (hairpin?.start) {
+      this.hairpin = { type: hairpin.type, started: false, ending: false };
+    } else if (hairpin && this.hairpin) {
+      this.hairpin.ending = true;
+    } else if (NAVIGATION_DECORATIONS.includes(name)) {
+      this.ignoredNavigation += 1;
+    }
+  }
+
+  /**
+   * Handle the tie and broken rhythm marks that may follow a note, chord or rest
+   */
+  private readSuffix() {
+    const last = this.elements[this.elements.length - 1];
+    if (this.peek() === '-') {
+      this.pos += 1;
+      if (last?.kind === 'note') {
+        last.tie = true;
+      }
+    }
+
+    const broken = this.text.slice(this.pos).match(/^(>+|<+)/)?.[0];
+    if (broken && last) {
+      this.pos += broken.length;
+      const short = Math.pow(0.5, broken.length);
+      const long = 2 - short;
+      last.duration *= broken[0] === '>' ? long : short;
+      this.brokenRhythmFactor = broken[0] === '>' ? short : long;
+    }
+  }
+
+  private skipUntil(closing: string, description: string) {
+    const start = this.pos;
+    const end = this.text.indexOf(closing, this.pos + 1);
+    if (end === -1) {
+      this.error(`Unterminated ${description}.`, start);
+      this.pos = this.text.length;
+    } else {
+      this.pos = end + 1;
+    }
+  }
+
+  private readChord() {
+    const start = this.pos;
+    this.pos += 1; // [
+
+    const notes: { pitch: string; length: number }[] = [];
+    let tie = false;
+    while (this.pos < this.text.length && this.peek() !== ']') {
+      if (this.peek() === ' ') {
+        this.pos += 1;
+        continue;
+      }
+      const pitch = this.readPitch();
+      if (pitch === null) {
+        this.pos += 1;
+        continue;
+      }
+      notes.push({ pitch, length: this.readLength() });
+      // Ties inside chords are treated like a tie on the whole chord
+      if (this.peek() === '-') {
+        this.pos += 1;
+        tie = true;
+      }
+    }
+
+    if (this.peek() !== ']') {
+      this.error('Unterminated chord.', start);
+      return;
+    }
+    this.pos += 1;
+
+    if (notes.length === 0) {
+      this.error('Empty chord.', start);
+      return;
+    }
+
+    // The chord lasts as long as its first note
+    const duration = 4 * this.unit * notes[0].length * this.readLength();
+    this.pushElement({ kind: 'note', pitches: notes.map((n) => n.pitch), duration, tie });
+    this.readSuffix();
+  }
+
+  private readTuplet() {
+    this.pos += 1; // (
+    const p = this.readNumber() ?? 3;
+    let q: number | null = null;
+    let r: number | null = null;
+    if (this.peek() === ':') {
+      this.pos += 1;
+      q = this.readNumber();
+      if (this.peek() === ':') {
+        this.pos += 1;
+        r = this.readNumber();
+      }
+    }
+
+    const count = r ?? p;
+    this.tuplet = {
+      remaining: count,
+      count,
+      actual: p,
+      normal: q ?? defaultTupletTime(p, this.meter),
+    };
+  }
+
+  private readBarLine() {
+    const start = this.pos;
+    while (
+      (this.peek() !== '' && BAR_CHARS.includes(this.peek())) ||
+      (this.pos === start && this.peek() === '[')
+    ) {
+      this.pos += 1;
+    }
+    const barLine = this.text.slice(start, this.pos);
+    // Numbered repeat endings such as "|1" or ":|2"
+    this.readRepeats(barLine, this.readPasses());
+    this.barAccidentals.clear();
+    this.barStarts.push(this.elements.length);
+  }
+
+  /**
+   * Read the passes an ending is for, e.g. "1", "1,3" or "1-3"
+   */
+  private readPasses(): number[] {
+    const match = this.text.slice(this.pos).match(/^\d+(?:[-,]\d+)*/);
+    if (!match) {
+      return [];
+    }
+    this.pos += match[0].length;
+    return match[0].split(',').flatMap((range) => {
+      const [from, to = from] = range.split('-').map((n) => parseInt(n, 10));
+      return Array.from({ length: Math.min(Math.max(to - from + 1, 0), 8) }, (_, i) => from + i);
+    });
+  }
+
+  /**
+   * Turn a bar line into repeat sections and voltas. An end repeat goes back to the last start
+   * repeat, or to the previous end repeat; an ending lasts until the next bar line that is not
+   * a plain "|", or the next ending.
+   */
+  private readRepeats(barLine: string, passes: number[]) {
+    const beat = this.beat;
+    if (barLine !== '|' || passes.length > 0) {
+      this.closeVolta(beat);
+    }
+    if (barLine.startsWith(':')) {
+      const start = this.repeatStart ?? this.repeats[this.repeats.length - 1]?.end ?? 0;
+      if (beat > start + EPSILON) {
+        this.repeats.push({ start, end: beat });
+      }
+      this.repeatStart = null;
+    }
+    if (barLine.length > 1 && barLine.endsWith(':')) {
+      this.repeatStart = beat;
+    }
+    if (passes.length > 0) {
+      this.volta = { start: beat, passes };
+    }
+  }
+
+  private closeVolta(beat: number) {
+    if (this.volta && beat > this.volta.start + EPSILON) {
+      this.voltas.push({ ...this.volta, end: beat });
+    }
+    this.volta = null;
+  }
+
+  /**
+   * Align a w: line with the notes read since the previous one. Syllables are split by spaces
+   * and hyphens; "_" holds the previous syllable over one more note, "*" skips a note,
+   * "|" moves on to the next bar and "~" is a space within a syllable.
+   */
+  private readLyrics(value: string) {
+    const firstElement = this.lyricCursor;
+    if (firstElement === this.elements.length) {
+      // Further w: lines under the same music are other verses
+      this.ignoredVerses += 1;
+      return;
+    }
+    this.lyricCursor = this.elements.length;
+
+    // Tied continuations are sung on the syllable before them
+    const noteIndices: number[] = [];
+    for (let i = firstElement; i < this.elements.length; i++) {
+      const element = this.elements[i];
+      const previous = this.elements[i - 1];
+      const isTieContinuation =
+        element.kind === 'note' &&
+        previous?.kind === 'note' &&
+        previous.tie &&
+        previous.pitches.length === element.pitches.length &&
+        previous.pitches.every((pitch) => element.pitches.includes(pitch));
+      if (element.kind === 'note' && !isTieContinuation) {
+        noteIndices.push(i);
+      }
+    }
+
+    let next = 0; // position in noteIndices
+    let last = null as Lyric | null;
+    let syllable = '';
+
+    // Put the syllable read so far under the next note; false when there was none
+    const flush = (): boolean => {
+      if (!syllable) {
+        return false;
+      }
+      const element = this.elements[noteIndices[next]];
+      if (element?.kind === 'note') {
+        last = { text: syllable };
+        element.lyric = last;
+        next += 1;
+      } else {
+        last = null;
+        this.extraSyllables += 1;
+      }
+      syllable = '';
+      return true;
+    };
+
+    for (let i = 0; i < value.length; i++) {
+      const char = value[i];
+      if (char === '\\' && value[i + 1] === '-') {
+        syllable += '-';
+        i += 1;
+      } else if (char === '-') {
+        if (flush()) {
+          if (last) {
+            last.hyphen = true;
+          }
+        } else {
+          next += 1; // A hyphen after a space or another hyphen skips a note
+        }
+      } else if (char === '_') {
+        flush();
+        if (last) {
+          last.extend = true;
+        }
+        next += 1;
+      } else if (char === '*') {
+        flush();
+        next += 1;
+      } else if (char === '|') {
+        flush();
+        const previousElement = next > 0 ? noteIndices[next - 1] : firstElement - 1;
+        const barStart = this.barStarts.find((start) => start > previousElement);
+        while (
+          barStart !== undefined &&
+          next < noteIndices.length &&
+          noteIndices[next] < barStart
+        ) {
+          next += 1;
+        }
+      } else if (char === ' ' || char === '\t') {
+        flush();
+      } else if (char === '~') {
+        syllable += ' ';
+      } else {
+        syllable += char;
+      }
+    }
+    flush();
+  }
+
+  private parseMusic() {
+    while (this.pos < this.text.length) {
+      const char = this.peek();
+      const start = this.pos;
+
+      if (char === ' ' || char === '\t' || char === '`') {
+        this.pos += 1;
+      } else if (char === '%') {
+        break;
+      } else if (char === '\\' && this.text.slice(this.pos + 1).trim() === '') {
+        break; // Line continuation
+      } else if (char === '"') {
+        this.skipUntil('"', 'annotation');
+        if (RAMP_ANNOTATIONS.test(this.text.slice(start + 1, this.pos - 1))) {
+          this.startRamp();
+        }
+      } else if (char === '!' || char === '+') {
+        this.readDecoration(char);
+      } else if (DECORATION_SHORTHANDS.includes(char)) {
+        if (NAVIGATION_SHORTHANDS.includes(char)) {
+          this.ignoredNavigation += 1;
+        }
+        this.pos += 1;
+      } else if (char === '{') {
+        this.skipGraceNotes();
+      } else if (char === '(') {
+        if (/\d/.test(this.peek(1))) {
+          this.readTuplet();
+        } else {
+          this.pos += 1; // Slur start
+        }
+      } else if (char === ')') {
+        this.pos += 1; // Slur end
+      } else if (char === '[' && /[A-Za-z]/.test(this.peek(1)) && this.peek(2) === ':') {
+        this.readInlineField();
+      } else if (char === '[' && /\d/.test(this.peek(1))) {
+        this.pos += 1;
+        this.readRepeats('[', this.readPasses()); // Repeat ending "[1"
+      } else if (char === '[' && this.peek(1) === '|') {
+        this.readBarLine();
+      } else if (char === '[') {
+        this.readChord();
+      } else if (BAR_CHARS.includes(char)) {
+        if (char === ']') {
+          this.error('Unexpected "]".', start);
+          this.pos += 1;
+        } else {
+          this.readBarLine();
+        }
+      } else if (char === 'z' || char === 'x') {
+        this.pos += 1;
+        this.pushElement({ kind: 'rest', duration: 4 * this.unit * this.readLength() });
+        this.readSuffix();
+      } else if (char === 'Z' || char === 'X') {
+        this.pos += 1;
+        const measures = this.readNumber() ?? 1;
+        this.pushElement({ kind: 'rest', duration: measures * getMeasureDuration(this.meter) });
+      } else if (/[A-Ga-g^_=]/.test(char)) {
+        const pitch = this.readPitch();
+        if (pitch === null) {
+          this.pos = Math.max(this.pos, start + 1);
+          continue;
+        }
+        this.pushElement({
+          kind: 'note',
+          pitches: [pitch],
+          duration: 4 * this.unit * this.readLength(),
+          tie: false,
+        });
+        this.readSuffix();
+      } else {
+        this.error(`Unexpected character "${char}".`, start);
+        this.pos += 1;
+      }
+    }
+  }
+
+  private skipGraceNotes() {
+    const start = this.pos;
+    this.skipUntil('}', 'grace note group');
+    const group = this.text.slice(start, this.pos);
+    this.skippedGraceNotes += (group.match(/[A-Ga-g]/g) ?? []).length;
+  }
+
+  private readInlineField() {
+    const start = this.pos;
+    const end = this.text.indexOf(']', this.pos);
+    if (end === -1) {
+      this.error('Unterminated inline field.', start);
+      this.pos = this.text.length;
+      return;
+    }
+
+    const name = this.peek(1);
+    this.applyChange(name, this.text.slice(start + 3, end), start + 3);
+    this.pos = end + 1;
+  }
+
+  /**
+   * Resolve ties into the final melody
+   */
+  toTune(): AbcTune {
+    const notes: MelodyEvent[] = [];
+    let previous: Extract<AbcElement, { kind: 'note' }> | null = null;
+
+    for (const element of this.elements) {
+      const marks = {
+        ...(element.tuplet ? { tuplet: element.tuplet } : {}),
+        ...(element.dynamic ? { dynamic: element.dynamic } : {}),
+        ...(element.hairpin ? { hairpin: element.hairpin } : {}),
+        ...(element.kind === 'note' && element.lyric ? { lyric: element.lyric } : {}),
+      };
+      if (element.kind === 'rest') {
+        // Adjacent rests (e.g. split by a bar line) become one, unless they carry marks
+        const last = notes[notes.length - 1];
+        const isPlain = (rest: object) => !('tuplet' in rest || 'hairpin' in rest);
+        if (last && isRest(last) && isPlain(last) && Object.keys(marks).length === 0) {
+          last.duration += element.duration;
+        } else {
+          notes.push({ rest: true, duration: element.duration, ...marks });
+        }
+        previous = null;
+        continue;
+      }
+
+      // Tied notes stay separate events; the tie is marked on the first one
+      const { pitches } = element;
+      const isTied =
+        previous?.tie &&
+        previous.pitches.length === pitches.length &&
+        previous.pitches.every((pitch) => pitches.includes(pitch));
+      const last = notes[notes.length - 1];
+      if (isTied && last && !isRest(last)) {
+        last.tie = true;
+      }
+      notes.push(createPitchedEvent(pitches, element.duration, marks));
+      previous = element;
+    }
+
+    this.closeVolta(this.beat);
+
+    const warnings: string[] = [];
+    if (this.missingKey) {
+      warnings.push('The tune has no K: field; C major is assumed.');
+    }
+    if (this.ignoredKeyChanges > 0) {
+      warnings.push('Key changes are not shown; the first key signature is used for display.');
+    }
+    if (this.skippedGraceNotes > 0) {
+      warnings.push(`${this.skippedGraceNotes} grace note(s) were skipped.`);
+    }
+    if (this.ignoredNavigation > 0) {
+      warnings.push('Segno, coda, Fine and D.C./D.S. marks are ignored.');
+    }
+    if (this.extraSyllables > 0) {
+      warnings.push(`${this.extraSyllables} lyric syllable(s) without a note were dropped.`);
+    }
+    if (this.ignoredVerses > 0) {
+      warnings.push('Only the first verse of the lyrics is kept.');
+    }
+    if (this.ignoredVoices.size > 0) {
+      warnings.push(
+        `Only the first voice is imported; the other ${this.ignoredVoices.size} voice(s) are left out.`,
+      );
+    }
+
+    return {
+      index: this.index,
+      title: this.title,
+      composer: this.composer,
+      melody: {
+        ratio: this.ratio ?? [4, 4],
+        notes,
+        ...(this.key ? { key: this.key } : {}),
+        ...(this.tempo !== null ? { tempo: this.tempo } : {}),
+        ...(this.tempoChanges.length > 0 ? { tempoChanges: this.tempoChanges } : {}),
+        ...(this.meterChanges.length > 0 ? { meterChanges: this.meterChanges } : {}),
+        ...(this.repeats.length > 0 ? { repeats: this.repeats } : {}),
+        ...(this.voltas.length > 0 ? { voltas: this.voltas } : {}),
+      },
+      warnings,
+      errors: this.errors,
+    };
+  }
+}
+
+/**
+ * Parse every tune in an ABC document. Text without an X: line is read as a single tune.
+ * Syntax errors are collected per tune instead of thrown, so editors can show them inline.
+ */
+export function parseAbc(text: string): AbcTune[] {
+  const lines = text.split(/\r?\n/);
+  const tunes: AbcTune[] = [];
+  const hasReferenceNumbers = lines.some((line) => /^X:/.test(line));
+
+  let parser: TuneParser | null = hasReferenceNumbers ? null : new TuneParser();
+
+  for (let i = 0; i < lines.length; i++) {
+    if (/^X:/.test(lines[i])) {
+      if (parser) {
+        tunes.push(parser.toTune());
+      }
+      parser = new TuneParser();
+    }
+    // Lines before the first X: are the file header, which we don't need
+    parser?.parseLine(lines[i], i + 1);
+  }
+
+  if (parser) {
+    tunes.push(parser.toTune());
+  }
+
+  return tunes.filter((tune) => tune.melody.notes.length > 0 || tune.errors.length > 0);
+}
+
+/**
+ * Format a syntax error for display, e.g. "Line 3, column 5: Unexpected character"
+ */
+export const formatAbcError = (error: AbcSyntaxError): string =>
+  `Line ${error.line}, column ${error.column}: ${error.message}`;
+
+/**
+ * Express a multiple of the unit length as an ABC length suffix ("", "2", "/2", "3/2")
+ */
+function formatLength(multiple: number): string {
+  let denominator = 1;
+  while (
+    denominator < 96 &&
+    Math.abs(multiple * denominator - Math.round(multiple * denominator)) > EPSILON
+  ) {
+    denominator += 1;
+  }
+  let numerator = Math.round(multiple * denominator);
+  const divisor = gcd(numerator, denominator);
+  numerator /= divisor;
+  denominator /= divisor;
+
+  if (denominator === 1) {
+    return numerator === 1 ? '' : String(numerator);
+  }
+  return `${numerator === 1 ? '' : numerator}/${denominator}`;
+}
+
+const formatTempo = (bpm: number) => `1/4=${Math.round(bpm * 100) / 100}`;
+
+/**
+ * Inline tempo fields of a melody with the beat each goes before: one for every change of
+ * tempo, and a "rit." or "accel." annotation where a gradual change sets off
+ */
+function getTempoFields(melody: Melody): { beat: number; text: string }[] {
+  const fields: { beat: number; text: string }[] = [];
+  let previous = { beat: 0, bpm: melody.tempo ?? DEFAULT_TEMPO };
+  (melody.tempoChanges ?? []).forEach((change) => {
+    if (change.ramp) {
+      fields.push({
+        beat: previous.beat,
+        text: change.bpm < previous.bpm ? '"^rit."' : '"^accel."',
+      });
+    }
+    if (change.ramp || change.bpm !== previous.bpm) {
+      fields.push({ beat: change.beat, text: `[Q:${formatTempo(change.bpm)}]` });
+    }
+    previous = change;
+  });
+  // Stable: a tempo stays before the annotation of a ramp setting off from it
+  return fields.sort((a, b) => a.beat - b.beat);
+}
+
+interface VoiceLayout {
+  measureStarts: Measure[];
+  getMeasureEnd: (index: number) => number;
+  totalBeats: number; // every voice is filled up to this beat with rests
+  keyAlters: Record<string, number>;
+}
+
+// L:1/8
+const UNIT_BEATS = 0.5;
+
+/**
+ * The notes of each measure of one voice, and the w: tokens under them when it has lyrics.
+ * Tempo fields are written in the voice they are given to, the first one.
+ */
+function voiceMeasures(
+  events: MelodyEvent[],
+  { measureStarts, getMeasureEnd, totalBeats, keyAlters }: VoiceLayout,
+  tempoFields: { beat: number; text: string }[] = [],
+): { measures: string[][]; lyricMeasures: string[][] | null } {
+  const length = events.reduce((sum, event) => sum + event.duration, 0);
+  const notes: MelodyEvent[] =
+    totalBeats - length > EPSILON
+      ? [...events, { rest: true, duration: totalBeats - length }]
+      : events;
+
+  const measures: string[][] = [[]];
+  let beat = 0;
+  let barAccidentals = new Map<string, number>();
+  const hairpins = getHairpinSpans(notes);
+
+  // w: lines carry one token per note: a syllable, "_" under a melisma, "*" for no syllable
+  const lyricMeasures: string[][] = [[]];
+  const hasLyrics = notes.some((event) => !isRest(event) && event.lyric);
+  const melismaIndices = new Set(
+    getLyricSpans(notes)
+      .filter((span) => span.lyric.extend)
+      .flatMap((span) =>
+        Array.from({ length: span.endIndex - span.startIndex }, (_, i) => span.startIndex + i + 1),
+      ),
+  );
+  const lyricToken = (event: MelodyEvent, index: number): string => {
+    if (!isRest(event) && event.lyric) {
+      const text = event.lyric.text.replace(/-/g, '\\-').replace(/\s+/g, '~');
+      return `${text}${event.lyric.hyphen ? '-' : ''}`;
+    }
+    return melismaIndices.has(index) ? '_' : '*';
+  };
+
+  const writePitch = (note: string) => {
+    const parsed = parseNoteName(note);
+    if (!parsed) {
+      throw new Error(`Cannot export note "${note}" to ABC.`);
+    }
+    const { letter, alter, octave } = parsed;
+
+    // Only write an accidental when it differs from what is already in effect in this bar
+    const pitchKey = `${letter}${octave}`;
+    let accidental = '';
+    if ((barAccidentals.get(pitchKey) ?? keyAlters[letter] ?? 0) !== alter) {
+      accidental = ACCIDENTAL_MARKS[alter];
+      barAccidentals.set(pitchKey, alter);
+    }
+
+    const name =
+      octave >= 5
+        ? `${letter.toLowerCase()}${"'".repeat(octave - 5)}`
+        : `${letter}${','.repeat(4 - octave)}`;
+    return `${accidental}${name}`;
+  };
+
+  // A chord is written as [CEG] with the length and tie after the brackets
+  const formatNote = (pitches: string[], length: string, tie: boolean) => {
+    const names = pitches.map(writePitch).join('');
+    return `${pitches.length > 1 ? `[${names}]` : names}${length}${tie ? '-' : ''}`;
+  };
+
+  notes.forEach((event, index) => {
+    let remaining = event.duration;
+    const { tuplet } = event;
+
+    // A tuplet group is announced before its first note as (p:q:r
+    let prefix = '';
+    if (tuplet?.start) {
+      let count = 1;
+      for (
+        let i = index;
+        i + 1 < notes.length && !notes[i].tuplet?.end && notes[i + 1].tuplet;
+        i++
+      ) {
+        count += 1;
+      }
+      prefix = `(${tuplet.actual}:${tuplet.normal}:${count}`;
+    }
+    // Dynamics and hairpin ends are decorations on the event's first note
+    if (event.dynamic) {
+      prefix += `!${event.dynamic}!`;
+    }
+    hairpins.forEach((span) => {
+      const symbol = span.type === 'crescendo' ? '<' : '>';
+      if (span.startIndex === index) {
+        prefix += `!${symbol}(!`;
+      }
+      if (span.endIndex === index) {
+        prefix += `!${symbol})!`;
+      }
+    });
+    // Notes inside a tuplet are written at their nominal length
+    const scale = tuplet ? tuplet.actual / tuplet.normal : 1;
+
+    while (remaining > EPSILON) {
+      if (getMeasureEnd(measures.length - 1) - beat < EPSILON) {
+        // A new meter is written at the start of the measure it changes in
+        const ratio = measureStarts[measures.length]?.ratio;
+        const previousRatio = measureStarts[measures.length - 1].ratio;
+        measures.push(
+          ratio && ratio.join('/') !== previousRatio.join('/') ? [`[M:${ratio.join('/')}]`] : [],
+        );
+        lyricMeasures.push([]);
+        barAccidentals = new Map();
+      }
+      let tempo = '';
+      while (tempoFields.length > 0 && tempoFields[0].beat < beat + EPSILON) {
+        tempo += tempoFields.shift()!.text;
+      }
+      prefix = `${tempo}${prefix}`;
+
+      // Tied pieces and continuations are sung on the syllable before them
+      if (remaining === event.duration && !isRest(event) && !isTiedFromPrevious(notes, index)) {
+        lyricMeasures[lyricMeasures.length - 1].push(lyricToken(event, index));
+      }
+
+      const chunk = Math.min(remaining, getMeasureEnd(measures.length - 1) - beat);
+      remaining -= chunk;
+      const length = formatLength((chunk * scale) / UNIT_BEATS);
+      const tie = remaining > EPSILON || isTiedFromPrevious(notes, index + 1);
+      measures[measures.length - 1].push(
+        `${prefix}${isRest(event) ? `z${length}` : formatNote(getEventPitches(event), length, tie)}`,
+      );
+      prefix = '';
+      beat += chunk;
+    }
+  });
+
+  return { measures, lyricMeasures: hasLyrics ? lyricMeasures : null };
+}
+
+/**
+ * Serialize a melody as a single ABC tune in its key with an eighth-note unit length, its
+ * main line and each track as a voice. Notes crossing a bar line are split and tied; rests
+ * are split. Marked ties, tuplets, dynamics, lyrics, tempo and meter changes are kept.
+ */
+export function melodyToAbc(melody: Melody, metadata: AbcMetadata): string {
+  const MEASURES_PER_LINE = 4;
+  const voices: Omit<MelodyTrack, 'id'>[] = [
+    { name: melody.trackName ?? 'Melody', notes: melody.notes },
+    ...(melody.tracks ?? []),
+  ];
+  const totalBeats = Math.max(
+    ...voices.map((voice) => voice.notes.reduce((sum, event) => sum + event.duration, 0)),
+  );
+  const measureStarts = getMeasures(totalBeats, melody.ratio, melody.meterChanges);
+  const layout: VoiceLayout = {
+    measureStarts,
+    getMeasureEnd: (index) =>
+      measureStarts[index + 1]?.beat ??
+      measureStarts[index].beat + getMeasureDuration(measureStarts[index].ratio),
+    totalBeats,
+    keyAlters: getKeyAlters(melody.key),
+  };
+  const written = voices.map((voice, index) =>
+    voiceMeasures(voice.notes, layout, index === 0 ? getTempoFields(melody) : []),
+  );
+
+  // With several voices, each system has a line of every voice in turn
+  const isMultiVoice = voices.length > 1;
+  const lines: string[] = [];
+  const measureCount = written[0].measures.length;
+  for (let i = 0; i < measureCount; i += MEASURES_PER_LINE) {
+    const isLast = i + MEASURES_PER_LINE >= measureCount;
+    written.forEach(({ measures, lyricMeasures }, voiceIndex) => {
+      if (isMultiVoice) {
+        lines.push(`V:${voiceIndex + 1}`);
+      }
+      const line = measures
+        .slice(i, i + MEASURES_PER_LINE)
+        .map((measure) => measure.join(' '))
+        .join(' | ');
+      lines.push(`${line} ${isLast ? '|]' : '|'}`);
+      if (lyricMeasures) {
+        const words = lyricMeasures
+          .slice(i, i + MEASURES_PER_LINE)
+          .map((measure) => measure.join(' '))
+          .join(' | ');
+        lines.push(`w:${words}`);
+      }
+    });
+  }
+
+  const singleLine = (value: string) => value.replace(/\s+/g, ' ').trim();
+  const voiceFields = isMultiVoice
+    ? voices.map(
+        (voice, index) =>
+          `V:${index + 1} name="${singleLine(voice.name).replace(/"/g, "'")}"${voice.clef ? ` clef=${voice.clef}` : ''}`,
+      )
+    : [];
+  const header = [
+    `X:${metadata.index ?? 1}`,
+    `T:${singleLine(metadata.title)}`,
+    ...(metadata.composer ? [`C:${singleLine(metadata.composer)}`] : []),
+    `M:${melody.ratio[0]}/${melody.ratio[1]}`,
+    'L:1/8',
+    ...(melody.tempo !== undefined ? [`Q:${formatTempo(melody.tempo)}`] : []),
+    ...voiceFields,
+    `K:${melody.key ? `${getKeyTonic(melody.key)}${melody.key.mode === 'minor' ? 'm' : ''}` : 'C'}`,
+  ];
+
+  return `${[...header, ...lines].join('\n')}\n`;
+}
@@ -0,0 +1,515 @@
+import type {
+  DynamicLevel,
+  KeySignature,
+  Melody,
+  MelodyEvent,
+  MeterChange,
+  TempoChange,
+} from '@lib/components/Chart';
+import { velocityToDynamic } from '@lib/utils/dynamicsUtils';
+import { spellMidi } from '@lib/utils/keyUtils';
+import { createPitchedEvent } from '@lib/utils/melodyUtils';
+
+/**
+ * Thrown when a file cannot be read as a Standard MIDI File or uses features we don't support
+ */
+export class MidiImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MidiImportError';
+  }
+}
+
+export interface MidiNote {
+  midi: number;
+  channel: number; // 0-15
+  velocity: number; // 1-127
+  startTick: number;
+  endTick: number;
+}
+
+export interface MidiTrack {
+  index: number;
+  name: string;
+  channel: number | null; // null if the track uses several channels
+  notes: MidiNote[];
+}
+
+export interface MidiFile {
+  format: 0 | 1;
+  ticksPerQuarter: number;
+  tracks: MidiTrack[]; // Only tracks that contain notes
+  ratio: [number, number];
+  key: KeySignature | null; // from the first key signature event, if any
+  tempo: number | null; // BPM from the first tempo event, if any
+  tempoChanges: TempoChange[]; // later tempo events, in beats
+  meterChanges: MeterChange[]; // later time signature events, in beats
+  pedalChannels: number[]; // channels that press the sustain pedal, which is not imported
+  pitchBendChannels: number[]; // channels that bend pitches, which is not imported
+}
+
+export interface MidiImportResult {
+  melody: Melody;
+  warnings: string[];
+}
+
+const PERCUSSION_CHANNEL = 9; // Channel 10 in 1-based numbering
+const DURATION_GRID = 48; // Round positions to 1/48 of a beat to hide humanized timing noise
+const SUSTAIN_CONTROLLER = 64;
+const PITCH_BEND_CENTER = 8192;
+
+class ByteReader {
+  pos = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get length(): number {
+    return this.bytes.length;
+  }
+
+  private ensure(count: number): void {
+    if (this.pos + count > this.bytes.length) {
+      throw new MidiImportError('Unexpected end of file: the MIDI data is truncated.');
+    }
+  }
+
+  uint8(): number {
+    this.ensure(1);
+    return this.bytes[this.pos++];
+  }
+
+  uint16(): number {
+    return (this.uint8() << 8) | this.uint8();
+  }
+
+  uint32(): number {
+    return ((this.uint16() << 16) >>> 0) + this.uint16();
+  }
+
+  varLen(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.uint8();
+      value = (value << 7) | (byte & 0x7f);
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+    }
+    throw new MidiImportError('Invalid variable-length quantity in MIDI data.');
+  }
+
+  ascii(count: number): string {
+    return String.fromCharCode(...this.bytesSlice(count));
+  }
+
+  bytesSlice(count: number): Uint8Array {
+    this.ensure(count);
+    const slice = this.bytes.subarray(this.pos, this.pos + count);
+    this.pos += count;
+    return slice;
+  }
+
+  skip(count: number): void {
+    this.ensure(count);
+    this.pos += count;
+  }
+}
+
+interface RawTrack {
+  index: number;
+  name: string;
+  notes: MidiNote[];
+}
+
+interface TimedMeta<T> {
+  tick: number;
+  value: T;
+}
+
+/**
+ * Parse the events of one MTrk chunk
+ */
+function parseTrackChunk(
+  reader: ByteReader,
+  end: number,
+  index: number,
+  tempos: TimedMeta<number>[],
+  timeSignatures: TimedMeta<[number, number]>[],
+  keySignatures: TimedMeta<KeySignature>[],
+  pedalChannels: Set<number>,
+  pitchBendChannels: Set<number>,
+): RawTrack {
+  const notes: MidiNote[] = [];
+  const openNotes = new Map<string, { velocity: number; startTick: number }[]>();
+  let name = '';
+  let tick = 0;
+  let runningStatus: number | null = null;
+
+  const closeNote = (channel: number, midi: number) => {
+    const stack = openNotes.get(`${channel}:${midi}`);
+    const open = stack?.shift();
+    if (open) {
+      notes.push({
+        midi,
+        channel,
+        velocity: open.velocity,
+        startTick: open.startTick,
+        endTick: tick,
+      });
+    }
+  };
+
+  while (reader.pos < end) {
+    tick += reader.varLen();
+
+    let status = reader.uint8();
+    if (status < 0x80) {
+      // Running status: this byte is already the first data byte
+      if (runningStatus === null) {
+        throw new MidiImportError(`Track ${index + 1} has a data byte without a status byte.`);
+      }
+      reader.pos -= 1;
+      status = runningStatus;
+    }
+
+    if (status === 0xff) {
+      const type = reader.uint8();
+      const length = reader.varLen();
+      const data = reader.bytesSlice(length);
+
+      if (type === 0x03 && !name) {
+        name = String.fromCharCode(...data).trim();
+      } else if (type === 0x51 && length === 3) {
+        const microsPerQuarter = (data[0] << 16) | (data[1] << 8) | data[2];
+        tempos.push({ tick, value: Math.round(60000000 / microsPerQuarter) });
+      } else if (type === 0x58 && length >= 2) {
+        timeSignatures.push({ tick, value: [data[0], Math.pow(2, data[1])] });
+      } else if (type === 0x59 && length === 2) {
+        // Sharps (positive) or flats (negative) as a signed byte, then 0 = major, 1 = minor
+        const fifths = data[0] > 127 ? data[0] - 256 : data[0];
+        keySignatures.push({ tick, value: { fifths, mode: data[1] === 1 ? 'minor' : 'major' } });
+      } else if (type === 0x2f) {
+        break;
+      }
+      continue;
+    }
+
+    if (status === 0xf0 || status === 0xf7) {
+      // SysEx: skip the payload, it cancels running status
+      reader.skip(reader.varLen());
+      runningStatus = null;
+      continue;
+    }
+
+    if (status > 0xf0) {
+      throw new MidiImportError(
+        `Track ${index + 1} contains an unsupported system message (0x${status.toString(16)}).`,
+      );
+    }
+
+    runningStatus = status;
+    const type = status & 0xf0;
+    const channel = status & 0x0f;
+
+    if (type === 0xc0 || type === 0xd0) {
+      reader.skip(1);
+      continue;
+    }
+
+    const data1 = reader.uint8();
+    const data2 = reader.uint8();
+
+    if (type === 0x90 && data2 > 0) {
+      const key = `${channel}:${data1}`;
+      const stack = openNotes.get(key) ?? [];
+      stack.push({ velocity: data2, startTick: tick });
+      openNotes.set(key, stack);
+    } else if (type === 0x80 || type === 0x90) {
+      closeNote(channel, data1);
+    } else if (type === 0xb0 && data1 === SUSTAIN_CONTROLLER && data2 >= 64) {
+      pedalChannels.add(channel);
+    } else if (type === 0xe0 && ((data2 << 7) | data1) !== PITCH_BEND_CENTER) {
+      pitchBendChannels.add(channel);
+    }
+  }
+
+  // Close notes that were never released
+  for (const [key, stack] of openNotes) {
+    const [channel, midi] = key.split(':').map(Number);
+    while (stack.length > 0) {
+      closeNote(channel, midi);
+    }
+  }
+
+  reader.pos = end;
+
+  notes.sort((a, b) => a.startTick - b.startTick || b.midi - a.midi);
+  return { index, name, notes };
+}
+
+function getTrackChannel(notes: MidiNote[]): number | null {
+  const channels = new Set(notes.map((note) => note.channel));
+  return channels.size === 1 ? notes[0].channel : null;
+}
+
+/**
+ * Parse a Standard MIDI File (format 0 or 1)
+ */
+export function parseMidi(data: ArrayBuffer | Uint8Array): MidiFile {
+  const reader = new ByteReader(data instanceof Uint8Array ? data : new Uint8Array(data));
+
+  if (reader.length < 14 || reader.ascii(4) !== 'MThd') {
+    throw new MidiImportError('This is not a Standard MIDI File (missing MThd header).');
+  }
+
+  const headerLength = reader.uint32();
+  const format = reader.uint16();
+  const trackCount = reader.uint16();
+  const division = reader.uint16();
+  reader.skip(Math.max(0, headerLength - 6));
+
+  if (format === 2) {
+    throw new MidiImportError(
+      'MIDI format 2 (independent sequences) is not supported. Please export as format 0 or 1.',
+    );
+  }
+  if (format !== 0 && format !== 1) {
+    throw new MidiImportError(`Unknown MIDI format ${format}.`);
+  }
+  if (division & 0x8000) {
+    throw new MidiImportError(
+      'SMPTE time division is not supported. Please export the file with metrical (PPQ) timing.',
+    );
+  }
+  if (division === 0) {
+    throw new MidiImportError('Invalid MIDI header: ticks per quarter note is 0.');
+  }
+
+  const tempos: TimedMeta<number>[] = [];
+  const timeSignatures: TimedMeta<[number, number]>[] = [];
+  const keySignatures: TimedMeta<KeySignature>[] = [];
+  const pedalChannels = new Set<number>();
+  const pitchBendChannels = new Set<number>();
+  const rawTracks: RawTrack[] = [];
+
+  while (reader.pos + 8 <= reader.length && rawTracks.length < trackCount) {
+    const chunkId = reader.ascii(4);
+    const chunkLength = reader.uint32();
+    const chunkEnd = reader.pos + chunkLength;
+
+    if (chunkEnd > reader.length) {
+      throw new MidiImportError('Unexpected end of file: the MIDI data is truncated.');
+    }
+
+    if (chunkId !== 'MTrk') {
+      // Unknown chunk types must be ignored per the spec
+      reader.pos = chunkEnd;
+      continue;
+    }
+
+    rawTracks.push(
+      parseTrackChunk(
+        reader,
+        chunkEnd,
+        rawTracks.length,
+        tempos,
+        timeSignatures,
+        keySignatures,
+        pedalChannels,
+        pitchBendChannels,
+      ),
+    );
+  }
+
+  let tracks: MidiTrack[];
+  if (format === 0 && rawTracks.length > 0) {
+    // Format 0 keeps every part in one track, so offer each channel as its own track
+    const byChannel = new Map<number, MidiNote[]>();
+    rawTracks[0].notes.forEach((note) => {
+      byChannel.set(note.channel, [...(byChannel.get(note.channel) ?? []), note]);
+    });
+    tracks = Array.from(byChannel.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([channel, notes], index) => ({
+        index,
+        name: rawTracks[0].name ? `${rawTracks[0].name} (Ch. ${channel + 1})` : '',
+        channel,
+        notes,
+      }));
+  } else {
+    tracks = rawTracks.map((track) => ({
+      ...track,
+      channel: track.notes.length > 0 ? getTrackChannel(track.notes) : null,
+    }));
+  }
+
+  tracks = tracks.filter((track) => track.notes.length > 0);
+
+  if (tracks.length === 0) {
+    throw new MidiImportError('The MIDI file does not contain any notes.');
+  }
+
+  const byTick = <T>(a: TimedMeta<T>, b: TimedMeta<T>) => a.tick - b.tick;
+  // Events after the first one that change the value (tracks of a format 1 file may repeat them)
+  const getChanges = <T>(events: TimedMeta<T>[]) =>
+    events
+      .sort(byTick)
+      .filter(
+        (event, i) => i > 0 && JSON.stringify(event.value) !== JSON.stringify(events[i - 1].value),
+      )
+      .map(({ tick, value }) => ({ beat: ticksToBeats(tick, division), value }));
+
+  return {
+    format,
+    ticksPerQuarter: division,
+    tracks,
+    ratio: timeSignatures.sort(byTick)[0]?.value ?? [4, 4],
+    key: keySignatures.sort(byTick)[0]?.value ?? null,
+    tempo: tempos.sort(byTick)[0]?.value ?? null,
+    tempoChanges: getChanges(tempos).map(({ beat, value }) => ({ beat, bpm: value })),
+    meterChanges: getChanges(timeSignatures).map(({ beat, value }) => ({ beat, ratio: value })),
+    pedalChannels: [...pedalChannels],
+    pitchBendChannels: [...pitchBendChannels],
+  };
+}
+
+/**
+ * Human readable label for the track chooser
+ */
+export function describeMidiTrack(track: MidiTrack): string {
+  const name = track.name || `Track ${track.index + 1}`;
+  const channel =
+    track.channel === null
+      ? 'multiple channels'
+      : track.channel === PERCUSSION_CHANNEL
+        ? 'percussion'
+        : `channel ${track.channel + 1}`;
+
+  return `${name} — ${track.notes.length} notes, ${channel}`;
+}
+
+// Position on the grid, in 1/DURATION_GRID beats from the start
+function ticksToSteps(ticks: number, ticksPerQuarter: number): number {
+  return Math.round((ticks / ticksPerQuarter) * DURATION_GRID);
+}
+
+function ticksToBeats(ticks: number, ticksPerQuarter: number): number {
+  return ticksToSteps(ticks, ticksPerQuarter) / DURATION_GRID;
+}
+
+/**
+ * Convert one track of a parsed MIDI file into a melody; simultaneous notes become chords
+ */
+export function midiTrackToMelody(file: MidiFile, trackIndex: number): MidiImportResult {
+  const track = file.tracks.find((t) => t.index === trackIndex);
+  if (!track) {
+    throw new MidiImportError(`Track ${trackIndex + 1} does not exist or has no notes.`);
+  }
+  if (track.channel === PERCUSSION_CHANNEL) {
+    throw new MidiImportError(
+      'This track uses the percussion channel (10); its notes are drum sounds, not pitches. Please choose another track.',
+    );
+  }
+
+  // MIDI has no spelling, so black keys follow the key signature (Bb in F major)
+  const spell = (midi: number) => spellMidi(midi, file.key ?? undefined);
+  // Start and end are rounded on the grid, so that rounding does not add up along the track
+  const toSteps = (ticks: number) => ticksToSteps(ticks, file.ticksPerQuarter);
+
+  // Notes that start together (on the grid) form a chord lasting as long as its longest note,
+  // as loud as its loudest note
+  const line: {
+    startTick: number; // of its first note, before rounding
+    start: number;
+    end: number;
+    pitches: string[];
+    velocity: number;
+  }[] = [];
+  let joinedNotes = 0;
+  track.notes.forEach((note) => {
+    const previous = line[line.length - 1];
+    const start = toSteps(note.startTick);
+    const end = Math.max(start + 1, toSteps(note.endTick));
+    if (previous && previous.start === start) {
+      if (note.startTick !== previous.startTick) {
+        joinedNotes += 1;
+      }
+      previous.end = Math.max(previous.end, end);
+      previous.pitches.push(spell(note.midi));
+      previous.velocity = Math.max(previous.velocity, note.velocity);
+      return;
+    }
+    line.push({
+      startTick: note.startTick,
+      start,
+      end,
+      pitches: [spell(note.midi)],
+      velocity: note.velocity,
+    });
+  });
+
+  const notes: MelodyEvent[] = [];
+  let overlappingNotes = 0;
+  // The velocities are kept as played; the marking closest to them is shown where it changes
+  let dynamic: DynamicLevel | null = null;
+
+  // Silence before the first note is kept so bar lines stay aligned
+  const leadingRest = line[0]?.start ?? 0;
+  if (leadingRest > 0) {
+    notes.push({ rest: true, duration: leadingRest / DURATION_GRID });
+  }
+
+  line.forEach((chord, i) => {
+    const next = line[i + 1];
+    // Overlapping notes are cut short where the next one starts
+    if (next && chord.end > next.start) {
+      overlappingNotes += 1;
+    }
+    const end = next ? Math.min(chord.end, next.start) : chord.end;
+    const level = velocityToDynamic(chord.velocity);
+    notes.push(
+      createPitchedEvent(chord.pitches, (end - chord.start) / DURATION_GRID, {
+        velocity: chord.velocity,
+        ...(level !== dynamic ? { dynamic: level } : {}),
+      }),
+    );
+    dynamic = level;
+    if (next && next.start > end) {
+      notes.push({ rest: true, duration: (next.start - end) / DURATION_GRID });
+    }
+  });
+
+  const warnings: string[] = [];
+  if (file.tracks.length > 1) {
+    warnings.push(
+      `Only this track is imported; the other ${file.tracks.length - 1} track(s) are left out.`,
+    );
+  }
+  if (overlappingNotes > 0) {
+    warnings.push(
+      `${overlappingNotes} note(s) held into the next one were shortened; a melody plays one note or chord at a time.`,
+    );
+  }
+  if (joinedNotes > 0) {
+    warnings.push(`${joinedNotes} note(s) played nearly together were joined into chords.`);
+  }
+  const channels = new Set(track.notes.map((note) => note.channel));
+  if (file.pedalChannels.some((channel) => channels.has(channel))) {
+    warnings.push('The sustain pedal is ignored; notes last as long as their keys are held.');
+  }
+  if (file.pitchBendChannels.some((channel) => channels.has(channel))) {
+    warnings.push('Pitch bends are ignored.');
+  }
+
+  return {
+    melody: {
+      ratio: file.ratio,
+      notes,
+      ...(file.key ? { key: file.key } : {}),
+      ...(file.tempo !== null ? { tempo: file.tempo } : {}),
+      ...(file.tempoChanges.length > 0 ? { tempoChanges: file.tempoChanges } : {}),
+      ...(file.meterChanges.length > 0 ? { meterChanges: file.meterChanges } : {}),
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Melody } from '@lib/components/Chart';
+
+import { midiTrackToMelody, parseMidi } from './midiParser';
+import { melodyToMidi } from './midiWriter';
+
+const melody: Melody = {
+  ratio: [4, 4],
+  trackName: 'Right hand',
+  notes: [
+    { note: 'C5', duration: 2 },
+    { note: 'G5', duration: 2 },
+    { note: 'A5', duration: 4 },
+  ],
+  tracks: [
+    {
+      id: 'lh',
+      name: 'Left hand',
+      clef: 'bass',
+      notes: [{ notes: ['C3', 'G3'], duration: 4 }],
+    },
+  ],
+};
+
+describe('melodyToMidi', () => {
+  it('writes each track as a MIDI track of a format 1 file', () => {
+    const file = parseMidi(melodyToMidi(melody, { tempo: 120, title: 'Twinkle' }));
+
+    expect(file.format).toBe(1);
+    expect(file.tracks.map((track) => [track.name, track.channel])).toEqual([
+      ['Twinkle', 0],
+      ['Left hand', 1],
+    ]);
+    expect(midiTrackToMelody(file, file.tracks[1].index).melody.notes).toEqual([
+      { notes: ['C3', 'G3'], duration: 4, velocity: 80, dynamic: 'mf' },
+    ]);
+  });
+});
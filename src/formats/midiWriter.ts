@@ -0,0 +1,296 @@
+import type { KeySignature, Melody, MelodyEvent } from '@lib/components/Chart';
+import type { UserInputEvent } from '@lib/playbackStore';
+import { getEventVelocities } from '@lib/utils/dynamicsUtils';
+import { getEventPitches, getTiedDuration, isTiedFromPrevious } from '@lib/utils/melodyUtils';
+import { noteNameToMidi } from '@lib/utils/musicUtils';
+import { DEFAULT_TEMPO, getTempoAt } from '@lib/utils/tempoUtils';
+
+const TICKS_PER_QUARTER = 480;
+const DEFAULT_VELOCITY = 80;
+// A channel per track, leaving out channel 10 (9 here), which General MIDI keeps for drums
+const CHANNELS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 10, 11, 12, 13, 14, 15];
+
+interface MidiWriteOptions {
+  tempo: number; // BPM; for a melody, the global tempo its tempo map is scaled by
+  title?: string;
+  ratio?: [number, number];
+  key?: KeySignature;
+}
+
+interface TimedMessage {
+  tick: number;
+  bytes: number[];
+}
+
+interface MidiTrackData {
+  messages: TimedMessage[];
+  endTick: number; // the track ends here or at its last message, whichever is later
+}
+
+function varLen(value: number): number[] {
+  let v = Math.max(0, Math.round(value));
+  const bytes = [v & 0x7f];
+  v >>= 7;
+  while (v > 0) {
+    bytes.unshift((v & 0x7f) | 0x80);
+    v >>= 7;
+  }
+  return bytes;
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function textBytes(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+function metaEvent(type: number, data: number[]): number[] {
+  return [0xff, type, ...varLen(data.length), ...data];
+}
+
+function tempoMessage(tick: number, bpm: number): TimedMessage {
+  const microsPerQuarter = Math.round(60000000 / bpm);
+  return {
+    tick,
+    bytes: metaEvent(0x51, [
+      (microsPerQuarter >> 16) & 0xff,
+      (microsPerQuarter >> 8) & 0xff,
+      microsPerQuarter & 0xff,
+    ]),
+  };
+}
+
+function timeSignatureMessage(tick: number, [beats, beatValue]: [number, number]): TimedMessage {
+  // Denominator is stored as a power of two; 24 clocks per click, 8 32nds per quarter
+  return { tick, bytes: metaEvent(0x58, [beats, Math.round(Math.log2(beatValue)), 24, 8]) };
+}
+
+/**
+ * Meta events every exported track starts with: name, tempo, time and key signature
+ */
+function headerMessages(options: MidiWriteOptions): TimedMessage[] {
+  const messages: TimedMessage[] = [];
+
+  if (options.title) {
+    messages.push({ tick: 0, bytes: metaEvent(0x03, textBytes(options.title)) });
+  }
+
+  messages.push(tempoMessage(0, options.tempo));
+
+  if (options.ratio) {
+    messages.push(timeSignatureMessage(0, options.ratio));
+  }
+
+  if (options.key) {
+    // Sharps or flats as a signed byte, then 0 = major, 1 = minor
+    messages.push({
+      tick: 0,
+      bytes: metaEvent(0x59, [options.key.fifths & 0xff, options.key.mode === 'minor' ? 1 : 0]),
+    });
+  }
+
+  return messages;
+}
+
+function noteMessages(
+  midi: number,
+  startTick: number,
+  endTick: number,
+  velocity: number,
+  channel = CHANNELS[0],
+): TimedMessage[] {
+  return [
+    { tick: startTick, bytes: [0x90 | channel, midi, velocity] },
+    { tick: Math.max(startTick + 1, endTick), bytes: [0x80 | channel, midi, 0] },
+  ];
+}
+
+/**
+ * Track chunk of absolute-time messages
+ */
+function trackChunk({ messages, endTick }: MidiTrackData): number[] {
+  // Stable sort keeps meta events first and note-offs before note-ons on the same tick
+  const sorted = messages
+    .map((message, order) => ({ message, order }))
+    .sort((a, b) => {
+      if (a.message.tick !== b.message.tick) {
+        return a.message.tick - b.message.tick;
+      }
+      const aIsOff = (a.message.bytes[0] & 0xf0) === 0x80 ? 0 : 1;
+      const bIsOff = (b.message.bytes[0] & 0xf0) === 0x80 ? 0 : 1;
+      const aIsMeta = a.message.bytes[0] === 0xff ? -1 : 0;
+      const bIsMeta = b.message.bytes[0] === 0xff ? -1 : 0;
+      return aIsMeta - bIsMeta || aIsOff - bIsOff || a.order - b.order;
+    })
+    .map(({ message }) => message);
+
+  const trackData: number[] = [];
+  let lastTick = 0;
+  sorted.forEach(({ tick, bytes }) => {
+    trackData.push(...varLen(tick - lastTick), ...bytes);
+    lastTick = tick;
+  });
+  trackData.push(...varLen(Math.max(0, endTick - lastTick)), ...metaEvent(0x2f, []));
+
+  return [...textBytes('MTrk'), ...uint32(trackData.length), ...trackData];
+}
+
+/**
+ * Build a Standard MIDI File: format 0 for a single track, format 1 (tracks played together,
+ * the first one holding the tempo map) for several
+ */
+function buildMidiFile(tracks: MidiTrackData[]): Uint8Array<ArrayBuffer> {
+  const header = [
+    ...textBytes('MThd'),
+    ...uint32(6),
+    0x00,
+    tracks.length > 1 ? 0x01 : 0x00, // format
+    (tracks.length >> 8) & 0xff,
+    tracks.length & 0xff,
+    (TICKS_PER_QUARTER >> 8) & 0xff,
+    TICKS_PER_QUARTER & 0xff,
+  ];
+
+  return new Uint8Array([...header, ...tracks.flatMap(trackChunk)]);
+}
+
+function toMidiNumber(note: string): number {
+  const midi = noteNameToMidi(note);
+  if (midi === null || midi < 0 || midi > 127) {
+    throw new Error(`Cannot export note "${note}" to MIDI.`);
+  }
+  return midi;
+}
+
+/**
+ * Tempos to write for the tempo map of a melody, from its start: one at every change,
+ * and one per beat of a gradual change, at the tempo halfway through the beat
+ */
+function getTempoPoints(melody: Melody): { beat: number; bpm: number }[] {
+  const points = [{ beat: 0, bpm: getTempoAt(melody, 0) }];
+  const setPoint = (beat: number, bpm: number) => {
+    if (points[points.length - 1]?.beat === beat) {
+      points.pop();
+    }
+    points.push({ beat, bpm });
+  };
+
+  let previousBeat = 0;
+  (melody.tempoChanges ?? []).forEach((change) => {
+    if (change.ramp) {
+      for (let beat = previousBeat; beat < change.beat; beat += 1) {
+        setPoint(beat, getTempoAt(melody, Math.min(beat + 0.5, (beat + change.beat) / 2)));
+      }
+    }
+    setPoint(change.beat, change.bpm);
+    previousBeat = change.beat;
+  });
+
+  return points;
+}
+
+/**
+ * Note messages of one line of events on a channel, with velocities following its dynamics
+ */
+function eventMessages(events: MelodyEvent[], channel: number): MidiTrackData {
+  const messages: TimedMessage[] = [];
+  const velocities = getEventVelocities(events);
+
+  let tick = 0;
+  events.forEach((event, index) => {
+    const length = Math.round(event.duration * TICKS_PER_QUARTER);
+    // Chord notes start and end together; a tie chain is one long note; rests only move time forward
+    if (!isTiedFromPrevious(events, index)) {
+      const soundingLength = Math.round(getTiedDuration(events, index) * TICKS_PER_QUARTER);
+      getEventPitches(event).forEach((pitch) => {
+        messages.push(
+          ...noteMessages(
+            toMidiNumber(pitch),
+            tick,
+            tick + soundingLength,
+            velocities[index] ?? DEFAULT_VELOCITY,
+            channel,
+          ),
+        );
+      });
+    }
+    tick += length;
+  });
+
+  // Keep trailing rests by ending the track after them
+  return { messages, endTick: tick };
+}
+
+/**
+ * Serialize a melody with its tempo map scaled by the given tempo and its time signatures,
+ * and its tracks alongside the main line in a format 1 file
+ */
+export function melodyToMidi(melody: Melody, options: MidiWriteOptions): Uint8Array<ArrayBuffer> {
+  const scale = options.tempo / DEFAULT_TEMPO;
+  const [start, ...tempoPoints] = getTempoPoints(melody);
+  const messages = [
+    ...headerMessages({
+      ...options,
+      tempo: start.bpm * scale,
+      ratio: melody.ratio,
+      key: melody.key,
+    }),
+    ...tempoPoints.map(({ beat, bpm }) =>
+      tempoMessage(Math.round(beat * TICKS_PER_QUARTER), bpm * scale),
+    ),
+    ...(melody.meterChanges ?? []).map((change) =>
+      timeSignatureMessage(Math.round(change.beat * TICKS_PER_QUARTER), change.ratio),
+    ),
+  ];
+
+  const main = eventMessages(melody.notes, CHANNELS[0]);
+
+  // Each further track goes on a track and channel of its own, named after it
+  const tracks = (melody.tracks ?? []).map((track, index) => {
+    const channel = CHANNELS[Math.min(index + 1, CHANNELS.length - 1)];
+    const { messages: notes, endTick } = eventMessages(track.notes, channel);
+    return {
+      messages: [{ tick: 0, bytes: metaEvent(0x03, textBytes(track.name)) }, ...notes],
+      endTick,
+    };
+  });
+
+  return buildMidiFile([
+    { messages: [...messages, ...main.messages], endTick: main.endTick },
+    ...tracks,
+  ]);
+}
+
+/**
+ * Serialize recorded key presses; timestamps are mapped to ticks using the given tempo
+ */
+export function userInputToMidi(
+  events: UserInputEvent[],
+  options: MidiWriteOptions,
+  endTime: number = Date.now(),
+): Uint8Array<ArrayBuffer> {
+  const messages = headerMessages(options);
+
+  if (events.length > 0) {
+    const startTime = Math.min(...events.map((event) => event.pressTime));
+    const ticksPerMs = (TICKS_PER_QUARTER * options.tempo) / 60000;
+    const toTick = (time: number) => Math.round((time - startTime) * ticksPerMs);
+
+    events.forEach((event) => {
+      // Notes still held are released at export time
+      const releaseTime = event.releaseTime ?? endTime;
+      messages.push(
+        ...noteMessages(
+          toMidiNumber(event.note),
+          toTick(event.pressTime),
+          toTick(releaseTime),
+          DEFAULT_VELOCITY,
+        ),
+      );
+    });
+  }
+
+  return buildMidiFile([{ messages, endTick: 0 }]);
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Melody } from '@lib/components/Chart';
+
+import { melodyToMusicXml } from './musicXml';
+
+const melody: Melody = {
+  ratio: [4, 4],
+  trackName: 'Right hand',
+  notes: [
+    { note: 'C5', duration: 2 },
+    { note: 'G5', duration: 2 },
+    { note: 'A5', duration: 4 },
+  ],
+  tracks: [
+    {
+      id: 'lh',
+      name: 'Left hand',
+      clef: 'bass',
+      notes: [{ notes: ['C3', 'G3'], duration: 4 }],
+    },
+  ],
+};
+
+describe('melodyToMusicXml', () => {
+  it('writes each track as a MusicXML part filled up to the longest one', () => {
+    const xml = melodyToMusicXml(melody, { title: 'Twinkle' });
+
+    expect(xml).toContain('<score-part id="P1"><part-name>Right hand</part-name></score-part>');
+    expect(xml).toContain('<score-part id="P2"><part-name>Left hand</part-name></score-part>');
+    const bass = xml.slice(xml.indexOf('<part id="P2">'));
+    expect(bass).toContain('<clef><sign>F</sign><line>4</line></clef>');
+    expect(bass.match(/<measure /g)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,938 @@
+import type {
+  DynamicLevel,
+  DynamicsNotation,
+  HairpinMark,
+  KeySignature,
+  Lyric,
+  Melody,
+  MelodyEvent,
+  MelodyTrack,
+  MeterChange,
+  RhythmNotation,
+  TempoChange,
+  TupletMark,
+} from '@lib/components/Chart';
+import type { Clef } from '@lib/components/Chart/staffUtils';
+import {
+  clampVelocity,
+  DYNAMIC_LEVELS,
+  DYNAMIC_VELOCITIES,
+  getHairpinSpans,
+} from '@lib/utils/dynamicsUtils';
+import {
+  createPitchedEvent,
+  getEventPitches,
+  getExpression,
+  getRhythmNotation,
+  isRest,
+  isTiedFromPrevious,
+} from '@lib/utils/melodyUtils';
+import { formatNoteName, midiToNoteName, parseNoteName } from '@lib/utils/musicUtils';
+import {
+  getDottedBeats,
+  getMeasureDuration,
+  getMeasures,
+  getNoteValue,
+  getWrittenValue,
+  NOTE_VALUE_BEATS,
+} from '@lib/utils/rhythmUtils';
+import type { NoteValue, NoteValueType } from '@lib/utils/rhythmUtils';
+import { DEFAULT_TEMPO } from '@lib/utils/tempoUtils';
+
+import { readZip, writeZip } from './zip';
+
+/**
+ * Thrown when a document is not a MusicXML score we can read
+ */
+export class MusicXmlImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MusicXmlImportError';
+  }
+}
+
+export interface MusicXmlPart {
+  id: string;
+  name: string;
+  melody: Melody;
+  warnings: string[];
+}
+
+export interface MusicXmlScore {
+  title: string;
+  composer: string;
+  parts: MusicXmlPart[]; // Only parts that contain notes
+}
+
+interface MusicXmlMetadata {
+  title: string;
+  composer?: string;
+}
+
+const STEP_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+const MXL_ROOT_FILE = 'score.musicxml';
+const MXL_MIME_TYPE = 'application/vnd.recordare.musicxml';
+const EPSILON = 1e-6;
+const VELOCITY_PER_PERCENT = 0.9; // MusicXML dynamics are a percentage of velocity 90
+
+// Markings beyond the supported range are read as the nearest one
+const DYNAMIC_ALIASES: Record<string, DynamicLevel> = {
+  pppppp: 'pp',
+  ppppp: 'pp',
+  pppp: 'pp',
+  ppp: 'pp',
+  fff: 'ff',
+  ffff: 'ff',
+  fffff: 'ff',
+  ffffff: 'ff',
+};
+
+// Words starting a gradual change of tempo, which reaches the next tempo mark
+const RAMP_WORDS = /^(rit|rall|accel|string)/i;
+
+const childElements = (element: Element, name: string): Element[] =>
+  Array.from(element.children).filter((child) => child.localName === name);
+
+const childElement = (element: Element, name: string): Element | undefined =>
+  childElements(element, name)[0];
+
+const childText = (element: Element, name: string): string | undefined =>
+  childElement(element, name)?.textContent?.trim() || undefined;
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new MusicXmlImportError('The file is not well-formed XML.');
+  }
+  return doc;
+}
+
+function parsePitch(pitch: Element): string {
+  const step = childText(pitch, 'step')?.toUpperCase() ?? '';
+  const alter = Math.round(parseFloat(childText(pitch, 'alter') ?? '0'));
+  const octave = parseInt(childText(pitch, 'octave') ?? '', 10);
+
+  if (!(step in STEP_SEMITONES) || Number.isNaN(octave)) {
+    throw new MusicXmlImportError('A note has an invalid <pitch> element.');
+  }
+
+  // Keep the written spelling; alterations beyond a double sharp or flat are respelled
+  return Math.abs(alter) <= 2
+    ? formatNoteName({ letter: step, alter, octave })
+    : midiToNoteName((octave + 1) * 12 + STEP_SEMITONES[step] + alter);
+}
+
+function parseKey(key: Element): KeySignature | null {
+  const fifths = parseInt(childText(key, 'fifths') ?? '', 10);
+  if (Number.isNaN(fifths)) {
+    // Non-traditional keys (<key-step>/<key-alter>) are not supported
+    return null;
+  }
+  return { fifths, mode: childText(key, 'mode') === 'minor' ? 'minor' : 'major' };
+}
+
+/**
+ * Tempo of a <metronome> mark in quarter notes per minute, e.g. 60 for a dotted quarter = 40
+ */
+function parseMetronome(metronome: Element): number | null {
+  const unit = childText(metronome, 'beat-unit') as NoteValueType | undefined;
+  const perMinute = parseFloat(childText(metronome, 'per-minute') ?? '');
+  if (!unit || !(unit in NOTE_VALUE_BEATS) || !(perMinute > 0)) {
+    return null;
+  }
+  return perMinute * getDottedBeats(unit, childElements(metronome, 'beat-unit-dot').length);
+}
+
+/**
+ * Written rhythm of a <note>: dots, tuplet membership and a tie into the next note
+ */
+function parseRhythm(note: Element): RhythmNotation {
+  const rhythm: RhythmNotation = {};
+
+  const dots = childElements(note, 'dot').length;
+  if (dots > 0) {
+    rhythm.dots = dots;
+  }
+
+  if (childElements(note, 'tie').some((tie) => tie.getAttribute('type') === 'start')) {
+    rhythm.tie = true;
+  }
+
+  const modification = childElement(note, 'time-modification');
+  const actual = modification && parseInt(childText(modification, 'actual-notes') ?? '', 10);
+  const normal = modification && parseInt(childText(modification, 'normal-notes') ?? '', 10);
+  if (actual && normal) {
+    const marks = childElements(note, 'notations')
+      .flatMap((notations) => childElements(notations, 'tuplet'))
+      .map((tuplet) => tuplet.getAttribute('type'));
+    const tuplet: TupletMark = { actual, normal };
+    if (marks.includes('start')) {
+      tuplet.start = true;
+    }
+    if (marks.includes('stop')) {
+      tuplet.end = true;
+    }
+    rhythm.tuplet = tuplet;
+  }
+
+  return rhythm;
+}
+
+const readDynamic = (name: string): DynamicLevel | null =>
+  (DYNAMIC_LEVELS as string[]).includes(name)
+    ? (name as DynamicLevel)
+    : (DYNAMIC_ALIASES[name] ?? null);
+
+/**
+ * Syllable of the first verse of a <note>, and whether the note has further verses
+ */
+function parseLyric(note: Element): { lyric: Lyric | null; hasVerses: boolean } {
+  const lyrics = childElements(note, 'lyric');
+  const first = lyrics.find((lyric) => (lyric.getAttribute('number') ?? '1') === '1') ?? lyrics[0];
+  // Elided syllables ("text elision text") are sung on one note
+  const text = first
+    ? childElements(first, 'text')
+        .map((element) => element.textContent?.trim() ?? '')
+        .join(' ')
+        .trim()
+    : '';
+  if (!first || !text) {
+    return { lyric: null, hasVerses: lyrics.length > 1 };
+  }
+
+  const lyric: Lyric = { text };
+  const syllabic = childText(first, 'syllabic');
+  if (syllabic === 'begin' || syllabic === 'middle') {
+    lyric.hyphen = true;
+  }
+  const extend = childElement(first, 'extend');
+  if (extend && extend.getAttribute('type') !== 'stop') {
+    lyric.extend = true;
+  }
+  return { lyric, hasVerses: lyrics.length > 1 };
+}
+
+/**
+ * Convert one <part> into a melody (chords included), following its first voice
+ */
+function parsePart(part: Element): { melody: Melody; warnings: string[] } {
+  const notes: MelodyEvent[] = [];
+  let divisions = 1;
+  let ratio: [number, number] | null = null;
+  let key: KeySignature | null = null;
+  let primaryVoice: string | null = null;
+  const meterChanges: MeterChange[] = [];
+  const tempoMarks: TempoChange[] = []; // from the start: the first one at beat 0 is the tempo
+  let isRamping = false; // a rit. or accel. was written: the next tempo is reached gradually
+
+  let skippedVoiceNotes = 0;
+  let skippedGraceNotes = 0;
+  let ignoredKeyChanges = 0;
+  let skippedDynamics = 0;
+  let hasVerses = false;
+
+  // <direction> marks wait for the next event
+  let pendingDynamic: DynamicLevel | null = null;
+  let wedge: { type: HairpinMark['type']; started: boolean } | null = null;
+
+  const takeDynamics = (): DynamicsNotation => {
+    const dynamics: DynamicsNotation = {};
+    if (pendingDynamic) {
+      dynamics.dynamic = pendingDynamic;
+      pendingDynamic = null;
+    }
+    if (wedge) {
+      dynamics.hairpin = wedge.started ? { type: wedge.type } : { type: wedge.type, start: true };
+      wedge.started = true;
+    }
+    return dynamics;
+  };
+
+  const closeWedge = () => {
+    const last = notes[notes.length - 1];
+    if (wedge?.started && last?.hairpin) {
+      last.hairpin = { ...last.hairpin, end: true };
+    }
+    wedge = null;
+  };
+
+  // Beat the next event of the primary voice starts on
+  const getBeat = () => notes.reduce((sum, event) => sum + event.duration, 0);
+
+  const addTempo = (bpm: number) => {
+    const beat = getBeat();
+    if (tempoMarks[tempoMarks.length - 1]?.beat === beat) {
+      tempoMarks.pop();
+    }
+    tempoMarks.push({ beat, bpm, ...(isRamping ? { ramp: true } : {}) });
+    isRamping = false;
+  };
+
+  // A gradual change starts from the tempo in effect where it is written
+  const startRamp = () => {
+    const beat = getBeat();
+    const last = tempoMarks[tempoMarks.length - 1];
+    if (last?.beat !== beat && !isRamping) {
+      tempoMarks.push({ beat, bpm: last?.bpm ?? DEFAULT_TEMPO });
+    }
+    isRamping = true;
+  };
+
+  const addRest = (duration: number, rhythm: RhythmNotation & DynamicsNotation = {}) => {
+    const previous = notes[notes.length - 1];
+    const isPlain = (notation: object) => Object.keys(notation).length === 0;
+    // Consecutive plain rests (e.g. a rest followed by <forward>) become one
+    if (
+      previous &&
+      isRest(previous) &&
+      isPlain(rhythm) &&
+      isPlain(getRhythmNotation(previous)) &&
+      isPlain(getExpression(previous))
+    ) {
+      previous.duration += duration;
+    } else if (duration > 0) {
+      notes.push({ rest: true, duration, ...rhythm });
+    }
+  };
+
+  childElements(part, 'measure').forEach((measure) => {
+    Array.from(measure.children).forEach((element) => {
+      if (element.localName === 'attributes') {
+        const divisionsText = childText(element, 'divisions');
+        if (divisionsText) {
+          divisions = parseInt(divisionsText, 10) || divisions;
+        }
+
+        const time = childElement(element, 'time');
+        const beats = time && childText(time, 'beats');
+        const beatType = time && childText(time, 'beat-type');
+        if (beats && beatType) {
+          // Composite meters like "3+2" are summed
+          const beatCount = beats.split('+').reduce((acc, n) => acc + parseInt(n, 10), 0);
+          const next: [number, number] = [beatCount, parseInt(beatType, 10)];
+          const current = meterChanges[meterChanges.length - 1]?.ratio ?? ratio;
+          if (!ratio) {
+            ratio = next;
+          } else if (current && (current[0] !== next[0] || current[1] !== next[1])) {
+            meterChanges.push({ beat: getBeat(), ratio: next });
+          }
+        }
+
+        const keyElement = childElement(element, 'key');
+        const nextKey = keyElement && parseKey(keyElement);
+        if (nextKey) {
+          if (!key) {
+            key = nextKey;
+          } else if (key.fifths !== nextKey.fifths || key.mode !== nextKey.mode) {
+            ignoredKeyChanges += 1;
+          }
+        }
+        return;
+      }
+
+      if (element.localName === 'sound') {
+        const tempo = parseFloat(element.getAttribute('tempo') ?? '');
+        if (tempo > 0) {
+          addTempo(tempo);
+        }
+        return;
+      }
+
+      if (element.localName === 'direction') {
+        // <sound tempo> is what plays; a <metronome> mark alone stands for it
+        const soundTempo = parseFloat(childElement(element, 'sound')?.getAttribute('tempo') ?? '');
+        let tempo = soundTempo > 0 ? soundTempo : null;
+
+        childElements(element, 'direction-type').forEach((directionType) => {
+          const metronome = childElement(directionType, 'metronome');
+          tempo ??= metronome ? parseMetronome(metronome) : null;
+          if (
+            childElements(directionType, 'words').some((words) =>
+              RAMP_WORDS.test(words.textContent?.trim() ?? ''),
+            )
+          ) {
+            startRamp();
+          }
+
+          childElements(directionType, 'dynamics').forEach((dynamics) => {
+            Array.from(dynamics.children).forEach((mark) => {
+              const dynamic = readDynamic(mark.localName);
+              if (dynamic) {
+                pendingDynamic = dynamic;
+              } else {
+                skippedDynamics += 1;
+              }
+            });
+          });
+
+          const wedgeType = childElement(directionType, 'wedge')?.getAttribute('type');
+          if (wedgeType === 'crescendo' || wedgeType === 'diminuendo') {
+            closeWedge();
+            wedge = {
+              type: wedgeType === 'crescendo' ? 'crescendo' : 'decrescendo',
+              started: false,
+            };
+          } else if (wedgeType === 'stop') {
+            closeWedge();
+          }
+        });
+        if (tempo !== null) {
+          addTempo(tempo);
+        }
+        return;
+      }
+
+      if (element.localName === 'forward') {
+        const voice = childText(element, 'voice');
+        if (!voice || voice === primaryVoice) {
+          addRest(parseInt(childText(element, 'duration') ?? '0', 10) / divisions, takeDynamics());
+        }
+        return;
+      }
+
+      if (element.localName !== 'note') {
+        return;
+      }
+
+      if (childElement(element, 'grace') || childElement(element, 'cue')) {
+        skippedGraceNotes += 1;
+        return;
+      }
+
+      const voice = childText(element, 'voice') ?? '1';
+      primaryVoice ??= voice;
+      if (voice !== primaryVoice) {
+        skippedVoiceNotes += 1;
+        return;
+      }
+
+      const duration = parseInt(childText(element, 'duration') ?? '0', 10) / divisions;
+      const isChord = !!childElement(element, 'chord');
+      const rhythm = parseRhythm(element);
+
+      if (childElement(element, 'rest')) {
+        if (!isChord) {
+          // Rests cannot be tied
+          const { tie: _tie, ...restRhythm } = rhythm;
+          addRest(duration, { ...restRhythm, ...takeDynamics() });
+        }
+        return;
+      }
+
+      const pitch = childElement(element, 'pitch');
+      if (!pitch) {
+        // Unpitched (percussion) notes have no place in a melody
+        skippedVoiceNotes += 1;
+        return;
+      }
+
+      const note = parsePitch(pitch);
+      const previous = notes[notes.length - 1];
+
+      if (isChord && previous && !isRest(previous)) {
+        // <chord/> adds a pitch to the note before it; a tie on any chord note ties the chord
+        const notation = {
+          ...getRhythmNotation(previous),
+          ...getExpression(previous),
+          ...(previous.lyric ? { lyric: previous.lyric } : {}),
+        };
+        if (rhythm.tie) {
+          notation.tie = true;
+        }
+        notes[notes.length - 1] = createPitchedEvent(
+          [...getEventPitches(previous), note],
+          previous.duration,
+          notation,
+        );
+        return;
+      }
+
+      // Tied notes stay separate events; the engines play them as one sound
+      const percent = parseFloat(element.getAttribute('dynamics') ?? '');
+      const velocity = Number.isNaN(percent)
+        ? {}
+        : { velocity: clampVelocity(percent * VELOCITY_PER_PERCENT) };
+      const { lyric, hasVerses: noteHasVerses } = parseLyric(element);
+      hasVerses ||= noteHasVerses;
+      notes.push(
+        createPitchedEvent([note], duration, {
+          ...rhythm,
+          ...takeDynamics(),
+          ...velocity,
+          ...(lyric ? { lyric } : {}),
+        }),
+      );
+    });
+  });
+  closeWedge();
+
+  const warnings: string[] = [];
+  if (skippedVoiceNotes > 0) {
+    warnings.push(`${skippedVoiceNotes} note(s) in other voices were skipped.`);
+  }
+  if (skippedGraceNotes > 0) {
+    warnings.push(`${skippedGraceNotes} grace or cue note(s) were skipped.`);
+  }
+  if (ignoredKeyChanges > 0) {
+    warnings.push('Key signature changes are not supported; the first key signature is shown.');
+  }
+  if (hasVerses) {
+    warnings.push('Only the first verse of the lyrics is kept.');
+  }
+  if (skippedDynamics > 0) {
+    warnings.push(`${skippedDynamics} unsupported dynamic marking(s), such as sfz, were skipped.`);
+  }
+
+  // A tempo at the very start is the written tempo
+  const [first, ...laterMarks] = tempoMarks;
+  const tempo = first?.beat === 0 && !first.ramp ? first.bpm : undefined;
+  const tempoChanges = tempo !== undefined ? laterMarks : tempoMarks;
+
+  return {
+    melody: {
+      ratio: ratio ?? [4, 4],
+      notes,
+      ...(key ? { key } : {}),
+      ...(tempo !== undefined ? { tempo } : {}),
+      ...(tempoChanges.length > 0 ? { tempoChanges } : {}),
+      ...(meterChanges.length > 0 ? { meterChanges } : {}),
+    },
+    warnings,
+  };
+}
+
+/**
+ * Parse an uncompressed partwise MusicXML document
+ */
+export function parseMusicXml(text: string): MusicXmlScore {
+  const root = parseXml(text).documentElement;
+
+  if (root.localName === 'score-timewise') {
+    throw new MusicXmlImportError(
+      'Timewise MusicXML is not supported. Please export the score as partwise MusicXML.',
+    );
+  }
+  if (root.localName !== 'score-partwise') {
+    throw new MusicXmlImportError('This is not a MusicXML score (missing <score-partwise>).');
+  }
+
+  const work = childElement(root, 'work');
+  const title = (work && childText(work, 'work-title')) || childText(root, 'movement-title') || '';
+
+  const identification = childElement(root, 'identification');
+  const composer =
+    (identification &&
+      childElements(identification, 'creator')
+        .find((creator) => creator.getAttribute('type') === 'composer')
+        ?.textContent?.trim()) ||
+    '';
+
+  const partNames = new Map<string, string>();
+  const partList = childElement(root, 'part-list');
+  if (partList) {
+    childElements(partList, 'score-part').forEach((scorePart) => {
+      partNames.set(scorePart.getAttribute('id') ?? '', childText(scorePart, 'part-name') ?? '');
+    });
+  }
+
+  const parts = childElements(root, 'part')
+    .map((part, index) => {
+      const id = part.getAttribute('id') ?? `P${index + 1}`;
+      return { id, name: partNames.get(id) || `Part ${index + 1}`, ...parsePart(part) };
+    })
+    .filter((part) => part.melody.notes.length > 0);
+
+  if (parts.length === 0) {
+    throw new MusicXmlImportError('The score does not contain any pitched notes.');
+  }
+
+  return { title, composer, parts };
+}
+
+/**
+ * Extract the main score document from a compressed .mxl archive
+ */
+export async function readMxl(buffer: ArrayBuffer): Promise<string> {
+  let entries;
+  try {
+    entries = await readZip(buffer);
+  } catch (err) {
+    throw new MusicXmlImportError(
+      `Could not open the .mxl archive: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  const decoder = new TextDecoder();
+  const container = entries.find((entry) => entry.name === 'META-INF/container.xml');
+  const rootPath = container
+    ? parseXml(decoder.decode(container.data))
+        .getElementsByTagName('rootfile')[0]
+        ?.getAttribute('full-path')
+    : undefined;
+
+  const rootEntry =
+    entries.find((entry) => entry.name === rootPath) ??
+    entries.find(
+      (entry) => !entry.name.startsWith('META-INF/') && /\.(musicxml|xml)$/i.test(entry.name),
+    );
+
+  if (!rootEntry) {
+    throw new MusicXmlImportError('The .mxl archive does not contain a MusicXML score.');
+  }
+
+  return decoder.decode(rootEntry.data);
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Smallest divisions-per-quarter that represents every duration as an integer
+ */
+function getDivisions(durations: number[]): number {
+  for (let divisions = 1; divisions <= 960; divisions++) {
+    if (durations.every((d) => Math.abs(d * divisions - Math.round(d * divisions)) < EPSILON)) {
+      return divisions;
+    }
+  }
+  return 480;
+}
+
+function pitchXml(note: string): string {
+  const parsed = parseNoteName(note);
+  if (!parsed) {
+    throw new Error(`Cannot export note "${note}" to MusicXML.`);
+  }
+
+  const alter = parsed.alter !== 0 ? `<alter>${parsed.alter}</alter>` : '';
+  return `<pitch><step>${parsed.letter}</step>${alter}<octave>${parsed.octave}</octave></pitch>`;
+}
+
+interface NoteXmlOptions {
+  value: NoteValue | null; // written value; omitted from the output when null
+  tieStart?: boolean;
+  tieStop?: boolean;
+  isChordNote?: boolean; // a chord note after the first, marked <chord/>
+  tuplet?: TupletMark;
+  velocity?: number; // written as the dynamics attribute
+  lyric?: { text: string; syllabic: string; extend: boolean };
+}
+
+/**
+ * A <note> element; `note` is null for a rest
+ */
+function noteXml(
+  note: string | null,
+  duration: number,
+  divisions: number,
+  options: NoteXmlOptions,
+): string {
+  const ties: string[] = [];
+  const notations: string[] = [];
+  if (options.tieStop) {
+    ties.push('<tie type="stop"/>');
+    notations.push('<tied type="stop"/>');
+  }
+  if (options.tieStart) {
+    ties.push('<tie type="start"/>');
+    notations.push('<tied type="start"/>');
+  }
+
+  let timeModification = '';
+  const { tuplet } = options;
+  if (tuplet) {
+    timeModification = `<time-modification><actual-notes>${tuplet.actual}</actual-notes><normal-notes>${tuplet.normal}</normal-notes></time-modification>`;
+    // Only the first note of a chord carries the bracket
+    if (tuplet.start && !options.isChordNote) {
+      notations.push('<tuplet type="start" bracket="yes"/>');
+    }
+    if (tuplet.end && !options.isChordNote) {
+      notations.push('<tuplet type="stop"/>');
+    }
+  }
+
+  const { value } = options;
+  const type = value ? `<type>${value.type}</type>${'<dot/>'.repeat(value.dots)}` : '';
+  const notationsXml = notations.length > 0 ? `<notations>${notations.join('')}</notations>` : '';
+
+  const content = `${options.isChordNote ? '<chord/>' : ''}${note === null ? '<rest/>' : pitchXml(note)}`;
+  const dynamics =
+    options.velocity !== undefined
+      ? ` dynamics="${Math.round((options.velocity / VELOCITY_PER_PERCENT) * 100) / 100}"`
+      : '';
+  const { lyric } = options;
+  const lyricXml = lyric
+    ? `<lyric number="1"><syllabic>${lyric.syllabic}</syllabic><text>${escapeXml(lyric.text)}</text>${lyric.extend ? '<extend/>' : ''}</lyric>`
+    : '';
+  return `      <note${dynamics}>${content}<duration>${Math.round(duration * divisions)}</duration>${ties.join('')}<voice>1</voice>${type}${timeModification}${notationsXml}${lyricXml}</note>`;
+}
+
+const directionXml = (content: string, sound = '', placement = 'below') =>
+  `      <direction placement="${placement}"><direction-type>${content}</direction-type>${sound}</direction>`;
+
+const timeXml = ([beats, beatType]: [number, number]) =>
+  `<time><beats>${beats}</beats><beat-type>${beatType}</beat-type></time>`;
+
+/**
+ * Tempo directions of a melody with the beat each goes before: a metronome mark for the tempo
+ * and every change of it, and "rit." or "accel." where a gradual change sets off
+ */
+function getTempoDirections(melody: Melody): { beat: number; xml: string }[] {
+  const directions: { beat: number; xml: string }[] = [];
+  const addMark = (beat: number, bpm: number) => {
+    const perMinute = Math.round(bpm * 100) / 100;
+    directions.push({
+      beat,
+      xml: directionXml(
+        `<metronome><beat-unit>quarter</beat-unit><per-minute>${perMinute}</per-minute></metronome>`,
+        `<sound tempo="${perMinute}"/>`,
+        'above',
+      ),
+    });
+  };
+
+  if (melody.tempo !== undefined) {
+    addMark(0, melody.tempo);
+  }
+  let previous = { beat: 0, bpm: melody.tempo ?? DEFAULT_TEMPO };
+  (melody.tempoChanges ?? []).forEach((change) => {
+    if (change.ramp) {
+      const words = change.bpm < previous.bpm ? 'rit.' : 'accel.';
+      directions.push({
+        beat: previous.beat,
+        xml: directionXml(`<words>${words}</words>`, '', 'above'),
+      });
+    }
+    if (change.ramp || change.bpm !== previous.bpm) {
+      addMark(change.beat, change.bpm);
+    }
+    previous = change;
+  });
+
+  // Stable: a mark stays before the words of a ramp setting off from it
+  return directions.sort((a, b) => a.beat - b.beat);
+}
+
+interface PartLayout {
+  getMeasureEnd: (index: number) => number;
+  totalBeats: number; // every part is filled up to this beat with rests
+  divisions: number;
+}
+
+/**
+ * The notes and directions of each measure of one part. Tempo directions are written in the
+ * part they are given to, the first one.
+ */
+function partMeasures(
+  events: MelodyEvent[],
+  { getMeasureEnd, totalBeats, divisions }: PartLayout,
+  tempoDirections: { beat: number; xml: string }[] = [],
+): string[][] {
+  const length = events.reduce((sum, event) => sum + event.duration, 0);
+  const notes: MelodyEvent[] =
+    totalBeats - length > EPSILON
+      ? [...events, { rest: true, duration: totalBeats - length }]
+      : events;
+  const hairpins = getHairpinSpans(notes);
+
+  const measures: string[][] = [[]];
+  let beat = 0;
+  let inWord = false; // the previous syllable was hyphenated
+
+  notes.forEach((event, index) => {
+    let remaining = event.duration;
+    let isContinuation = false;
+
+    // Syllables are written on the first piece of the event
+    let lyric: NoteXmlOptions['lyric'];
+    if (!isRest(event) && event.lyric) {
+      const hyphen = !!event.lyric.hyphen;
+      lyric = {
+        text: event.lyric.text,
+        syllabic: inWord ? (hyphen ? 'middle' : 'end') : hyphen ? 'begin' : 'single',
+        extend: !!event.lyric.extend,
+      };
+      inWord = hyphen;
+    }
+
+    while (remaining > EPSILON) {
+      if (getMeasureEnd(measures.length - 1) - beat < EPSILON) {
+        measures.push([]);
+      }
+
+      // Tempo marks go before the first note at or after their beat
+      const measure = measures[measures.length - 1];
+      while (tempoDirections.length > 0 && tempoDirections[0].beat < beat + EPSILON) {
+        measure.push(tempoDirections.shift()!.xml);
+      }
+
+      // Dynamics and hairpins start with the event
+      if (!isContinuation) {
+        if (event.dynamic) {
+          const percent = Math.round(
+            (DYNAMIC_VELOCITIES[event.dynamic] / VELOCITY_PER_PERCENT) * 100,
+          );
+          measure.push(
+            directionXml(
+              `<dynamics><${event.dynamic}/></dynamics>`,
+              `<sound dynamics="${percent / 100}"/>`,
+            ),
+          );
+        }
+        const hairpin = hairpins.find((span) => span.startIndex === index);
+        if (hairpin) {
+          const type = hairpin.type === 'crescendo' ? 'crescendo' : 'diminuendo';
+          measure.push(directionXml(`<wedge type="${type}"/>`));
+        }
+      }
+
+      const chunk = Math.min(remaining, getMeasureEnd(measures.length - 1) - beat);
+      remaining -= chunk;
+      const isWhole = Math.abs(chunk - event.duration) < EPSILON;
+      // Written marks apply to the event as a whole; split pieces get plain values
+      const value = isWhole ? getWrittenValue(event) : getNoteValue(chunk);
+      const tuplet = isWhole ? event.tuplet : undefined;
+
+      if (isRest(event)) {
+        // Rests split at a bar line are simply two rests; only notes are tied
+        measure.push(noteXml(null, chunk, divisions, { value, tuplet }));
+      } else {
+        const options = {
+          value,
+          tuplet,
+          velocity: event.velocity,
+          tieStop: isContinuation || isTiedFromPrevious(notes, index),
+          tieStart: remaining > EPSILON || isTiedFromPrevious(notes, index + 1),
+        };
+        measure.push(
+          ...getEventPitches(event).map((pitch, i) =>
+            noteXml(pitch, chunk, divisions, {
+              ...options,
+              isChordNote: i > 0,
+              lyric: i === 0 && !isContinuation ? lyric : undefined,
+            }),
+          ),
+        );
+      }
+      beat += chunk;
+      isContinuation = true;
+    }
+
+    // A hairpin stops after its last event
+    if (hairpins.some((span) => span.endIndex === index)) {
+      measures[measures.length - 1].push(directionXml('<wedge type="stop"/>'));
+    }
+  });
+
+  return measures;
+}
+
+const CLEF_XML: Record<Clef, string> = {
+  treble: '<clef><sign>G</sign><line>2</line></clef>',
+  bass: '<clef><sign>F</sign><line>4</line></clef>',
+};
+
+/**
+ * Serialize a melody as a partwise MusicXML document, its main line and each track as a part.
+ * Notes crossing a bar line are split and tied; ties, dots, tuplets, dynamics, lyrics, tempo
+ * marks and time signature changes are written as marked.
+ */
+export function melodyToMusicXml(melody: Melody, metadata: MusicXmlMetadata): string {
+  const parts: Omit<MelodyTrack, 'id'>[] = [
+    { name: melody.trackName ?? 'Melody', notes: melody.notes },
+    ...(melody.tracks ?? []),
+  ];
+  const totalBeats = Math.max(
+    ...parts.map((part) => part.notes.reduce((sum, event) => sum + event.duration, 0)),
+  );
+  const measureStarts = getMeasures(totalBeats, melody.ratio, melody.meterChanges);
+  const layout: PartLayout = {
+    getMeasureEnd: (index) =>
+      measureStarts[index + 1]?.beat ??
+      measureStarts[index].beat + getMeasureDuration(measureStarts[index].ratio),
+    totalBeats,
+    divisions: getDivisions([
+      ...parts.flatMap((part) => part.notes.map((n) => n.duration)),
+      ...measureStarts.map(({ beat, ratio }) => [beat, getMeasureDuration(ratio)]).flat(),
+    ]),
+  };
+
+  // A new time signature is written where the meter changes
+  const getTimeChange = (index: number) => {
+    const ratio = measureStarts[index]?.ratio;
+    const previous = measureStarts[index - 1]?.ratio;
+    return ratio && previous && ratio.join('/') !== previous.join('/')
+      ? [`      <attributes>${timeXml(ratio)}</attributes>`]
+      : [];
+  };
+
+  const partXml = parts.map((part, partIndex) => {
+    const attributes = [
+      '      <attributes>',
+      `        <divisions>${layout.divisions}</divisions>`,
+      melody.key
+        ? `        <key><fifths>${melody.key.fifths}</fifths><mode>${melody.key.mode}</mode></key>`
+        : '        <key><fifths>0</fifths></key>',
+      `        ${timeXml(melody.ratio)}`,
+      `        ${CLEF_XML[part.clef ?? 'treble']}`,
+      '      </attributes>',
+    ];
+    const measures = partMeasures(
+      part.notes,
+      layout,
+      partIndex === 0 ? getTempoDirections(melody) : [],
+    );
+    const measureXml = measures.map((content, index) =>
+      [
+        `    <measure number="${index + 1}">`,
+        ...(index === 0 ? attributes : getTimeChange(index)),
+        ...content,
+        `    </measure>`,
+      ].join('\n'),
+    );
+    return `  <part id="P${partIndex + 1}">\n${measureXml.join('\n')}\n  </part>`;
+  });
+
+  const composer = metadata.composer
+    ? `    <creator type="composer">${escapeXml(metadata.composer)}</creator>\n`
+    : '';
+  const partList = parts.map(
+    (part, index) =>
+      `    <score-part id="P${index + 1}"><part-name>${escapeXml(part.name)}</part-name></score-part>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">
+<score-partwise version="4.0">
+  <work><work-title>${escapeXml(metadata.title)}</work-title></work>
+  <identification>
+${composer}    <encoding><software>nostr-notes</software></encoding>
+  </identification>
+  <part-list>
+${partList.join('\n')}
+  </part-list>
+${partXml.join('\n')}
+</score-partwise>
+`;
+}
+
+/**
+ * Serialize a melody as a compressed MusicXML (.mxl) archive
+ */
+export function melodyToMxl(melody: Melody, metadata: MusicXmlMetadata): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container>
+  <rootfiles>
+    <rootfile full-path="${MXL_ROOT_FILE}" media-type="${MXL_MIME_TYPE}"/>
+  </rootfiles>
+</container>
+`;
+
+  // The mimetype entry must come first and be stored uncompressed
+  return writeZip([
+    { name: 'mimetype', data: encoder.encode(MXL_MIME_TYPE) },
+    { name: 'META-INF/container.xml', data: encoder.encode(container) },
+    { name: MXL_ROOT_FILE, data: encoder.encode(melodyToMusicXml(melody, metadata)) },
+  ]);
+}
@@ -0,0 +1,160 @@
+import { generateSecretKey, nip19, utils } from 'nostr-tools';
+import { decrypt, encrypt } from 'nostr-tools/nip49';
+import { createStore } from 'solid-js/store';
+
+import { createLocalSigner, getExtensionSigner, type NostrSigner } from './nostr/signer';
+
+// Kept apart from the settings, which are not secret
+const ENCRYPTED_KEY_STORAGE_KEY = 'nostr-notes-ncryptsec';
+const SOURCE_STORAGE_KEY = 'nostr-notes-signer';
+
+export type IdentitySource = 'extension' | 'local';
+
+export interface IdentityState {
+  source: IdentitySource | null; // who signs: a browser extension or the key kept on this device
+  pubkey: string | null; // hex public key of the active identity, null until signed in
+  hasExtension: boolean; // a NIP-07 extension is installed
+  hasLocalKey: boolean; // an encrypted key is stored on this device
+}
+
+export const [identity, setIdentity] = createStore<IdentityState>({
+  source: null,
+  pubkey: null,
+  hasExtension: false,
+  hasLocalKey: localStorage.getItem(ENCRYPTED_KEY_STORAGE_KEY) !== null,
+});
+
+// The active signer; a local secret key only lives in it, decrypted, until sign out
+let signer: NostrSigner | null = null;
+
+const activate = async (next: NostrSigner, source: IdentitySource) => {
+  const pubkey = await next.getPublicKey();
+  signer = next;
+  localStorage.setItem(SOURCE_STORAGE_KEY, source);
+  setIdentity({ source, pubkey });
+};
+
+/**
+ * The signer of the active identity, null when signed out
+ */
+export const getSigner = (): NostrSigner | null => signer;
+
+/**
+ * Look for a NIP-07 extension (they may inject themselves after the page loads), and sign in
+ * with it again if it was used last time
+ */
+export const detectExtension = async () => {
+  const extension = getExtensionSigner();
+  setIdentity('hasExtension', extension !== null);
+  if (extension && !signer && localStorage.getItem(SOURCE_STORAGE_KEY) === 'extension') {
+    await activate(extension, 'extension');
+  }
+};
+
+export const signInWithExtension = async () => {
+  const extension = getExtensionSigner();
+  if (!extension) {
+    throw new Error('No Nostr browser extension found.');
+  }
+  await activate(extension, 'extension');
+};
+
+/**
+ * A secret key typed in as an nsec (NIP-19) or as 64 hex characters
+ */
+export const parseSecretKey = (input: string): Uint8Array => {
+  const text = input.trim();
+  if (utils.isHex32(text)) {
+    return utils.hexToBytes(text);
+  }
+  try {
+    const decoded = nip19.decode(text);
+    if (decoded.type === 'nsec') {
+      return decoded.data;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('Not a secret key: paste an nsec1… key or 64 hex characters.');
+};
+
+/**
+ * A public key typed in as an npub (NIP-19) or as 64 hex characters, in hex; null when it is
+ * neither
+ */
+export const parsePublicKey = (input: string): string | null => {
+  const text = input.trim();
+  if (utils.isHex32(text)) {
+    return text.toLowerCase();
+  }
+  try {
+    const decoded = nip19.decode(text);
+    return decoded.type === 'npub' ? decoded.data : null;
+  } catch {
+    return null;
+  }
+};
+
+const storeLocalKey = async (secretKey: Uint8Array, passphrase: string) => {
+  if (!passphrase) {
+    throw new Error('Choose a passphrase to protect the key.');
+  }
+  // NIP-49: the key is only ever stored encrypted with the passphrase
+  localStorage.setItem(ENCRYPTED_KEY_STORAGE_KEY, encrypt(secretKey, passphrase));
+  setIdentity('hasLocalKey', true);
+  await activate(createLocalSigner(secretKey), 'local');
+};
+
+/**
+ * Make a key for this device
+ */
+export const createLocalKey = (passphrase: string) =>
+  storeLocalKey(generateSecretKey(), passphrase);
+
+const decryptKey = (ncryptsec: string, passphrase: string): Uint8Array => {
+  try {
+    return decrypt(ncryptsec, passphrase);
+  } catch {
+    throw new Error('Wrong passphrase.');
+  }
+};
+
+/**
+ * Keep a key from elsewhere on this device: an nsec or hex key, or an ncryptsec backup
+ * encrypted with the same passphrase
+ */
+export const importLocalKey = async (input: string, passphrase: string) => {
+  const text = input.trim();
+  const secretKey = text.startsWith('ncryptsec1')
+    ? decryptKey(text, passphrase)
+    : parseSecretKey(text);
+  await storeLocalKey(secretKey, passphrase);
+};
+
+export const unlockLocalKey = async (passphrase: string) => {
+  const ncryptsec = localStorage.getItem(ENCRYPTED_KEY_STORAGE_KEY);
+  if (!ncryptsec) {
+    throw new Error('No key is stored on this device.');
+  }
+  await activate(createLocalSigner(decryptKey(ncryptsec, passphrase)), 'local');
+};
+
+/**
+ * The stored key as an ncryptsec (NIP-49), to back it up or import it elsewhere
+ */
+export const getEncryptedLocalKey = (): string | null =>
+  localStorage.getItem(ENCRYPTED_KEY_STORAGE_KEY);
+
+export const signOut = () => {
+  signer = null;
+  localStorage.removeItem(SOURCE_STORAGE_KEY);
+  setIdentity({ source: null, pubkey: null });
+};
+
+export const forgetLocalKey = () => {
+  localStorage.removeItem(ENCRYPTED_KEY_STORAGE_KEY);
+  setIdentity('hasLocalKey', false);
+  if (identity.source === 'local') {
+    signOut();
+  }
+};
@@ -0,0 +1,168 @@
+import { kinds, matchFilters, verifyEvent, type Event, type Filter } from 'nostr-tools';
+
+import { parseRelayMessage, type RelayTransport } from './relay';
+
+type Send = (message: unknown[]) => void;
+
+interface Client {
+  send: Send;
+  subscriptions: Map<string, Filter[]>;
+  challenge: string;
+  isAuthenticated: boolean;
+}
+
+export interface LocalRelayOptions {
+  // Reason to turn an event down with (e.g. "blocked: not allowed"), null to accept it
+  reject?: (event: Event) => string | null;
+  // NIP-42: clients have to authenticate before they read or write anything
+  requireAuth?: boolean;
+}
+
+// Events replacing each other share this address
+const getAddress = (event: Event): string | null => {
+  if (kinds.isAddressableKind(event.kind)) {
+    const d = event.tags.find(([name]) => name === 'd')?.[1] ?? '';
+    return `${event.kind}:${event.pubkey}:${d}`;
+  }
+  if (kinds.isReplaceableKind(event.kind)) {
+    return `${event.kind}:${event.pubkey}`;
+  }
+  return null;
+};
+
+/**
+ * In-process stand-in for a relay, speaking NIP-01 to the relay client without a network:
+ * it checks signatures, keeps the latest of replaceable events and answers subscriptions,
+ * live ones included, and can ask for authentication
+ */
+export class LocalRelay {
+  readonly events: Event[] = [];
+  private listeners = new Set<(event: Event) => void>();
+
+  constructor(private options: LocalRelayOptions = {}) {}
+
+  /**
+   * Accept a client: returns what the client sends through, and replies go to `send`
+   */
+  connect(send: Send): { receive: (data: string) => void; close: () => void } {
+    const client: Client = {
+      send,
+      subscriptions: new Map(),
+      challenge: Math.random().toString(36).slice(2),
+      isAuthenticated: !this.options.requireAuth,
+    };
+    const listener = (event: Event) =>
+      client.subscriptions.forEach((filters, id) => {
+        if (matchFilters(filters, event)) {
+          send(['EVENT', id, event]);
+        }
+      });
+    this.listeners.add(listener);
+    if (this.options.requireAuth) {
+      send(['AUTH', client.challenge]);
+    }
+
+    return {
+      receive: (data) => this.receive(data, client),
+      close: () => this.listeners.delete(listener),
+    };
+  }
+
+  private receive(data: string, client: Client) {
+    const { send, subscriptions } = client;
+    const message = parseRelayMessage(data);
+    if (!message) {
+      send(['NOTICE', 'invalid: not a relay message']);
+      return;
+    }
+
+    const [type, ...args] = message;
+    if (type === 'AUTH') {
+      const event = args[0] as Event;
+      const isValid =
+        event?.kind === kinds.ClientAuth &&
+        verifyEvent(event) &&
+        event.tags.some(([name, value]) => name === 'challenge' && value === client.challenge);
+      client.isAuthenticated ||= isValid;
+      send(['OK', event?.id, isValid, isValid ? '' : 'auth-required: bad authentication']);
+    } else if (type === 'EVENT' && !client.isAuthenticated) {
+      send(['OK', (args[0] as Event)?.id, false, 'auth-required: authenticate to publish']);
+    } else if (type === 'EVENT') {
+      const event = args[0] as Event;
+      const [ok, reason] = this.store(event);
+      send(['OK', event?.id, ok, reason]);
+    } else if (type === 'REQ' && !client.isAuthenticated) {
+      send(['CLOSED', args[0], 'auth-required: authenticate to read']);
+    } else if (type === 'REQ') {
+      const [id, ...filters] = args as [string, ...Filter[]];
+      subscriptions.set(id, filters);
+      const limit = Math.min(...filters.map((filter) => filter.limit ?? Infinity));
+      this.events
+        .filter((event) => matchFilters(filters, event))
+        .sort((a, b) => b.created_at - a.created_at)
+        .slice(0, limit)
+        .forEach((event) => send(['EVENT', id, event]));
+      send(['EOSE', id]);
+    } else if (type === 'CLOSE') {
+      subscriptions.delete(args[0] as string);
+    } else {
+      send(['NOTICE', `invalid: unknown message type ${type}`]);
+    }
+  }
+
+  private store(event: Event): [boolean, string] {
+    if (!event || typeof event !== 'object' || !verifyEvent(event)) {
+      return [false, 'invalid: bad signature'];
+    }
+    const rejection = this.options.reject?.(event);
+    if (rejection) {
+      return [false, rejection];
+    }
+    if (this.events.some(({ id }) => id === event.id)) {
+      return [true, 'duplicate: already have this event'];
+    }
+
+    const address = getAddress(event);
+    const previous = address
+      ? this.events.findIndex((stored) => getAddress(stored) === address)
+      : -1;
+    if (previous >= 0) {
+      if (this.events[previous].created_at > event.created_at) {
+        return [false, 'duplicate: have a newer version'];
+      }
+      this.events.splice(previous, 1);
+    }
+    this.events.push(event);
+    this.listeners.forEach((listener) => listener(event));
+    return [true, ''];
+  }
+}
+
+/**
+ * A transport reaching local relays by URL instead of over the network; other URLs fail to
+ * connect. Messages are delivered asynchronously, as a socket would.
+ */
+export const createLocalTransport =
+  (relays: Record<string, LocalRelay>): RelayTransport =>
+  (url, handlers) => {
+    let isOpen = true;
+    const connection = relays[url]?.connect((message) => {
+      if (isOpen) {
+        queueMicrotask(() => handlers.onMessage(JSON.stringify(message)));
+      }
+    });
+    queueMicrotask(() => (connection ? handlers.onOpen() : handlers.onClose('connection failed')));
+
+    return {
+      send: (data) =>
+        queueMicrotask(() => {
+          if (isOpen) {
+            connection?.receive(data);
+          }
+        }),
+      close: () => {
+        isOpen = false;
+        connection?.close();
+      },
+    };
+  };
@@ -0,0 +1,52 @@
+import type { Event } from 'nostr-tools';
+import { describe, expect, it } from 'vitest';
+
+import { getEventVelocities } from '@lib/utils/dynamicsUtils';
+
+import { MELODY_KIND, parseMelodyEvent } from './melodyEvent';
+
+const eventWith = (melody: unknown): Event => ({
+  id: '0'.repeat(64),
+  pubkey: '1'.repeat(64),
+  sig: '2'.repeat(128),
+  kind: MELODY_KIND,
+  created_at: 1700000000,
+  tags: [['d', 'song']],
+  content: JSON.stringify(melody),
+});
+
+describe('parseMelodyEvent', () => {
+  it('drops markings the engines cannot play or the charts cannot draw', () => {
+    const melody = parseMelodyEvent(
+      eventWith({
+        ratio: [4, 4],
+        trackName: 7,
+        notes: [
+          { note: 'C4', duration: 1, velocity: 0, dynamic: 'fff', dots: -1 },
+          { note: 'D4', duration: 1, velocity: 'loud', hairpin: { type: 'swell' } },
+          { note: 'E4', duration: 1, lyric: { text: 3 }, tuplet: { actual: 0, normal: 2 } },
+          { note: 'F4', duration: 1, velocity: 90, dynamic: 'p', tie: true },
+        ],
+        tracks: [{ id: 'lh', name: null, notes: [{ notes: ['C3', 'G3'], duration: 4 }] }],
+      }),
+    )?.song.melody;
+
+    expect(melody?.notes).toEqual([
+      { note: 'C4', duration: 1 },
+      { note: 'D4', duration: 1 },
+      { note: 'E4', duration: 1 },
+      { note: 'F4', duration: 1, velocity: 90, dynamic: 'p', tie: true },
+    ]);
+    expect(melody?.trackName).toBeUndefined();
+    expect(melody?.tracks).toEqual([
+      { id: 'lh', name: 'lh', notes: [{ notes: ['C3', 'G3'], duration: 4 }] },
+    ]);
+    expect(getEventVelocities(melody?.notes ?? [])).toEqual([undefined, undefined, undefined, 90]);
+  });
+
+  it('refuses a melody with a note that is not a pitch', () => {
+    const event = eventWith({ ratio: [4, 4], notes: [{ note: 'H4', duration: 1 }] });
+
+    expect(parseMelodyEvent(event)).toBeNull();
+  });
+});
@@ -0,0 +1,319 @@
+import type { Event, EventTemplate, Filter } from 'nostr-tools';
+
+import type {
+  DynamicLevel,
+  Jump,
+  KeySignature,
+  Melody,
+  MelodyEvent,
+  MelodyTrack,
+  MeterChange,
+  RepeatSection,
+  TempoChange,
+  Volta,
+} from '@lib/components/Chart';
+import type { Song, SongDifficulty } from '@lib/store';
+import { DYNAMIC_LEVELS } from '@lib/utils/dynamicsUtils';
+import { parseNoteName } from '@lib/utils/musicUtils';
+import { getEventStartBeats } from '@lib/utils/rhythmUtils';
+import { DEFAULT_TEMPO } from '@lib/utils/tempoUtils';
+
+// Event kind of a published melody. Addressable (30000-39999): the author's event with the
+// same `d` tag, the song id, is replaced when the song is published again.
+export const MELODY_KIND = 36107;
+
+// Bumped when the content stops being readable by older versions
+export const MELODY_FORMAT_VERSION = '1';
+
+/**
+ * Unsigned event publishing a song: the whole melody as JSON content, and what a listing
+ * needs to show it (title, composer, difficulty, meter, tempo) as tags
+ */
+export const createMelodyEvent = (
+  song: Pick<Song, 'id' | 'title' | 'composer' | 'difficulty' | 'melody'>,
+  createdAt = Math.floor(Date.now() / 1000),
+): EventTemplate => ({
+  kind: MELODY_KIND,
+  created_at: createdAt,
+  content: JSON.stringify(song.melody),
+  tags: [
+    ['d', song.id],
+    ['title', song.title],
+    ['composer', song.composer],
+    ['difficulty', song.difficulty],
+    ['meter', song.melody.ratio.join('/')],
+    ['tempo', String(song.melody.tempo ?? DEFAULT_TEMPO)],
+    ['format', MELODY_FORMAT_VERSION],
+    ['t', 'melody'],
+    // NIP-31: what clients that do not know the kind show instead
+    ['alt', `Melody: ${song.title} by ${song.composer}`],
+  ],
+});
+
+export interface MelodyQuery {
+  authors?: string[]; // hex public keys
+  tag?: string; // a `t` tag (hashtag) the melody carries
+  since?: number; // unix seconds
+  limit?: number;
+}
+
+/**
+ * Relay filter for the melodies matching a query, newest first
+ */
+export const createMelodyFilter = ({ authors, tag, since, limit = 100 }: MelodyQuery): Filter => ({
+  kinds: [MELODY_KIND],
+  ...(authors?.length ? { authors } : {}),
+  ...(tag ? { '#t': [tag.toLowerCase()] } : {}),
+  ...(since !== undefined ? { since } : {}),
+  limit,
+});
+
+export interface PublishedMelody {
+  address: string; // kind:pubkey:d, shared by every version of the song
+  pubkey: string; // hex public key of the author
+  createdAt: number; // unix seconds
+  song: Song;
+}
+
+const DIFFICULTIES: SongDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+// Passes through a repeat section, or the pass a volta is for; more is not written out in scores
+const MAX_REPEAT_TIMES = 8;
+// Augmentation dots on one written value
+const MAX_DOTS = 3;
+
+const isDuration = (value: unknown) => typeof value === 'number' && value > 0 && value < Infinity;
+
+const isFlag = (value: unknown) => value === undefined || typeof value === 'boolean';
+
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+const isNoteName = (value: unknown) => typeof value === 'string' && parseNoteName(value) !== null;
+
+const asObject = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>) : null;
+
+// Only what the charts and the engines need to read an event safely is checked
+const isMelodyEvent = (value: unknown): value is MelodyEvent => {
+  const event = asObject(value);
+  if (!event || !isDuration(event.duration)) {
+    return false;
+  }
+  return (
+    event.rest === true ||
+    isNoteName(event.note) ||
+    (Array.isArray(event.notes) && event.notes.length > 0 && event.notes.every(isNoteName))
+  );
+};
+
+const isMelodyEventList = (value: unknown): value is MelodyEvent[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isMelodyEvent);
+
+/**
+ * An event keeping only the markings that are well formed: a velocity or dynamic the engines
+ * cannot play, or a hairpin, lyric or rhythm mark the charts cannot draw, is dropped
+ */
+const readEvent = (event: MelodyEvent): MelodyEvent => {
+  const { velocity, dynamic, hairpin, lyric, tuplet, dots, tie, ...rest } =
+    event as unknown as Record<string, unknown>;
+  const hairpinMark = asObject(hairpin);
+  const lyricMark = asObject(lyric);
+  const tupletMark = asObject(tuplet);
+  const isVelocity = typeof velocity === 'number' && velocity >= 1 && velocity <= 127;
+  const isDynamic = DYNAMIC_LEVELS.includes(dynamic as DynamicLevel);
+  const isHairpin =
+    !!hairpinMark &&
+    (hairpinMark.type === 'crescendo' || hairpinMark.type === 'decrescendo') &&
+    isFlag(hairpinMark.start) &&
+    isFlag(hairpinMark.end);
+  const isLyric =
+    !!lyricMark &&
+    typeof lyricMark.text === 'string' &&
+    isFlag(lyricMark.hyphen) &&
+    isFlag(lyricMark.extend);
+  const isTuplet =
+    !!tupletMark &&
+    isCount(tupletMark.actual) &&
+    isCount(tupletMark.normal) &&
+    isFlag(tupletMark.start) &&
+    isFlag(tupletMark.end);
+  const isDots = Number.isInteger(dots) && (dots as number) >= 0 && (dots as number) <= MAX_DOTS;
+
+  return {
+    ...rest,
+    ...(isVelocity ? { velocity } : {}),
+    ...(isDynamic ? { dynamic } : {}),
+    ...(isHairpin ? { hairpin } : {}),
+    ...(isLyric ? { lyric } : {}),
+    ...(isTuplet ? { tuplet } : {}),
+    ...(isDots ? { dots } : {}),
+    ...(typeof tie === 'boolean' ? { tie } : {}),
+  } as MelodyEvent;
+};
+
+const isRatio = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && value.every((n) => Number.isInteger(n) && n > 0);
+
+const isPass = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_REPEAT_TIMES;
+
+const asList = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value) ? value.filter((item) => item && typeof item === 'object') : [];
+
+/**
+ * The repeats, jumps, tempo, meter and key of a melody read from a relay, keeping only marks
+ * that lie inside its `length` in beats and can be played through: anything else is dropped
+ */
+const readMarks = (melody: Record<string, unknown>, length: number): Partial<Melody> => {
+  const isBeat = (value: unknown): value is number =>
+    typeof value === 'number' && value >= 0 && value <= length;
+  const isRange = (mark: Record<string, unknown>) =>
+    isBeat(mark.start) && isBeat(mark.end) && mark.start < mark.end;
+  const byBeat = <T extends { beat: number }>(a: T, b: T) => a.beat - b.beat;
+
+  // In beat order and not nested, as the unfolding expects
+  const repeats = asList(melody.repeats)
+    .filter((section) => isRange(section) && (section.times === undefined || isPass(section.times)))
+    .map((section) => section as unknown as RepeatSection)
+    .sort((a, b) => a.start - b.start)
+    .filter((section, i, sections) => i === 0 || section.start >= sections[i - 1].end);
+  const voltas = asList(melody.voltas)
+    .filter(
+      (volta) =>
+        isRange(volta) &&
+        Array.isArray(volta.passes) &&
+        volta.passes.length > 0 &&
+        volta.passes.every(isPass),
+    )
+    .map((volta) => volta as unknown as Volta);
+  const tempoChanges = asList(melody.tempoChanges)
+    .filter(
+      (change) =>
+        isBeat(change.beat) &&
+        isDuration(change.bpm) &&
+        (change.ramp === undefined || typeof change.ramp === 'boolean'),
+    )
+    .map((change) => change as unknown as TempoChange)
+    .sort(byBeat);
+  const meterChanges = asList(melody.meterChanges)
+    .filter((change) => isBeat(change.beat) && isRatio(change.ratio))
+    .map((change) => change as unknown as MeterChange)
+    .sort(byBeat);
+
+  const key = melody.key as Partial<KeySignature> | undefined;
+  const isKey =
+    !!key &&
+    Number.isInteger(key.fifths) &&
+    Math.abs(key.fifths as number) <= 7 &&
+    (key.mode === 'major' || key.mode === 'minor');
+
+  // It goes back before where it is written, and the coda comes after the way out to it;
+  // otherwise the melody would never end
+  const jump = melody.jump as Partial<Jump> | undefined;
+  const isJump =
+    !!jump &&
+    isBeat(jump.beat) &&
+    jump.beat > 0 &&
+    (jump.to === 'start' ||
+      (jump.to === 'segno' && isBeat(jump.segno) && jump.segno < jump.beat)) &&
+    (jump.fine === undefined || (isBeat(jump.fine) && jump.fine > 0)) &&
+    (jump.toCoda === undefined || isBeat(jump.toCoda)) &&
+    (jump.coda === undefined || isBeat(jump.coda)) &&
+    (jump.toCoda === undefined || jump.coda === undefined || jump.coda > jump.toCoda);
+
+  return {
+    ...(repeats.length > 0 ? { repeats } : {}),
+    ...(voltas.length > 0 ? { voltas } : {}),
+    ...(isJump ? { jump: jump as Jump } : {}),
+    ...(tempoChanges.length > 0 ? { tempoChanges } : {}),
+    ...(meterChanges.length > 0 ? { meterChanges } : {}),
+    ...(isKey ? { key: key as KeySignature } : {}),
+  };
+};
+
+/**
+ * The melody in an event's content, or null when it cannot be played
+ */
+const parseMelody = (content: string): Melody | null => {
+  let melody: Record<string, unknown>;
+  try {
+    melody = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (!melody || typeof melody !== 'object' || !isMelodyEventList(melody.notes)) {
+    return null;
+  }
+  const { ratio, tempo, tracks } = melody;
+  if (
+    !isRatio(ratio) ||
+    (tempo !== undefined && !isDuration(tempo)) ||
+    (tracks !== undefined &&
+      (!Array.isArray(tracks) ||
+        !tracks.every((track) => typeof track?.id === 'string' && isMelodyEventList(track?.notes))))
+  ) {
+    return null;
+  }
+
+  const {
+    repeats: _repeats,
+    voltas: _voltas,
+    jump: _jump,
+    tempoChanges: _tempoChanges,
+    meterChanges: _meterChanges,
+    key: _key,
+    trackName,
+    ...written
+  } = melody;
+  const notes = melody.notes.map(readEvent);
+  const readTracks = (tracks as MelodyTrack[] | undefined)?.map(
+    (track): MelodyTrack => ({
+      id: track.id,
+      name: typeof track.name === 'string' ? track.name : track.id,
+      notes: track.notes.map(readEvent),
+      ...(track.clef === 'treble' || track.clef === 'bass' ? { clef: track.clef } : {}),
+    }),
+  );
+  const length = Math.max(
+    ...[notes, ...(readTracks ?? []).map((track) => track.notes)].map(
+      (events) => getEventStartBeats(events).pop() ?? 0,
+    ),
+  );
+  return {
+    ...(written as unknown as Melody),
+    notes,
+    ...(typeof trackName === 'string' ? { trackName } : {}),
+    ...(readTracks ? { tracks: readTracks } : {}),
+    ...readMarks(melody, length),
+  };
+};
+
+/**
+ * A song read back from a melody event, or null when the event is not a melody this version
+ * can read. The signature is not checked here.
+ */
+export const parseMelodyEvent = (event: Event): PublishedMelody | null => {
+  const getTag = (name: string) => event.tags.find((tag) => tag[0] === name)?.[1];
+  const id = getTag('d');
+  const format = getTag('format') ?? MELODY_FORMAT_VERSION;
+  if (event.kind !== MELODY_KIND || !id || format !== MELODY_FORMAT_VERSION) {
+    return null;
+  }
+  const melody = parseMelody(event.content);
+  if (!melody) {
+    return null;
+  }
+  const difficulty = getTag('difficulty') as SongDifficulty | undefined;
+
+  return {
+    address: `${event.kind}:${event.pubkey}:${id}`,
+    pubkey: event.pubkey,
+    createdAt: event.created_at,
+    song: {
+      id,
+      title: getTag('title') || 'Untitled',
+      composer: getTag('composer') || 'Unknown',
+      difficulty: difficulty && DIFFICULTIES.includes(difficulty) ? difficulty : 'intermediate',
+      melody,
+    },
+  };
+};
@@ -0,0 +1,493 @@
+import { matchFilters, verifyEvent, type Event, type Filter } from 'nostr-tools';
+import { makeAuthEvent } from 'nostr-tools/nip42';
+
+import {
+  parseRelayMessage,
+  webSocketTransport,
+  type RelayConnection,
+  type RelayTransport,
+} from './relay';
+import type { NostrSigner } from './signer';
+
+// How long a relay gets to answer (OK to an event, EOSE to a subscription) before it counts
+// as failed; it keeps being retried in the background
+const ANSWER_TIMEOUT_MS = 8000;
+// Wait before reconnecting, doubled after each failed attempt up to the maximum
+const RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+
+// NIP-42: the relay's reason when it wants the client to authenticate first
+const AUTH_REQUIRED_PREFIX = 'auth-required:';
+
+export type RelayConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export interface RelayStatus {
+  state: RelayConnectionState;
+  attempts: number; // failed connection attempts in a row
+  retryAt: number | null; // Date.now() time of the next attempt while reconnecting
+  error: string | null; // why the last connection ended
+  notice: string | null; // the relay's last NOTICE
+  authenticated: boolean; // NIP-42 authentication accepted on this connection
+}
+
+export interface RelayPoolOptions {
+  transport?: RelayTransport;
+  timeoutMs?: number;
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  // Signs NIP-42 authentication when a relay asks for it; without one such relays refuse
+  getSigner?: () => NostrSigner | null;
+  // Told how each connection is doing: all of it for a relay the first time, changes after
+  onStatus?: (relay: string, status: Partial<RelayStatus>) => void;
+}
+
+export interface SubscriptionHandlers {
+  onEvent: (event: Event, relay: string) => void; // each event once, whichever relay sent it first
+  onEose?: (relay: string) => void; // the relay has sent all it stored; live events may follow
+  // The relay ended the subscription, or could not be reached in time (it may still answer
+  // once it is back)
+  onClose?: (relay: string, reason: string) => void;
+}
+
+export interface PublishResult {
+  relay: string;
+  ok: boolean;
+  message: string; // the relay's reason, e.g. "blocked: ..." or "timed out"
+}
+
+interface RelaySubscription {
+  filters: Filter[];
+  onEvent: (event: Event) => void;
+  onEose: () => void;
+  onClose: (reason: string) => void;
+  hasEose: boolean;
+  hasFailed: boolean; // reported as not reached already
+  isWaitingForAuth: boolean;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface PendingPublish {
+  event: Event;
+  finish: (ok: boolean, message: string) => void;
+  isWaitingForAuth: boolean;
+}
+
+type PoolSettings = Required<Omit<RelayPoolOptions, 'getSigner' | 'onStatus'>> &
+  Pick<RelayPoolOptions, 'getSigner' | 'onStatus'>;
+
+const INITIAL_STATUS: RelayStatus = {
+  state: 'disconnected',
+  attempts: 0,
+  retryAt: null,
+  error: null,
+  notice: null,
+  authenticated: false,
+};
+
+/**
+ * The one connection to a relay that every subscription and publication goes through. It is
+ * opened when something needs it, reopened with backoff while something still does, and
+ * closed once nothing does.
+ */
+class PooledRelay {
+  private connection: RelayConnection | null = null;
+  private isOpen = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private attempts = 0;
+  private lastError: string | null = null;
+  private challenge: string | null = null;
+  private isAuthenticating = false;
+  private isAuthenticated = false;
+  private authEventId: string | null = null;
+  private authChallenge: string | null = null; // the challenge being answered
+  // A challenge whose answer was refused or not signed; only a new one is tried again
+  private failedChallenge: string | null = null;
+  private subscriptions = new Map<string, RelaySubscription>();
+  private publishes = new Map<string, PendingPublish>();
+
+  constructor(
+    readonly url: string,
+    private options: PoolSettings,
+    private setStatus: (status: Partial<RelayStatus>) => void,
+  ) {}
+
+  subscribe(id: string, subscription: Omit<RelaySubscription, 'timer'>) {
+    const timer = setTimeout(() => this.failSubscription(id, 'timed out'), this.options.timeoutMs);
+    this.subscriptions.set(id, { ...subscription, timer });
+    this.connect();
+    this.send(['REQ', id, ...subscription.filters]);
+  }
+
+  unsubscribe(id: string) {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) {
+      return;
+    }
+    clearTimeout(subscription.timer);
+    this.subscriptions.delete(id);
+    this.send(['CLOSE', id]);
+    this.closeIfIdle();
+  }
+
+  publish(event: Event): Promise<PublishResult> {
+    return new Promise((resolve) => {
+      const finish = (ok: boolean, message: string) => {
+        if (this.publishes.get(event.id)?.finish !== finish) {
+          return;
+        }
+        clearTimeout(timer);
+        this.publishes.delete(event.id);
+        resolve({ relay: this.url, ok, message });
+        this.closeIfIdle();
+      };
+      // A relay that could not be reached in time is reported with the reason it failed
+      const timer = setTimeout(
+        () => finish(false, this.lastError ?? 'timed out'),
+        this.options.timeoutMs,
+      );
+
+      this.publishes.set(event.id, { event, finish, isWaitingForAuth: false });
+      this.connect();
+      this.send(['EVENT', event]);
+    });
+  }
+
+  private send(message: unknown[]) {
+    if (this.isOpen) {
+      this.connection?.send(JSON.stringify(message));
+    }
+  }
+
+  private connect() {
+    if (this.connection || this.reconnectTimer !== undefined) {
+      return;
+    }
+    this.setStatus({ state: this.attempts > 0 ? 'reconnecting' : 'connecting', retryAt: null });
+
+    let connection: RelayConnection | null = null;
+    // Late callbacks of a connection that has been replaced or closed are ignored
+    const isCurrent = () => connection !== null && connection === this.connection;
+    try {
+      connection = this.options.transport(this.url, {
+        onOpen: () => {
+          if (isCurrent()) {
+            this.handleOpen();
+          }
+        },
+        onMessage: (data) => {
+          if (isCurrent()) {
+            this.handleMessage(data);
+          }
+        },
+        onClose: (reason) => {
+          if (isCurrent()) {
+            this.handleClose(reason);
+          }
+        },
+      });
+      this.connection = connection;
+    } catch (err) {
+      this.connection = null;
+      this.handleClose(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  private handleOpen() {
+    this.isOpen = true;
+    this.attempts = 0;
+    this.lastError = null;
+    this.setStatus({ state: 'connected', attempts: 0, error: null });
+    // Everything still wanted goes out again, after a reconnection too
+    this.subscriptions.forEach(({ filters }, id) => this.send(['REQ', id, ...filters]));
+    this.publishes.forEach(({ event }) => this.send(['EVENT', event]));
+  }
+
+  private handleClose(reason: string) {
+    // Let go of a socket that errored without closing
+    const connection = this.connection;
+    this.connection = null;
+    connection?.close();
+    this.isOpen = false;
+    this.challenge = null;
+    this.isAuthenticating = false;
+    this.isAuthenticated = false;
+    this.authEventId = null;
+    this.authChallenge = null;
+    this.failedChallenge = null;
+    this.lastError = reason;
+    this.subscriptions.forEach((subscription, id) => {
+      subscription.isWaitingForAuth = false;
+      if (!subscription.hasEose) {
+        this.failSubscription(id, reason);
+      }
+    });
+    this.publishes.forEach((publish) => (publish.isWaitingForAuth = false));
+
+    if (this.subscriptions.size === 0 && this.publishes.size === 0) {
+      this.setStatus({ state: 'disconnected', error: reason, authenticated: false });
+      return;
+    }
+    const delay = Math.min(
+      this.options.reconnectDelayMs * 2 ** this.attempts,
+      this.options.maxReconnectDelayMs,
+    );
+    this.attempts++;
+    this.setStatus({
+      state: 'reconnecting',
+      attempts: this.attempts,
+      retryAt: Date.now() + delay,
+      error: reason,
+      authenticated: false,
+    });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect();
+    }, delay);
+  }
+
+  private closeIfIdle() {
+    if (this.subscriptions.size > 0 || this.publishes.size > 0) {
+      return;
+    }
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    this.attempts = 0;
+    const connection = this.connection;
+    this.connection = null;
+    this.isOpen = false;
+    this.challenge = null;
+    this.isAuthenticating = false;
+    this.isAuthenticated = false;
+    this.authEventId = null;
+    this.authChallenge = null;
+    this.failedChallenge = null;
+    connection?.close();
+    this.setStatus({ state: 'disconnected', attempts: 0, retryAt: null, authenticated: false });
+  }
+
+  private failSubscription(id: string, reason: string) {
+    const subscription = this.subscriptions.get(id);
+    if (subscription && !subscription.hasEose && !subscription.hasFailed) {
+      subscription.hasFailed = true;
+      subscription.onClose(reason);
+    }
+  }
+
+  private handleMessage(data: string) {
+    const message = parseRelayMessage(data);
+    if (!message) {
+      return;
+    }
+    const [type, ...args] = message;
+
+    if (type === 'EVENT') {
+      const subscription = this.subscriptions.get(args[0] as string);
+      if (subscription && args[1] && typeof args[1] === 'object') {
+        subscription.onEvent(args[1] as Event);
+      }
+    } else if (type === 'EOSE') {
+      const subscription = this.subscriptions.get(args[0] as string);
+      if (subscription && !subscription.hasEose) {
+        subscription.hasEose = true;
+        clearTimeout(subscription.timer);
+        subscription.onEose();
+      }
+    } else if (type === 'CLOSED') {
+      this.handleClosed(args[0] as string, typeof args[1] === 'string' ? args[1] : '');
+    } else if (type === 'OK') {
+      this.handleOk(
+        args[0] as string,
+        args[1] === true,
+        typeof args[2] === 'string' ? args[2] : '',
+      );
+    } else if (type === 'NOTICE') {
+      this.setStatus({ notice: String(args[0]) });
+    } else if (type === 'AUTH' && typeof args[0] === 'string') {
+      this.challenge = args[0];
+    }
+  }
+
+  private handleClosed(id: string, reason: string) {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) {
+      return;
+    }
+    if (reason.startsWith(AUTH_REQUIRED_PREFIX) && this.authenticate()) {
+      subscription.isWaitingForAuth = true;
+      return;
+    }
+    this.closeSubscription(id, subscription, reason || 'closed by relay');
+  }
+
+  private closeSubscription(id: string, subscription: RelaySubscription, reason: string) {
+    clearTimeout(subscription.timer);
+    this.subscriptions.delete(id);
+    subscription.onClose(reason);
+    this.closeIfIdle();
+  }
+
+  private handleOk(eventId: string, ok: boolean, message: string) {
+    // The authentication event is answered with an OK like any other
+    if (eventId === this.authEventId) {
+      this.finishAuth(ok, message);
+      return;
+    }
+    const publish = this.publishes.get(eventId);
+    if (!publish) {
+      return;
+    }
+    if (!ok && message.startsWith(AUTH_REQUIRED_PREFIX) && this.authenticate()) {
+      publish.isWaitingForAuth = true;
+      return;
+    }
+    publish.finish(ok, message);
+  }
+
+  /**
+   * Answer the relay's NIP-42 challenge; false when it cannot be (no challenge, no signer, the
+   * challenge failed already, or the relay wants more than authentication already gave)
+   */
+  private authenticate(): boolean {
+    if (this.isAuthenticating) {
+      return true;
+    }
+    const signer = this.options.getSigner?.();
+    const challenge = this.challenge;
+    if (!signer || !challenge || challenge === this.failedChallenge || this.isAuthenticated) {
+      return false;
+    }
+    this.isAuthenticating = true;
+    this.authChallenge = challenge;
+    // After a reconnection everything has been sent again anyway
+    const connection = this.connection;
+    signer.signEvent(makeAuthEvent(this.url, challenge)).then(
+      (event) => {
+        if (connection === this.connection) {
+          this.authEventId = event.id;
+          this.send(['AUTH', event]);
+        }
+      },
+      (err) => {
+        if (connection === this.connection) {
+          this.finishAuth(false, err instanceof Error ? err.message : String(err));
+        }
+      },
+    );
+    return true;
+  }
+
+  // What waited for authentication goes out again, or fails with the reason it did not work
+  private finishAuth(ok: boolean, message: string) {
+    this.isAuthenticating = false;
+    this.authEventId = null;
+    this.isAuthenticated = ok;
+    if (!ok) {
+      this.failedChallenge = this.authChallenge;
+    }
+    this.authChallenge = null;
+    this.setStatus({ authenticated: ok });
+    const failure = ok ? null : `${AUTH_REQUIRED_PREFIX} ${message}`;
+    this.subscriptions.forEach((subscription, id) => {
+      if (!subscription.isWaitingForAuth) {
+        return;
+      }
+      subscription.isWaitingForAuth = false;
+      if (failure === null) {
+        this.send(['REQ', id, ...subscription.filters]);
+      } else {
+        // Not through handleClosed, which would try the same challenge again
+        this.closeSubscription(id, subscription, failure);
+      }
+    });
+    this.publishes.forEach((publish) => {
+      if (!publish.isWaitingForAuth) {
+        return;
+      }
+      publish.isWaitingForAuth = false;
+      if (failure === null) {
+        this.send(['EVENT', publish.event]);
+      } else {
+        publish.finish(false, failure);
+      }
+    });
+  }
+}
+
+/**
+ * Relay client shared by every Nostr feature: one connection per relay, whichever number of
+ * subscriptions and publications use it
+ */
+export class RelayPool {
+  private relays = new Map<string, PooledRelay>();
+  private options: PoolSettings;
+
+  constructor({
+    transport = webSocketTransport,
+    timeoutMs = ANSWER_TIMEOUT_MS,
+    reconnectDelayMs = RECONNECT_DELAY_MS,
+    maxReconnectDelayMs = MAX_RECONNECT_DELAY_MS,
+    getSigner,
+    onStatus,
+  }: RelayPoolOptions = {}) {
+    this.options = {
+      transport,
+      timeoutMs,
+      reconnectDelayMs,
+      maxReconnectDelayMs,
+      getSigner,
+      onStatus,
+    };
+  }
+
+  private getRelay(url: string): PooledRelay {
+    let relay = this.relays.get(url);
+    if (!relay) {
+      this.options.onStatus?.(url, { ...INITIAL_STATUS });
+      relay = new PooledRelay(url, this.options, (status) => this.options.onStatus?.(url, status));
+      this.relays.set(url, relay);
+    }
+    return relay;
+  }
+
+  /**
+   * Send a signed event to every relay of a list at once; one result per relay, in list order
+   */
+  publish(event: Event, relays: string[]): Promise<PublishResult[]> {
+    return Promise.all([...new Set(relays)].map((url) => this.getRelay(url).publish(event)));
+  }
+
+  /**
+   * Ask every relay of a list for the events matching the filters, stored ones then live ones,
+   * until the returned function is called. Events are checked before they are passed on: a
+   * bad signature, or an event the filters do not ask for, is dropped, and an event sent by
+   * several relays (or again after a reconnection) is passed on once.
+   */
+  subscribe(
+    relays: string[],
+    filters: Filter[],
+    { onEvent, onEose, onClose }: SubscriptionHandlers,
+  ): () => void {
+    const id = Math.random().toString(36).slice(2, 10);
+    const urls = [...new Set(relays)];
+    const seen = new Set<string>();
+
+    urls.forEach((url) =>
+      this.getRelay(url).subscribe(id, {
+        filters,
+        onEvent: (event) => {
+          if (seen.has(event.id) || !matchFilters(filters, event) || !verifyEvent(event)) {
+            return;
+          }
+          seen.add(event.id);
+          onEvent(event, url);
+        },
+        onEose: () => onEose?.(url),
+        onClose: (reason) => onClose?.(url, reason),
+        hasEose: false,
+        hasFailed: false,
+        isWaitingForAuth: false,
+      }),
+    );
+    return () => urls.forEach((url) => this.relays.get(url)?.unsubscribe(id));
+  }
+}
@@ -0,0 +1,81 @@
+import { generateSecretKey } from 'nostr-tools';
+import { describe, expect, it } from 'vitest';
+
+import type { Song } from '@lib/store';
+
+import { createLocalTransport, LocalRelay } from './localRelay';
+import { createMelodyEvent, parseMelodyEvent } from './melodyEvent';
+import { RelayPool } from './pool';
+import { publishSong } from './publish';
+import { createLocalSigner } from './signer';
+
+const ACCEPTING = 'ws://accepting.relay';
+const REJECTING = 'ws://rejecting.relay';
+const UNREACHABLE = 'ws://unreachable.relay';
+
+const song: Song = {
+  id: 'ode-to-joy',
+  title: 'Ode to Joy',
+  composer: 'Beethoven',
+  difficulty: 'beginner',
+  melody: {
+    ratio: [4, 4],
+    tempo: 100,
+    notes: [
+      { note: 'E4', duration: 1 },
+      { note: 'E4', duration: 1 },
+      { note: 'F4', duration: 1 },
+      { note: 'G4', duration: 1 },
+    ],
+  },
+};
+
+const setup = () => {
+  const relays = {
+    [ACCEPTING]: new LocalRelay(),
+    [REJECTING]: new LocalRelay({ reject: () => 'blocked: not on the allow list' }),
+  };
+  const pool = new RelayPool({ transport: createLocalTransport(relays), timeoutMs: 200 });
+  const signer = createLocalSigner(generateSecretKey());
+  return { relays, pool, signer };
+};
+
+describe('publishSong', () => {
+  it('reports the OK of each relay that stores the melody', async () => {
+    const { relays, pool, signer } = setup();
+
+    const results = await publishSong(song, [ACCEPTING], signer, pool);
+
+    expect(results).toEqual([{ relay: ACCEPTING, ok: true, message: '' }]);
+    const [stored] = relays[ACCEPTING].events;
+    expect(stored.pubkey).toBe(await signer.getPublicKey());
+    expect(parseMelodyEvent(stored)?.song).toEqual(song);
+  });
+
+  it('reports a rejection or a failure per relay, next to the relays that accepted', async () => {
+    const { relays, pool, signer } = setup();
+
+    const results = await publishSong(song, [ACCEPTING, REJECTING, UNREACHABLE], signer, pool);
+
+    expect(results).toEqual([
+      { relay: ACCEPTING, ok: true, message: '' },
+      { relay: REJECTING, ok: false, message: 'blocked: not on the allow list' },
+      { relay: UNREACHABLE, ok: false, message: 'connection failed' },
+    ]);
+    expect(relays[REJECTING].events).toEqual([]);
+  });
+
+  it('replaces the copy on a relay when the song is published again', async () => {
+    const { relays, pool, signer } = setup();
+    await publishSong(song, [ACCEPTING], signer, pool);
+    const [first] = relays[ACCEPTING].events;
+
+    // A later version of the same song (created_at only counts whole seconds)
+    const retitled = { ...song, title: 'Ode an die Freude' };
+    const event = await signer.signEvent(createMelodyEvent(retitled, first.created_at + 1));
+    const results = await pool.publish(event, [ACCEPTING]);
+
+    expect(results[0].ok).toBe(true);
+    expect(relays[ACCEPTING].events).toEqual([event]);
+  });
+});
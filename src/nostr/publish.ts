@@ -0,0 +1,18 @@
+import type { Song } from '@lib/store';
+
+import { createMelodyEvent } from './melodyEvent';
+import type { PublishResult, RelayPool } from './pool';
+import type { NostrSigner } from './signer';
+
+/**
+ * Sign a song as a melody event and send it to every relay of a list
+ */
+export const publishSong = async (
+  song: Song,
+  relays: string[],
+  signer: NostrSigner,
+  pool: RelayPool,
+): Promise<PublishResult[]> => {
+  const event = await signer.signEvent(createMelodyEvent(song));
+  return pool.publish(event, relays);
+};
@@ -0,0 +1,57 @@
+export interface RelayConnectionHandlers {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  onClose: (reason: string) => void;
+}
+
+export interface RelayConnection {
+  send: (message: string) => void;
+  close: () => void;
+}
+
+/**
+ * Opens a connection to a relay. The browser's WebSocket in the app; an in-process relay
+ * stand-in can take its place (see localRelay).
+ */
+export type RelayTransport = (url: string, handlers: RelayConnectionHandlers) => RelayConnection;
+
+export const webSocketTransport: RelayTransport = (url, handlers) => {
+  const socket = new WebSocket(url);
+  socket.onopen = () => handlers.onOpen();
+  socket.onmessage = (e) => handlers.onMessage(String(e.data));
+  socket.onerror = () => handlers.onClose('connection failed');
+  socket.onclose = () => handlers.onClose('connection closed');
+  return {
+    send: (message) => socket.send(message),
+    close: () => socket.close(),
+  };
+};
+
+/**
+ * A relay address written the same way whatever was typed (lowercase host, no trailing
+ * slash), or null when it is not a ws:// or wss:// URL
+ */
+export const normalizeRelayUrl = (url: string): string | null => {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'wss:' && parsed.protocol !== 'ws:') {
+      return null;
+    }
+    return parsed.toString().replace(/\/$/, '');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * A message from a relay (["OK", ...], ["EVENT", ...], ["EOSE", ...]...), or null when it is
+ * not one
+ */
+export const parseRelayMessage = (data: string): unknown[] | null => {
+  try {
+    const message: unknown = JSON.parse(data);
+    return Array.isArray(message) && typeof message[0] === 'string' ? message : null;
+  } catch {
+    return null;
+  }
+};
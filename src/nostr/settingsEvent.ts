@@ -0,0 +1,113 @@
+import { kinds, type Event, type EventTemplate, type Filter } from 'nostr-tools';
+
+import type { Settings } from '@lib/store';
+
+import type { NostrSigner } from './signer';
+
+// NIP-78 application data: addressable, so each identity keeps one copy per `d` tag
+export const SETTINGS_SYNC_TAG = 'solid-piano/settings';
+
+// NIP-44 encrypts at most this many bytes
+const MAX_PLAINTEXT_BYTES = 65535;
+
+export type SettingsField = keyof Settings;
+
+/**
+ * Settings as synced: the fields, when each was last changed, and the settings version of the
+ * app that wrote them
+ */
+export interface SettingsSnapshot {
+  version: number;
+  fields: Partial<Settings>;
+  updatedAt: Partial<Record<SettingsField, number>>; // Date.now() times
+}
+
+export interface SettingsMerge {
+  fields: Partial<Settings>; // to take from the other copy
+  updatedAt: Partial<Record<SettingsField, number>>; // of the fields taken
+  hasNewer: boolean; // the local copy has something the other one lacks: it should be sent
+}
+
+/**
+ * Relay filter for an identity's synced settings
+ */
+export const createSettingsFilter = (pubkey: string): Filter => ({
+  kinds: [kinds.Application],
+  authors: [pubkey],
+  '#d': [SETTINGS_SYNC_TAG],
+});
+
+/**
+ * Unsigned event carrying the settings, encrypted by the signer to its own key so that only
+ * the same identity can read them back
+ */
+export const createSettingsEvent = async (
+  snapshot: SettingsSnapshot,
+  signer: NostrSigner,
+  createdAt = Math.floor(Date.now() / 1000),
+): Promise<EventTemplate> => {
+  const plaintext = JSON.stringify(snapshot);
+  if (new TextEncoder().encode(plaintext).length > MAX_PLAINTEXT_BYTES) {
+    throw new Error('The settings are too large to sync: NIP-44 encrypts at most 64 KB of JSON.');
+  }
+  const pubkey = await signer.getPublicKey();
+  return {
+    kind: kinds.Application,
+    created_at: createdAt,
+    content: await signer.nip44Encrypt(pubkey, plaintext),
+    tags: [['d', SETTINGS_SYNC_TAG]],
+  };
+};
+
+/**
+ * The settings in an event written by the signer's identity, or null when they cannot be read
+ */
+export const readSettingsEvent = async (
+  event: Event,
+  signer: NostrSigner,
+): Promise<SettingsSnapshot | null> => {
+  let snapshot: Partial<SettingsSnapshot>;
+  try {
+    snapshot = JSON.parse(await signer.nip44Decrypt(event.pubkey, event.content));
+  } catch {
+    return null;
+  }
+  if (
+    !snapshot ||
+    typeof snapshot.version !== 'number' ||
+    !snapshot.fields ||
+    typeof snapshot.fields !== 'object' ||
+    !snapshot.updatedAt ||
+    typeof snapshot.updatedAt !== 'object'
+  ) {
+    return null;
+  }
+  return snapshot as SettingsSnapshot;
+};
+
+/**
+ * Last write wins, field by field: what to take from the remote copy, and whether the local
+ * one has changes the remote lacks. Ties go to the remote copy, so a device joining with
+ * settings it never changed picks up the synced ones. Only `synced` fields are looked at.
+ */
+export const mergeSettings = (
+  local: SettingsSnapshot,
+  remote: SettingsSnapshot,
+  synced: SettingsField[],
+): SettingsMerge => {
+  const merge: SettingsMerge = { fields: {}, updatedAt: {}, hasNewer: false };
+
+  synced.forEach((field) => {
+    const localTime = local.updatedAt[field] ?? 0;
+    const remoteTime = remote.updatedAt[field] ?? 0;
+    if (!(field in remote.fields) || localTime > remoteTime) {
+      merge.hasNewer = true;
+    } else if (JSON.stringify(remote.fields[field]) !== JSON.stringify(local.fields[field])) {
+      Object.assign(merge.fields, { [field]: remote.fields[field] });
+      merge.updatedAt[field] = remoteTime;
+    } else if (remoteTime > localTime) {
+      merge.updatedAt[field] = remoteTime;
+    }
+  });
+  return merge;
+};
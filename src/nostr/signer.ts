@@ -0,0 +1,73 @@
+import {
+  finalizeEvent,
+  getPublicKey,
+  verifyEvent,
+  type EventTemplate,
+  type VerifiedEvent,
+} from 'nostr-tools';
+import type { WindowNostr } from 'nostr-tools/nip07';
+import * as nip44 from 'nostr-tools/nip44';
+
+declare global {
+  interface Window {
+    nostr?: WindowNostr; // injected by NIP-07 browser extensions
+  }
+}
+
+/**
+ * Signs events as one identity; everything the app publishes goes through one of these. It
+ * also encrypts for and decrypts from another key (NIP-44), e.g. its own for private data.
+ */
+export interface NostrSigner {
+  getPublicKey: () => Promise<string>;
+  signEvent: (event: EventTemplate) => Promise<VerifiedEvent>;
+  nip44Encrypt: (pubkey: string, plaintext: string) => Promise<string>;
+  nip44Decrypt: (pubkey: string, ciphertext: string) => Promise<string>;
+}
+
+/**
+ * Signer for a secret key held by the app
+ */
+export const createLocalSigner = (secretKey: Uint8Array): NostrSigner => {
+  const pubkey = getPublicKey(secretKey);
+  return {
+    getPublicKey: async () => pubkey,
+    signEvent: async (event) => finalizeEvent(event, secretKey),
+    nip44Encrypt: async (peer, plaintext) =>
+      nip44.encrypt(plaintext, nip44.getConversationKey(secretKey, peer)),
+    nip44Decrypt: async (peer, ciphertext) =>
+      nip44.decrypt(ciphertext, nip44.getConversationKey(secretKey, peer)),
+  };
+};
+
+const getNip44 = (nostr: WindowNostr) => {
+  if (!nostr.nip44) {
+    throw new Error('The browser extension cannot encrypt (NIP-44).');
+  }
+  return nostr.nip44;
+};
+
+/**
+ * Signer of a NIP-07 browser extension (nos2x, Alby...), null when none is installed. The key
+ * never leaves the extension, which may ask the user before each signature.
+ */
+export const getExtensionSigner = (): NostrSigner | null => {
+  const { nostr } = window;
+  if (!nostr) {
+    return null;
+  }
+
+  return {
+    getPublicKey: () => nostr.getPublicKey(),
+    signEvent: async (event) => {
+      const signed = await nostr.signEvent(event);
+      if (!verifyEvent(signed)) {
+        throw new Error('The browser extension returned an invalid signature.');
+      }
+      return signed;
+    },
+    // Older extensions only sign
+    nip44Encrypt: (pubkey, plaintext) => getNip44(nostr).encrypt(pubkey, plaintext),
+    nip44Decrypt: (pubkey, ciphertext) => getNip44(nostr).decrypt(pubkey, ciphertext),
+  };
+};
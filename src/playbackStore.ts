@@ -1,6 +1,7 @@
 import { createStore } from 'solid-js/store';
 
-import type { NoteEvent } from './components/Chart';
+import type { MelodyEvent } from './components/Chart';
+import type { TempoMap } from './utils/tempoUtils';
 
 export interface UserInputEvent {
   note: string;
@@ -9,9 +10,9 @@ export interface UserInputEvent {
 }
 
 export interface PlaybackError {
-  type: 'WRONG_NOTE' | 'TOO_EARLY' | 'TOO_LATE' | 'WRONG_DURATION' | 'MISSED_NOTE';
+  type: 'WRONG_NOTE' | 'TOO_EARLY' | 'TOO_LATE' | 'WRONG_DURATION' | 'MISSED_NOTE' | 'EXTRA_NOTE';
   noteIndex: number;
-  expectedNote: string;
+  expectedNote: string; // "rest" for EXTRA_NOTE errors
   actualNote?: string;
   timingError?: number; // ms
   durationError?: number; // ms
@@ -22,12 +23,14 @@ export interface PlaybackState {
   isPlaying: boolean;
   currentNoteIndex: number; // -1 when stopped/not started
   lastCompletedNoteIndex: number; // last note that fully finished (-1 initial)
-  melody: NoteEvent[];
+  melody: MelodyEvent[]; // the line the user plays (every track they play, merged)
+  accompaniment: MelodyEvent[][]; // tracks the app plays along with it
+  tempoMap: TempoMap; // written tempo and its changes, scaled by the global tempo
   startAfterTs: number | null; // timestamp (ms) to delay playback start; null means no delay
   expectedNoteIndex: number; // Index of note user should play (for wait-for-user mode)
   userInputEvents: UserInputEvent[]; // Array of user key press/release events
   errors: PlaybackError[]; // Array of detected errors
-  nextNoteToPlay: string | null; // Note that should be played next (for piano highlighting)
+  nextNotesToPlay: string[]; // Note or chord that should be played next (for piano highlighting)
 }
 
 const DEFAULT_PLAYBACK_STATE: PlaybackState = {
@@ -35,11 +38,13 @@ const DEFAULT_PLAYBACK_STATE: PlaybackState = {
   currentNoteIndex: -1,
   lastCompletedNoteIndex: -1,
   melody: [],
+  accompaniment: [],
+  tempoMap: {},
   startAfterTs: null,
   expectedNoteIndex: -1,
   userInputEvents: [],
   errors: [],
-  nextNoteToPlay: null,
+  nextNotesToPlay: [],
 };
 
 export const [playback, setPlayback] = createStore<PlaybackState>(DEFAULT_PLAYBACK_STATE);
@@ -0,0 +1,14 @@
+import { createStore } from 'solid-js/store';
+
+import { getSigner } from './identityStore';
+import { RelayPool, type RelayStatus } from './nostr/pool';
+
+// How each relay the app has used is connected, by relay address
+export const [relayStatus, setRelayStatus] = createStore<Record<string, RelayStatus>>({});
+
+// Every Nostr feature goes through this pool, signing NIP-42 authentication as the active
+// identity when a relay asks for it
+export const relayPool = new RelayPool({
+  getSigner,
+  onStatus: (relay, status) => setRelayStatus(relay, status),
+});
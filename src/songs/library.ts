@@ -0,0 +1,339 @@
+import { createEffect, createSignal, on } from 'solid-js';
+import { reconcile } from 'solid-js/store';
+
+import { setSettings, settings, type Song, type SongDifficulty } from '@lib/store';
+
+export const DEFAULT_SONG_ID = 'twinkle-twinkle';
+
+export const DIFFICULTY_LABELS: Record<SongDifficulty, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+export const BUILTIN_SONGS: Record<string, Song> = {
+  'twinkle-twinkle': {
+    id: 'twinkle-twinkle',
+    title: 'Twinkle Twinkle Little Star',
+    composer: 'Traditional',
+    difficulty: 'beginner',
+    melody: {
+      ratio: [4, 4],
+      // Ritardando over the last bar
+      tempoChanges: [
+        { beat: 12, bpm: 120 },
+        { beat: 16, bpm: 80, ramp: true },
+      ],
+      notes: [
+        { note: 'C4', duration: 1, lyric: { text: 'Twin', hyphen: true } },
+        { note: 'C4', duration: 1, lyric: { text: 'kle' } },
+        { note: 'G4', duration: 1, lyric: { text: 'twin', hyphen: true } },
+        { note: 'G4', duration: 1, lyric: { text: 'kle' } },
+        { note: 'A4', duration: 1, lyric: { text: 'lit', hyphen: true } },
+        { note: 'A4', duration: 1, lyric: { text: 'tle' } },
+        { note: 'G4', duration: 2, lyric: { text: 'star,' } },
+
+        { note: 'F4', duration: 1, lyric: { text: 'how' } },
+        { note: 'F4', duration: 1, lyric: { text: 'I' } },
+        { note: 'E4', duration: 1, lyric: { text: 'won', hyphen: true } },
+        { note: 'E4', duration: 1, lyric: { text: 'der' } },
+        { note: 'D4', duration: 1, lyric: { text: 'what' } },
+        { note: 'D4', duration: 1, lyric: { text: 'you' } },
+        { note: 'C4', duration: 2, lyric: { text: 'are' } },
+      ],
+      trackName: 'Right hand',
+      tracks: [
+        {
+          id: 'lh',
+          name: 'Left hand',
+          clef: 'bass',
+          notes: [
+            { note: 'C3', duration: 4 },
+
+            { note: 'F3', duration: 2 },
+            { note: 'C3', duration: 2 },
+
+            { note: 'F3', duration: 2 },
+            { note: 'C3', duration: 2 },
+
+            { note: 'G3', duration: 2 },
+            { note: 'C3', duration: 2 },
+          ],
+        },
+      ],
+    },
+  },
+  'hot-cross-buns': {
+    id: 'hot-cross-buns',
+    title: 'Hot Cross Buns',
+    composer: 'Traditional',
+    difficulty: 'beginner',
+    melody: {
+      ratio: [4, 4],
+      notes: [
+        { note: 'E4', duration: 1, lyric: { text: 'Hot' } },
+        { note: 'D4', duration: 1, lyric: { text: 'cross' } },
+        { note: 'C4', duration: 2, lyric: { text: 'buns,' } },
+
+        { note: 'E4', duration: 1, lyric: { text: 'hot' } },
+        { note: 'D4', duration: 1, lyric: { text: 'cross' } },
+        { note: 'C4', duration: 2, lyric: { text: 'buns,' } },
+
+        { note: 'C4', duration: 0.5, lyric: { text: 'one' } },
+        { note: 'C4', duration: 0.5, lyric: { text: 'a' } },
+        { note: 'C4', duration: 0.5, lyric: { text: 'pen', hyphen: true } },
+        { note: 'C4', duration: 0.5, lyric: { text: 'ny,' } },
+        { note: 'D4', duration: 0.5, lyric: { text: 'two' } },
+        { note: 'D4', duration: 0.5, lyric: { text: 'a' } },
+        { note: 'D4', duration: 0.5, lyric: { text: 'pen', hyphen: true } },
+        { note: 'D4', duration: 0.5, lyric: { text: 'ny,' } },
+
+        { note: 'E4', duration: 1, lyric: { text: 'hot' } },
+        { note: 'D4', duration: 1, lyric: { text: 'cross' } },
+        { note: 'C4', duration: 2, lyric: { text: 'buns' } },
+      ],
+    },
+  },
+  'mary-had-a-little-lamb': {
+    id: 'mary-had-a-little-lamb',
+    title: 'Mary Had a Little Lamb',
+    composer: 'Traditional',
+    difficulty: 'beginner',
+    melody: {
+      ratio: [4, 4],
+      notes: [
+        { note: 'E4', duration: 1, lyric: { text: 'Ma', hyphen: true } },
+        { note: 'D4', duration: 1, lyric: { text: 'ry' } },
+        { note: 'C4', duration: 1, lyric: { text: 'had' } },
+        { note: 'D4', duration: 1, lyric: { text: 'a' } },
+
+        { note: 'E4', duration: 1, lyric: { text: 'lit', hyphen: true } },
+        { note: 'E4', duration: 1, lyric: { text: 'tle' } },
+        { note: 'E4', duration: 2, lyric: { text: 'lamb,' } },
+
+        { note: 'D4', duration: 1, lyric: { text: 'lit', hyphen: true } },
+        { note: 'D4', duration: 1, lyric: { text: 'tle' } },
+        { note: 'D4', duration: 2, lyric: { text: 'lamb,' } },
+
+        { note: 'E4', duration: 1, lyric: { text: 'lit', hyphen: true } },
+        { note: 'G4', duration: 1, lyric: { text: 'tle' } },
+        { note: 'G4', duration: 2, lyric: { text: 'lamb,' } },
+
+        { note: 'E4', duration: 1, lyric: { text: 'Ma', hyphen: true } },
+        { note: 'D4', duration: 1, lyric: { text: 'ry' } },
+        { note: 'C4', duration: 1, lyric: { text: 'had' } },
+        { note: 'D4', duration: 1, lyric: { text: 'a' } },
+
+        { note: 'E4', duration: 1, lyric: { text: 'lit', hyphen: true } },
+        { note: 'E4', duration: 1, lyric: { text: 'tle' } },
+        { note: 'E4', duration: 1, lyric: { text: 'lamb,' } },
+        { note: 'E4', duration: 1, lyric: { text: 'its' } },
+
+        { note: 'D4', duration: 1, lyric: { text: 'fleece' } },
+        { note: 'D4', duration: 1, lyric: { text: 'was' } },
+        { note: 'E4', duration: 1, lyric: { text: 'white' } },
+        { note: 'D4', duration: 1, lyric: { text: 'as' } },
+
+        { note: 'C4', duration: 4, lyric: { text: 'snow' } },
+      ],
+    },
+  },
+  'ode-to-joy': {
+    id: 'ode-to-joy',
+    title: 'Ode to Joy',
+    composer: 'Ludwig van Beethoven',
+    difficulty: 'intermediate',
+    melody: {
+      ratio: [4, 4],
+      // Played twice, with a first and a second ending
+      repeats: [{ start: 0, end: 16 }],
+      voltas: [
+        { start: 12, end: 16, passes: [1] },
+        { start: 16, end: 20, passes: [2] },
+      ],
+      notes: [
+        { note: 'E4', duration: 1 },
+        { note: 'E4', duration: 1 },
+        { note: 'F4', duration: 1 },
+        { note: 'G4', duration: 1 },
+
+        { note: 'G4', duration: 1 },
+        { note: 'F4', duration: 1 },
+        { note: 'E4', duration: 1 },
+        { note: 'D4', duration: 1 },
+
+        { note: 'C4', duration: 1 },
+        { note: 'C4', duration: 1 },
+        { note: 'D4', duration: 1 },
+        { note: 'E4', duration: 1 },
+
+        { note: 'E4', duration: 1.5 },
+        { note: 'D4', duration: 0.5 },
+        { note: 'D4', duration: 2 },
+
+        { note: 'D4', duration: 1.5 },
+        { note: 'C4', duration: 0.5 },
+        { note: 'C4', duration: 2 },
+      ],
+    },
+  },
+  'frere-jacques': {
+    id: 'frere-jacques',
+    title: 'Frère Jacques',
+    composer: 'Traditional',
+    difficulty: 'intermediate',
+    melody: {
+      ratio: [4, 4],
+      notes: [
+        { note: 'C4', duration: 1 },
+        { note: 'D4', duration: 1 },
+        { note: 'E4', duration: 1 },
+        { note: 'C4', duration: 1 },
+
+        { note: 'C4', duration: 1 },
+        { note: 'D4', duration: 1 },
+        { note: 'E4', duration: 1 },
+        { note: 'C4', duration: 1 },
+
+        { note: 'E4', duration: 1 },
+        { note: 'F4', duration: 1 },
+        { note: 'G4', duration: 2 },
+
+        { note: 'E4', duration: 1 },
+        { note: 'F4', duration: 1 },
+        { note: 'G4', duration: 2 },
+
+        { note: 'G4', duration: 0.5 },
+        { note: 'A4', duration: 0.5 },
+        { note: 'G4', duration: 0.5 },
+        { note: 'F4', duration: 0.5 },
+        { note: 'E4', duration: 1 },
+        { note: 'C4', duration: 1 },
+
+        { note: 'G4', duration: 0.5 },
+        { note: 'A4', duration: 0.5 },
+        { note: 'G4', duration: 0.5 },
+        { note: 'F4', duration: 0.5 },
+        { note: 'E4', duration: 1 },
+        { note: 'C4', duration: 1 },
+
+        { note: 'C4', duration: 1 },
+        { note: 'G3', duration: 1 },
+        { note: 'C4', duration: 2 },
+
+        { note: 'C4', duration: 1 },
+        { note: 'G3', duration: 1 },
+        { note: 'C4', duration: 2 },
+      ],
+    },
+  },
+  'minuet-in-g': {
+    id: 'minuet-in-g',
+    title: 'Minuet in G',
+    composer: 'Christian Petzold',
+    difficulty: 'advanced',
+    melody: {
+      ratio: [3, 4],
+      notes: [
+        { note: 'D5', duration: 1 },
+        { note: 'G4', duration: 0.5 },
+        { note: 'A4', duration: 0.5 },
+        { note: 'B4', duration: 0.5 },
+        { note: 'C5', duration: 0.5 },
+
+        { note: 'D5', duration: 1 },
+        { note: 'G4', duration: 1 },
+        { note: 'G4', duration: 1 },
+
+        { note: 'E5', duration: 1 },
+        { note: 'C5', duration: 0.5 },
+        { note: 'D5', duration: 0.5 },
+        { note: 'E5', duration: 0.5 },
+        { note: 'F#5', duration: 0.5 },
+
+        { note: 'G5', duration: 1 },
+        { note: 'G4', duration: 1 },
+        { note: 'G4', duration: 1 },
+
+        { note: 'C5', duration: 1 },
+        { note: 'D5', duration: 0.5 },
+        { note: 'C5', duration: 0.5 },
+        { note: 'B4', duration: 0.5 },
+        { note: 'A4', duration: 0.5 },
+
+        { note: 'B4', duration: 1 },
+        { note: 'C5', duration: 0.5 },
+        { note: 'B4', duration: 0.5 },
+        { note: 'A4', duration: 0.5 },
+        { note: 'G4', duration: 0.5 },
+
+        { note: 'F#4', duration: 1 },
+        { note: 'G4', duration: 0.5 },
+        { note: 'A4', duration: 0.5 },
+        { note: 'B4', duration: 0.5 },
+        { note: 'G4', duration: 0.5 },
+
+        { note: 'A4', duration: 3 },
+      ],
+    },
+  },
+};
+
+export function getAllSongs(): Record<string, Song> {
+  return { ...BUILTIN_SONGS, ...settings.customSongs };
+}
+
+// A song loaded from elsewhere (a Nostr relay) without being saved: it takes the place of the
+// selected song until it is unloaded or another song is selected
+const [loadedSong, setLoadedSong] = createSignal<Song | null>(null);
+
+export { loadedSong };
+
+export function loadSong(song: Song): void {
+  setLoadedSong(song);
+}
+
+export function unloadSong(): void {
+  setLoadedSong(null);
+}
+
+createEffect(on(() => settings.currentSongId, unloadSong, { defer: true }));
+
+/**
+ * Get the loaded song, or else the song currently selected in settings, falling back to the
+ * default song
+ */
+export function getCurrentSong(): Song {
+  return loadedSong() ?? (getAllSongs()[settings.currentSongId] || BUILTIN_SONGS[DEFAULT_SONG_ID]);
+}
+
+/**
+ * Save a song to the user's library and select it
+ */
+export function addCustomSong(song: Omit<Song, 'id'>): Song {
+  const newSong: Song = { ...song, id: `song-${Date.now()}` };
+
+  setSettings('customSongs', {
+    ...settings.customSongs,
+    [newSong.id]: newSong,
+  });
+  setSettings('currentSongId', newSong.id);
+
+  return newSong;
+}
+
+export function deleteCustomSong(songId: string): void {
+  if (BUILTIN_SONGS[songId]) {
+    return; // Can't delete built-in songs
+  }
+
+  // Setting an object merges it into the store, which would keep the deleted key
+  const customSongs = { ...settings.customSongs };
+  delete customSongs[songId];
+  setSettings('customSongs', reconcile(customSongs));
+
+  // If we deleted the current song, switch back to the default
+  if (settings.currentSongId === songId) {
+    setSettings('currentSongId', DEFAULT_SONG_ID);
+  }
+}
@@ -1,9 +1,12 @@
 import { createEffect } from 'solid-js';
 import { createStore } from 'solid-js/store';
 
+import type { KeySignature, Melody } from './components/Chart';
+
 export type Waveform = 'triangle' | 'sine' | 'square' | 'sawtooth';
 export type ChartType = 'bar' | 'sheet';
 export type PlaybackMode = 'normal' | 'waitForUser' | 'errorTracking';
+export type TrackRole = 'user' | 'app' | 'muted'; // who plays a track of the melody
 
 export type InstrumentPreset = {
   id: string;
@@ -44,12 +47,24 @@ export type InstrumentPreset = {
   };
 };
 
-interface Settings {
+export type SongDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export type Song = {
+  id: string;
+  title: string;
+  composer: string;
+  difficulty: SongDifficulty;
+  melody: Melody;
+};
+
+export interface Settings {
   waveform: Waveform; // Keep for backward compatibility and waveform toggle button
   volume: number;
   tempo: number;
   currentPresetId: string;
   customPresets: Record<string, InstrumentPreset>;
+  currentSongId: string;
+  customSongs: Record<string, Song>;
   showNotes: boolean;
   showShortcuts: boolean;
   octaveCount: number; // 1 or 2
@@ -62,9 +77,15 @@ interface Settings {
   contrastColors: Record<string, string>;
   playbackMode: PlaybackMode;
   showNextNoteHint: boolean;
+  snapToMeasures: boolean; // Chart scrolling seeks to bar lines instead of single notes
+  trackRoles: Record<string, TrackRole>; // by track id; unset tracks use their default role
+  transpose: number; // semitones every song is shifted by
+  transposeKey: KeySignature | null; // spelling picked in the key menu, used while the shift leads there
+  fitToPiano: boolean; // Songs move by whole octaves onto the keys the piano shows
+  nostrRelays: string[]; // Relays songs are published to and settings synced with
 }
 
-const SETTINGS_VERSION = 7;
+export const SETTINGS_VERSION = 8;
 const STORAGE_KEY = 'solid-piano-settings';
 
 export const DEFAULT_NOTE_COLORS: Record<string, string> = {
@@ -105,6 +126,8 @@ const DEFAULT_SETTINGS: Settings = {
   tempo: 120,
   currentPresetId: 'simple',
   customPresets: {},
+  currentSongId: 'twinkle-twinkle',
+  customSongs: {},
   showNotes: true,
   showShortcuts: true,
   octaveCount: 1,
@@ -117,6 +140,37 @@ const DEFAULT_SETTINGS: Settings = {
   contrastColors: DEFAULT_CONTRAST_COLORS,
   playbackMode: 'normal',
   showNextNoteHint: true,
+  snapToMeasures: false,
+  trackRoles: {},
+  transpose: 0,
+  transposeKey: null,
+  fitToPiano: false,
+  nostrRelays: ['wss://relay.damus.io', 'wss://nos.lol', 'wss://relay.primal.net'],
+};
+
+const isRecord = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Version 8 adds the song library, track roles, transposition and the Nostr relays. Older
+ * settings get the defaults, except where a field is already there with the right shape.
+ */
+const migrateToVersion8 = (data: Settings): Settings => {
+  const keep = <K extends keyof Settings>(field: K, isValid: (value: unknown) => boolean) =>
+    isValid(data[field]) ? data[field] : DEFAULT_SETTINGS[field];
+  return {
+    ...data,
+    currentSongId: keep('currentSongId', (value) => typeof value === 'string'),
+    customSongs: keep('customSongs', isRecord),
+    snapToMeasures: keep('snapToMeasures', (value) => typeof value === 'boolean'),
+    trackRoles: keep('trackRoles', isRecord),
+    transpose: keep('transpose', Number.isInteger),
+    transposeKey: keep('transposeKey', isRecord),
+    fitToPiano: keep('fitToPiano', (value) => typeof value === 'boolean'),
+    nostrRelays: keep(
+      'nostrRelays',
+      (value) => Array.isArray(value) && value.every((relay) => typeof relay === 'string'),
+    ),
+  };
 };
 
 // Load from LocalStorage
@@ -138,7 +192,7 @@ const loadSettings = (): Settings => {
           migrated.customPresets = {};
         }
 
-        return migrated;
+        return parsed.version < 8 ? migrateToVersion8(migrated) : migrated;
       }
     }
   } catch (e) {
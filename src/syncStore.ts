@@ -0,0 +1,259 @@
+import type { Event } from 'nostr-tools';
+import { createEffect, on, untrack } from 'solid-js';
+import { createStore, reconcile } from 'solid-js/store';
+
+import { getSigner, identity } from './identityStore';
+import {
+  createSettingsEvent,
+  createSettingsFilter,
+  mergeSettings,
+  readSettingsEvent,
+  type SettingsField,
+  type SettingsSnapshot,
+} from './nostr/settingsEvent';
+import type { NostrSigner } from './nostr/signer';
+import { relayPool } from './relayStore';
+import { SETTINGS_VERSION, setSettings, settings } from './store';
+
+// Whether sync is on, and when each setting last changed on this device
+const SYNC_STORAGE_KEY = 'solid-piano-settings-sync';
+// Changes made in a row are sent together
+const PUBLISH_DELAY_MS = 2000;
+
+// Kept to this device: they suit its screen and speakers. Songs are too big to sync and are
+// shared as melody events instead.
+const DEVICE_FIELDS: SettingsField[] = [
+  'volume',
+  'octaveCount',
+  'baseOctave',
+  'showOctaveControls',
+  'customSongs',
+  'currentSongId',
+];
+
+const SYNCED_FIELDS = (Object.keys(settings) as SettingsField[]).filter(
+  (field) => !DEVICE_FIELDS.includes(field),
+);
+
+export type SyncStatus = 'off' | 'signedOut' | 'syncing' | 'synced' | 'conflict' | 'error';
+
+export interface SyncState {
+  enabled: boolean;
+  status: SyncStatus;
+  message: string | null; // what went wrong, for the error and conflict statuses
+  lastSyncedAt: number | null; // Date.now() time the relays last agreed with this device
+}
+
+interface StoredSync {
+  enabled: boolean;
+  updatedAt: Partial<Record<SettingsField, number>>;
+}
+
+const loadStoredSync = (): StoredSync => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SYNC_STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored === 'object') {
+      return { enabled: stored.enabled === true, updatedAt: stored.updatedAt ?? {} };
+    }
+  } catch (e) {
+    console.error('Failed to load settings sync state:', e);
+  }
+  return { enabled: false, updatedAt: {} };
+};
+
+const stored = loadStoredSync();
+const updatedAt = stored.updatedAt;
+
+export const [sync, setSync] = createStore<SyncState>({
+  enabled: stored.enabled,
+  status: 'off',
+  message: null,
+  lastSyncedAt: null,
+});
+
+const saveStoredSync = () =>
+  localStorage.setItem(SYNC_STORAGE_KEY, JSON.stringify({ enabled: sync.enabled, updatedAt }));
+
+const getSnapshot = (): SettingsSnapshot => ({
+  version: SETTINGS_VERSION,
+  fields: Object.fromEntries(SYNCED_FIELDS.map((field) => [field, settings[field]])),
+  updatedAt: { ...updatedAt },
+});
+
+// Time every change of a synced setting, whether sync is on or not, so that turning it on
+// later merges fairly
+const lastValues = new Map(
+  SYNCED_FIELDS.map((field) => [field, JSON.stringify(settings[field])] as const),
+);
+createEffect(() => {
+  const now = Date.now();
+  const changed = SYNCED_FIELDS.filter((field) => {
+    const value = JSON.stringify(settings[field]);
+    if (value === lastValues.get(field)) {
+      return false;
+    }
+    lastValues.set(field, value);
+    updatedAt[field] = now;
+    return true;
+  });
+  if (changed.length > 0) {
+    saveStoredSync();
+    untrack(schedulePublish);
+  }
+});
+
+let publishTimer: ReturnType<typeof setTimeout> | undefined;
+let lastCreatedAt = 0;
+// Set while the relays hold settings from a newer version of the app, which this one must
+// not overwrite
+let isBlockedByNewerVersion = false;
+
+const isActive = () => sync.enabled && identity.pubkey !== null && getSigner() !== null;
+
+const fail = (err: unknown) =>
+  setSync({ status: 'error', message: err instanceof Error ? err.message : String(err) });
+
+function schedulePublish() {
+  if (!isActive() || isBlockedByNewerVersion) {
+    return;
+  }
+  clearTimeout(publishTimer);
+  setSync({ status: 'syncing', message: null });
+  publishTimer = setTimeout(() => publishSettings().catch(fail), PUBLISH_DELAY_MS);
+}
+
+const publishSettings = async () => {
+  const signer = getSigner();
+  if (!signer || isBlockedByNewerVersion) {
+    return;
+  }
+  // A replacement must be newer than what it replaces, even within the same second
+  lastCreatedAt = Math.max(Math.floor(Date.now() / 1000), lastCreatedAt + 1);
+  const event = await signer.signEvent(
+    await createSettingsEvent(getSnapshot(), signer, lastCreatedAt),
+  );
+  const results = await relayPool.publish(event, settings.nostrRelays);
+  if (results.some(({ ok }) => ok)) {
+    setSync({ status: 'synced', message: null, lastSyncedAt: Date.now() });
+  } else {
+    setSync({
+      status: 'error',
+      message: `No relay took the settings: ${results
+        .map(({ relay, message }) => `${relay} (${message})`)
+        .join(', ')}`,
+    });
+  }
+};
+
+/**
+ * Take in the settings another device synced: newer fields replace the local ones, and the
+ * local copy is sent back when it has newer ones of its own
+ */
+const receiveSettings = (remote: SettingsSnapshot) => {
+  if (remote.version > SETTINGS_VERSION) {
+    isBlockedByNewerVersion = true;
+    clearTimeout(publishTimer);
+    setSync({
+      status: 'conflict',
+      message:
+        'Settings were synced by a newer version of the app. Reload to update it; until then they are not synced.',
+    });
+    return;
+  }
+
+  const merge = mergeSettings(getSnapshot(), remote, SYNCED_FIELDS);
+  Object.assign(updatedAt, merge.updatedAt);
+  (Object.keys(merge.fields) as SettingsField[]).forEach((field) => {
+    const value = merge.fields[field];
+    // Recorded first, so that the change is not timed as a local one
+    lastValues.set(field, JSON.stringify(value));
+    setSettings(field, reconcile(value as never));
+  });
+  saveStoredSync();
+
+  // Written by an older version: sent again in this one's format
+  if (merge.hasNewer || remote.version < SETTINGS_VERSION) {
+    schedulePublish();
+  } else if (sync.status !== 'syncing') {
+    setSync({ status: 'synced', message: null, lastSyncedAt: Date.now() });
+  }
+};
+
+const receiveSettingsEvent = async (event: Event, signer: NostrSigner) => {
+  const remote = await readSettingsEvent(event, signer);
+  if (!remote) {
+    throw new Error('The synced settings could not be decrypted.');
+  }
+  receiveSettings(remote);
+};
+
+/**
+ * Take in the settings synced so far and the ones synced from now on; when the relays have
+ * none yet, this device's settings become the first copy
+ */
+const followSyncedSettings = (
+  pubkey: string,
+  relays: string[],
+  signer: NostrSigner,
+): (() => void) => {
+  let hasRemote = false;
+  const pending = new Set(relays);
+  const settle = (relay: string) => {
+    pending.delete(relay);
+    if (pending.size === 0 && !hasRemote) {
+      schedulePublish();
+    }
+  };
+
+  return relayPool.subscribe(relays, [createSettingsFilter(pubkey)], {
+    onEvent: (event) => {
+      hasRemote = true;
+      receiveSettingsEvent(event, signer).catch(fail);
+    },
+    onEose: settle,
+    onClose: settle,
+  });
+};
+
+// Follow the synced settings on the relays while sync is on and someone is signed in
+createEffect(
+  on(
+    (): [boolean, string | null, string[]] => [
+      sync.enabled,
+      identity.pubkey,
+      [...settings.nostrRelays],
+    ],
+    ([enabled, pubkey, relays], _, stopFollowing?: () => void) => {
+      stopFollowing?.();
+      clearTimeout(publishTimer);
+      isBlockedByNewerVersion = false;
+      const signer = getSigner();
+      if (!enabled) {
+        setSync({ status: 'off', message: null });
+        return undefined;
+      }
+      if (!pubkey || !signer) {
+        setSync({ status: 'signedOut', message: null });
+        return undefined;
+      }
+      setSync({ status: 'syncing', message: null });
+      return followSyncedSettings(pubkey, relays, signer);
+    },
+  ),
+);
+
+export const setSyncEnabled = (enabled: boolean) => {
+  setSync('enabled', enabled);
+  saveStoredSync();
+};
+
+/**
+ * Send this device's settings now instead of waiting for the next change
+ */
+export const syncNow = () => {
+  if (isActive() && !isBlockedByNewerVersion) {
+    clearTimeout(publishTimer);
+    setSync({ status: 'syncing', message: null });
+    publishSettings().catch(fail);
+  }
+};
@@ -0,0 +1,26 @@
+/**
+ * Trigger a browser download for in-memory data
+ */
+export function downloadFile(data: BlobPart, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Turn a song title into a safe file name (without extension)
+ */
+export function toFileName(title: string): string {
+  const cleaned = title
+    .trim()
+    .replace(/[^\p{L}\p{N}\-_ ]+/gu, '')
+    .replace(/\s+/g, '-');
+  return cleaned || 'song';
+}
@@ -0,0 +1,112 @@
+import type { DynamicLevel, HairpinMark, MelodyEvent } from '@lib/components/Chart';
+
+import { isRest } from './melodyUtils';
+import { getEventStartBeats } from './rhythmUtils';
+
+// Softest to loudest
+export const DYNAMIC_LEVELS: DynamicLevel[] = ['pp', 'p', 'mp', 'mf', 'f', 'ff'];
+
+// MIDI velocity each marking is played at
+export const DYNAMIC_VELOCITIES: Record<DynamicLevel, number> = {
+  pp: 33,
+  p: 49,
+  mp: 64,
+  mf: 80,
+  f: 96,
+  ff: 112,
+};
+
+const DEFAULT_DYNAMIC: DynamicLevel = 'mf'; // assumed when a hairpin starts before any marking
+const HAIRPIN_STEP = 16; // one level, for a hairpin not followed by a marking
+
+export const clampVelocity = (velocity: number): number =>
+  Math.max(1, Math.min(127, Math.round(velocity)));
+
+/**
+ * Marking closest to a MIDI velocity
+ */
+export const velocityToDynamic = (velocity: number): DynamicLevel =>
+  DYNAMIC_LEVELS.reduce((closest, level) =>
+    Math.abs(DYNAMIC_VELOCITIES[level] - velocity) <
+    Math.abs(DYNAMIC_VELOCITIES[closest] - velocity)
+      ? level
+      : closest,
+  );
+
+export interface HairpinSpan {
+  type: HairpinMark['type'];
+  startIndex: number;
+  endIndex: number; // inclusive
+}
+
+/**
+ * Hairpins as event ranges: from an event marked `start` (or after an event without a
+ * hairpin) to the next one marked `end`
+ */
+export const getHairpinSpans = (events: MelodyEvent[]): HairpinSpan[] => {
+  const spans: HairpinSpan[] = [];
+  let open: HairpinSpan | null = null;
+
+  events.forEach((event, index) => {
+    const { hairpin } = event;
+    if (!hairpin) {
+      open = null;
+      return;
+    }
+    if (!open || hairpin.start || hairpin.type !== open.type) {
+      open = { type: hairpin.type, startIndex: index, endIndex: index };
+      spans.push(open);
+    }
+    open.endIndex = index;
+    if (hairpin.end) {
+      open = null;
+    }
+  });
+
+  return spans;
+};
+
+/**
+ * Velocity every event is played at: the last dynamic marking, moving linearly (by beat)
+ * under hairpins. An event's own `velocity` wins. Undefined until the first marking.
+ */
+export const getEventVelocities = (events: MelodyEvent[]): (number | undefined)[] => {
+  const beats = getEventStartBeats(events);
+  const spans = new Map(getHairpinSpans(events).map((span) => [span.startIndex, span]));
+
+  let current: number | undefined;
+  let hairpin: { span: HairpinSpan; from: number; to: number } | null = null;
+
+  return events.map((event, index) => {
+    if (event.dynamic && !hairpin) {
+      current = DYNAMIC_VELOCITIES[event.dynamic];
+    }
+
+    const span = spans.get(index);
+    if (span) {
+      const from = current ?? DYNAMIC_VELOCITIES[DEFAULT_DYNAMIC];
+      // The hairpin leads to the marking right after it, or one level past where it started
+      const target = events[span.endIndex + 1]?.dynamic;
+      const to = target
+        ? DYNAMIC_VELOCITIES[target]
+        : clampVelocity(from + (span.type === 'crescendo' ? HAIRPIN_STEP : -HAIRPIN_STEP));
+      hairpin = { span, from, to };
+    }
+
+    let velocity = current;
+    if (hairpin) {
+      const { span, from, to } = hairpin;
+      const length = beats[span.endIndex + 1] - beats[span.startIndex];
+      const progress = length > 0 ? (beats[index] - beats[span.startIndex]) / length : 0;
+      velocity = clampVelocity(from + (to - from) * progress);
+      if (index === span.endIndex) {
+        current = to;
+        hairpin = null;
+      }
+    }
+
+    return !isRest(event) && event.velocity !== undefined
+      ? clampVelocity(event.velocity)
+      : velocity;
+  });
+};
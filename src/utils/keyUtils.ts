@@ -0,0 +1,175 @@
+import type { KeySignature, MelodyEvent, MeterChange } from '@lib/components/Chart';
+
+import { getEventPitches, isRest, isTiedFromPrevious } from './melodyUtils';
+import { formatNoteName, LETTER_SEMITONES, parseNoteName } from './musicUtils';
+import { getMeasureIndexAt, getMeasures } from './rhythmUtils';
+
+// Order in which sharps and flats are added to a key signature
+export const SHARP_ORDER = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+export const FLAT_ORDER = ['B', 'E', 'A', 'D', 'G', 'C', 'F'];
+
+// Tonic of each key by position on the circle of fifths, from 7 flats to 7 sharps
+const MAJOR_TONICS = [
+  'Cb',
+  'Gb',
+  'Db',
+  'Ab',
+  'Eb',
+  'Bb',
+  'F',
+  'C',
+  'G',
+  'D',
+  'A',
+  'E',
+  'B',
+  'F#',
+  'C#',
+];
+const MINOR_TONICS = [
+  'Ab',
+  'Eb',
+  'Bb',
+  'F',
+  'C',
+  'G',
+  'D',
+  'A',
+  'E',
+  'B',
+  'F#',
+  'C#',
+  'G#',
+  'D#',
+  'A#',
+];
+
+export interface AccidentalMark {
+  alter: number; // accidental to draw: -2 to 2, 0 for a natural
+  courtesy: boolean; // reminder after the previous measure altered the same note
+}
+
+const clampFifths = (fifths: number) => Math.max(-7, Math.min(7, Math.round(fifths)));
+
+/**
+ * Tonic of a key signature, e.g. "Bb" for one flat in major or "D" in minor
+ */
+export const getKeyTonic = (key: KeySignature): string =>
+  (key.mode === 'minor' ? MINOR_TONICS : MAJOR_TONICS)[clampFifths(key.fifths) + 7];
+
+/**
+ * Display name of a key signature, e.g. "Bb major"
+ */
+export const getKeyName = (key: KeySignature): string => `${getKeyTonic(key)} ${key.mode}`;
+
+/**
+ * Semitone alteration the key signature applies to each letter ({ B: -1 } in F major)
+ */
+export const getKeyAlters = (key?: KeySignature): Record<string, number> => {
+  const alters: Record<string, number> = {};
+  const fifths = clampFifths(key?.fifths ?? 0);
+  if (fifths > 0) {
+    SHARP_ORDER.slice(0, fifths).forEach((letter) => (alters[letter] = 1));
+  } else if (fifths < 0) {
+    FLAT_ORDER.slice(0, -fifths).forEach((letter) => (alters[letter] = -1));
+  }
+  return alters;
+};
+
+/**
+ * Spell a MIDI note number for a key: the key's own notes first, then naturals,
+ * then sharps in sharp keys and flats in flat keys (70 -> "Bb4" in F major, "A#4" in G major)
+ */
+export const spellMidi = (midi: number, key?: KeySignature): string => {
+  const alters = getKeyAlters(key);
+  const pitchClass = ((midi % 12) + 12) % 12;
+  const letters = Object.keys(LETTER_SEMITONES);
+
+  const spell = (letter: string, alter: number) =>
+    formatNoteName({
+      letter,
+      alter,
+      octave: Math.floor((midi - alter - LETTER_SEMITONES[letter]) / 12) - 1,
+    });
+  const matches = (letter: string, alter: number) =>
+    (LETTER_SEMITONES[letter] + alter + 12) % 12 === pitchClass;
+
+  const inKey = letters.find((letter) => matches(letter, alters[letter] ?? 0));
+  if (inKey) {
+    return spell(inKey, alters[inKey] ?? 0);
+  }
+  const natural = letters.find((letter) => matches(letter, 0));
+  if (natural) {
+    return spell(natural, 0);
+  }
+
+  const alter = (key?.fifths ?? 0) < 0 ? -1 : 1;
+  const letter = letters.find((candidate) => matches(candidate, alter)) ?? 'C';
+  return spell(letter, alter);
+};
+
+/**
+ * Accidentals to draw in front of each pitch, keyed by pitch name for every event.
+ * An accidental lasts until the bar line; notes continuing a tie never repeat it, and the
+ * first return to the key signature in the following measure gets a courtesy accidental.
+ */
+export const getAccidentalMarks = (
+  events: MelodyEvent[],
+  ratio: [number, number],
+  key?: KeySignature,
+  meterChanges?: MeterChange[],
+): Record<string, AccidentalMark>[] => {
+  const keyAlters = getKeyAlters(key);
+  const measures = getMeasures(
+    events.reduce((acc, event) => acc + event.duration, 0),
+    ratio,
+    meterChanges,
+  );
+
+  let measure = -1;
+  let beat = 0;
+  let inEffect = new Map<string, number>(); // staff position ("F4") -> alteration this measure
+  let alteredThisMeasure = new Set<string>();
+  let alteredLastMeasure = new Set<string>();
+
+  return events.map((event, index) => {
+    const eventMeasure = getMeasureIndexAt(measures, beat);
+    beat += event.duration;
+    if (eventMeasure !== measure) {
+      measure = eventMeasure;
+      inEffect = new Map();
+      alteredLastMeasure = alteredThisMeasure;
+      alteredThisMeasure = new Set();
+    }
+
+    const marks: Record<string, AccidentalMark> = {};
+    if (isRest(event) || isTiedFromPrevious(events, index)) {
+      return marks;
+    }
+
+    getEventPitches(event).forEach((pitch) => {
+      const parsed = parseNoteName(pitch);
+      if (!parsed) {
+        return;
+      }
+
+      const position = `${parsed.letter}${parsed.octave}`;
+      const keyAlter = keyAlters[parsed.letter] ?? 0;
+      const current = inEffect.get(position) ?? keyAlter;
+      if (parsed.alter !== current) {
+        marks[pitch] = { alter: parsed.alter, courtesy: false };
+      } else if (alteredLastMeasure.has(position) && !inEffect.has(position)) {
+        marks[pitch] = { alter: parsed.alter, courtesy: true };
+      } else {
+        return;
+      }
+
+      inEffect.set(position, parsed.alter);
+      if (parsed.alter !== keyAlter) {
+        alteredThisMeasure.add(position);
+      }
+    });
+
+    return marks;
+  });
+};
@@ -0,0 +1,39 @@
+import type { Lyric, MelodyEvent } from '@lib/components/Chart';
+
+import { isRest, isTiedFromPrevious } from './melodyUtils';
+
+export interface LyricSpan {
+  lyric: Lyric;
+  startIndex: number; // event the syllable is written under
+  endIndex: number; // last event it is sung over (inclusive)
+}
+
+/**
+ * Every syllable with the events it is sung over: its own event, tied continuations and,
+ * for a melisma, the following notes up to the next syllable or rest
+ */
+export const getLyricSpans = (events: MelodyEvent[]): LyricSpan[] => {
+  const spans: LyricSpan[] = [];
+
+  events.forEach((event, index) => {
+    if (isRest(event) || !event.lyric) {
+      return;
+    }
+
+    let endIndex = index;
+    while (endIndex + 1 < events.length) {
+      const next = events[endIndex + 1];
+      const continues =
+        isTiedFromPrevious(events, endIndex + 1) ||
+        (!!event.lyric.extend && !isRest(next) && !next.lyric);
+      if (!continues) {
+        break;
+      }
+      endIndex += 1;
+    }
+
+    spans.push({ lyric: event.lyric, startIndex: index, endIndex });
+  });
+
+  return spans;
+};
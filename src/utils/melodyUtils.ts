@@ -0,0 +1,185 @@
+import type {
+  ChordEvent,
+  Expression,
+  HairpinMark,
+  Lyric,
+  LyricNotation,
+  MelodyEvent,
+  NoteEvent,
+  RestEvent,
+  RhythmNotation,
+  TupletMark,
+} from '@lib/components/Chart';
+
+import { noteNameToMidi } from './musicUtils';
+
+export const isRest = (event: MelodyEvent): event is RestEvent => 'rest' in event && event.rest;
+
+export const isChord = (event: MelodyEvent): event is ChordEvent => 'notes' in event;
+
+/**
+ * Every pitch sounding in an event: one for a note, several for a chord, none for a rest
+ */
+export const getEventPitches = (event: MelodyEvent): string[] => {
+  if (isRest(event)) {
+    return [];
+  }
+  return isChord(event) ? event.notes : [event.note];
+};
+
+/**
+ * Build a note or, for several pitches, a chord (pitches sorted low to high)
+ */
+export const createPitchedEvent = (
+  pitches: string[],
+  duration: number,
+  notation: RhythmNotation & Expression & LyricNotation = {},
+): NoteEvent | ChordEvent => {
+  if (pitches.length === 1) {
+    return { note: pitches[0], duration, ...notation };
+  }
+  const notes = [...new Set(pitches)].sort(
+    (a, b) => (noteNameToMidi(a) ?? 0) - (noteNameToMidi(b) ?? 0),
+  );
+  return notes.length === 1
+    ? { note: notes[0], duration, ...notation }
+    : { notes, duration, ...notation };
+};
+
+/**
+ * The written rhythm marks set on an event (only the ones present)
+ */
+export const getRhythmNotation = (event: MelodyEvent): RhythmNotation => {
+  const notation: RhythmNotation = {};
+  if (event.dots !== undefined) {
+    notation.dots = event.dots;
+  }
+  if (!isRest(event) && event.tie) {
+    notation.tie = true;
+  }
+  if (event.tuplet) {
+    notation.tuplet = event.tuplet;
+  }
+  return notation;
+};
+
+/**
+ * The dynamics and velocity set on an event (only the ones present)
+ */
+export const getExpression = (event: MelodyEvent): Expression => {
+  const expression: Expression = {};
+  if (event.dynamic) {
+    expression.dynamic = event.dynamic;
+  }
+  if (event.hairpin) {
+    expression.hairpin = event.hairpin;
+  }
+  if (!isRest(event) && event.velocity !== undefined) {
+    expression.velocity = event.velocity;
+  }
+  return expression;
+};
+
+/**
+ * Highest of a non-empty list of pitches (the melody line of a chord)
+ */
+export const getHighestPitch = (pitches: string[]): string =>
+  pitches.reduce((top, pitch) =>
+    (noteNameToMidi(pitch) ?? 0) > (noteNameToMidi(top) ?? 0) ? pitch : top,
+  );
+
+/**
+ * Highest pitch of an event, or null for a rest
+ */
+export const getTopPitch = (event: MelodyEvent): string | null => {
+  const pitches = getEventPitches(event);
+  return pitches.length > 0 ? getHighestPitch(pitches) : null;
+};
+
+const isSameTuplet = (a?: TupletMark, b?: TupletMark): boolean =>
+  a === b ||
+  (!!a &&
+    !!b &&
+    a.actual === b.actual &&
+    a.normal === b.normal &&
+    !!a.start === !!b.start &&
+    !!a.end === !!b.end);
+
+const isSameHairpin = (a?: HairpinMark, b?: HairpinMark): boolean =>
+  a === b || (!!a && !!b && a.type === b.type && !!a.start === !!b.start && !!a.end === !!b.end);
+
+const isSameLyric = (a?: Lyric, b?: Lyric): boolean =>
+  a === b ||
+  (!!a && !!b && a.text === b.text && !!a.hyphen === !!b.hyphen && !!a.extend === !!b.extend);
+
+/**
+ * Compare two melody events by kind, pitches, duration, written rhythm, dynamics and lyrics
+ */
+export const isSameEvent = (a: MelodyEvent, b: MelodyEvent): boolean => {
+  if (a.duration !== b.duration || isRest(a) !== isRest(b) || isChord(a) !== isChord(b)) {
+    return false;
+  }
+  if (a.dots !== b.dots || !isSameTuplet(a.tuplet, b.tuplet)) {
+    return false;
+  }
+  if (!isRest(a) && !isRest(b) && !!a.tie !== !!b.tie) {
+    return false;
+  }
+  if (a.dynamic !== b.dynamic || !isSameHairpin(a.hairpin, b.hairpin)) {
+    return false;
+  }
+  if (!isRest(a) && !isRest(b) && (a.velocity !== b.velocity || !isSameLyric(a.lyric, b.lyric))) {
+    return false;
+  }
+  const aPitches = getEventPitches(a);
+  const bPitches = getEventPitches(b);
+  return aPitches.length === bPitches.length && aPitches.every((p, i) => p === bPitches[i]);
+};
+
+/**
+ * Index of the first sounding event at or after `fromIndex`, or -1 if only rests remain
+ */
+export const findNextNoteIndex = (events: MelodyEvent[], fromIndex: number): number => {
+  for (let i = Math.max(0, fromIndex); i < events.length; i++) {
+    if (!isRest(events[i])) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Pitches of the first sounding event at or after `fromIndex`, skipping rests
+ */
+export const getNextPitches = (events: MelodyEvent[], fromIndex: number): string[] => {
+  const index = findNextNoteIndex(events, fromIndex);
+  return index >= 0 ? getEventPitches(events[index]) : [];
+};
+
+/**
+ * Whether the event at `index` continues a tie from the event before it (same pitches)
+ */
+export const isTiedFromPrevious = (events: MelodyEvent[], index: number): boolean => {
+  const previous = events[index - 1];
+  const current = events[index];
+  if (!previous || !current || isRest(previous) || isRest(current) || !previous.tie) {
+    return false;
+  }
+  const previousPitches = getEventPitches(previous);
+  const currentPitches = getEventPitches(current);
+  return (
+    previousPitches.length === currentPitches.length &&
+    previousPitches.every((pitch) => currentPitches.includes(pitch))
+  );
+};
+
+/**
+ * Sounding length of the tie chain starting at `index` (just its duration when untied)
+ */
+export const getTiedDuration = (events: MelodyEvent[], index: number): number => {
+  let total = events[index].duration;
+  for (let i = index + 1; i < events.length && isTiedFromPrevious(events, i); i++) {
+    total += events[i].duration;
+  }
+  return total;
+};
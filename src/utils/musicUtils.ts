@@ -33,9 +33,8 @@ const adjustBrightness = (hex: string, percent: number): string => {
 };
 
 export const getNoteColor = (note: string, baseColors: Record<string, string>): string => {
-  // note format: "C4", "F#5", etc.
-  // Extract note name (letters) and octave (number)
-  const match = note.match(/^([A-G]#?)(-?\d+)$/);
+  // note format: "C4", "F#5", etc. Flats take the color of the key they are played on
+  const match = normalizeNoteName(note).match(/^([A-G]#?)(-?\d+)$/);
   if (!match) {
     return '#ffffff';
   }
@@ -84,7 +83,7 @@ export const getNoteContrastColor = (
   note: string,
   contrastColors: Record<string, string>,
 ): string => {
-  const match = note.match(/^([A-G]#?)(-?\d+)$/);
+  const match = normalizeNoteName(note).match(/^([A-G]#?)(-?\d+)$/);
   if (!match) {
     return '#ffffff';
   }
@@ -98,15 +97,20 @@ export const getNoteContrastColor = (
 export const SOLFEGE_MAP: Record<string, string> = {
   C: 'Do',
   'C#': 'Di',
+  Db: 'Ra',
   D: 'Re',
   'D#': 'Ri',
+  Eb: 'Me',
   E: 'Mi',
   F: 'Fa',
   'F#': 'Fi',
+  Gb: 'Se',
   G: 'Sol',
   'G#': 'Si',
+  Ab: 'Le',
   A: 'La',
   'A#': 'Li',
+  Bb: 'Te',
   B: 'Ti', // or Si
 };
 
@@ -117,8 +121,9 @@ export const getSolfege = (note: string): string => {
 };
 
 export const getNoteOctave = (note: string): number => {
-  const match = note.match(/^([A-G]#?)(-?\d+)$/);
-  return match ? parseInt(match[2], 10) : 4; // Default to 4 if invalid
+  // Octave of the key played, so "Cb5" is in octave 4 like B4
+  const midi = noteNameToMidi(note);
+  return midi === null ? 4 : Math.floor(midi / 12) - 1; // Default to 4 if invalid
 };
 
 export const isNoteVisible = (note: string, baseOctave: number, octaveCount: number): boolean => {
@@ -143,3 +148,85 @@ export const adjustBaseOctaveForNote = (
   // Adjust baseOctave to make the note visible (prefer showing higher range)
   return Math.max(1, noteOctave - octaveCount + 1);
 };
+
+const CHROMATIC_NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+/**
+ * Convert a MIDI note number to a note name (60 -> "C4")
+ */
+export const midiToNoteName = (midi: number): string => {
+  const octave = Math.floor(midi / 12) - 1;
+  return `${CHROMATIC_NOTE_NAMES[midi % 12]}${octave}`;
+};
+
+export const LETTER_SEMITONES: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+
+const ACCIDENTAL_ALTERS: Record<string, number> = { '': 0, '#': 1, '##': 2, b: -1, bb: -2 };
+
+export interface ParsedNoteName {
+  letter: string; // "C" to "B", the staff position
+  alter: number; // semitones from the natural letter: -2 to 2
+  octave: number; // scientific octave of the letter, so "Cb5" is written in octave 5
+}
+
+/**
+ * Split a note name with sharps or flats ("Bb4", "F##3") into letter, alteration and octave.
+ * Returns null if invalid.
+ */
+export const parseNoteName = (note: string): ParsedNoteName | null => {
+  const match = note.match(/^([A-G])(##|#|bb|b)?(-?\d+)$/);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    letter: match[1],
+    alter: ACCIDENTAL_ALTERS[match[2] ?? ''],
+    octave: parseInt(match[3], 10),
+  };
+};
+
+/**
+ * Build a note name from its parts ({ letter: 'B', alter: -1, octave: 4 } -> "Bb4")
+ */
+export const formatNoteName = ({ letter, alter, octave }: ParsedNoteName): string => {
+  const accidental = alter > 0 ? '#'.repeat(alter) : 'b'.repeat(-alter);
+  return `${letter}${accidental}${octave}`;
+};
+
+/**
+ * Convert a note name to a MIDI note number ("C4" -> 60, "Bb3" -> 58). Returns null if invalid.
+ */
+export const noteNameToMidi = (note: string): number | null => {
+  const parsed = parseNoteName(note);
+  if (!parsed) {
+    return null;
+  }
+
+  return (parsed.octave + 1) * 12 + LETTER_SEMITONES[parsed.letter] + parsed.alter;
+};
+
+/**
+ * Respell a note with the sharp names used by the piano keys ("Bb4" -> "A#4").
+ * Invalid names are returned unchanged.
+ */
+export const normalizeNoteName = (note: string): string => {
+  const midi = noteNameToMidi(note);
+  return midi === null ? note : midiToNoteName(midi);
+};
+
+/**
+ * Pitch class of a note, with or without octave (0 = C ... 11 = B). Returns null if invalid.
+ */
+export const getPitchClass = (note: string): number | null => {
+  const midi = noteNameToMidi(/-?\d+$/.test(note) ? note : `${note}4`);
+  return midi === null ? null : ((midi % 12) + 12) % 12;
+};
@@ -0,0 +1,110 @@
+import type { KeySignature, Melody, MelodyEvent } from '@lib/components/Chart';
+import type { UserInputEvent } from '@lib/playbackStore';
+
+import { spellMidi } from './keyUtils';
+import { createPitchedEvent } from './melodyUtils';
+import { noteNameToMidi } from './musicUtils';
+import { getMeasureDuration } from './rhythmUtils';
+
+// Grid positions are sums of fractions (triplets), so they are compared rounded
+const roundBeat = (beat: number) => Math.round(beat * 1e6) / 1e6;
+
+// A key held during a take, in beats from the first downbeat after the count-in
+export interface RecordedNote {
+  note: string;
+  start: number;
+  end: number;
+}
+
+export interface Take {
+  notes: RecordedNote[];
+  tempo: number; // bpm the metronome clicked at
+  ratio: [number, number];
+}
+
+export interface QuantizeOptions {
+  grid: number; // beats between the positions notes snap to, e.g. 0.5 for eighths
+  swing: number; // where the second position of each pair sits: 0.5 straight, 2/3 triplet feel
+  minLength: number; // beats; presses shorter than this are dropped as slips
+}
+
+export const DEFAULT_QUANTIZE_OPTIONS: QuantizeOptions = { grid: 0.25, swing: 0.5, minLength: 0 };
+
+/**
+ * Key presses timed in milliseconds as beats at a tempo, from `startTime`; keys still held
+ * end at `stopTime`
+ */
+export const toRecordedNotes = (
+  events: UserInputEvent[],
+  startTime: number,
+  stopTime: number,
+  tempo: number,
+): RecordedNote[] => {
+  const toBeat = (time: number) => ((time - startTime) * tempo) / 60000;
+  return events.map((event) => ({
+    note: event.note,
+    start: toBeat(event.pressTime),
+    end: toBeat(event.releaseTime ?? stopTime),
+  }));
+};
+
+/**
+ * Written beat of the grid position nearest a played beat. Positions come in pairs, the second
+ * `swing` of the way through the pair, and are written straight.
+ */
+export const snapToGrid = (beat: number, { grid, swing }: QuantizeOptions): number => {
+  const pair = grid * 2;
+  const index = Math.floor(beat / pair);
+  const offset = beat - index * pair;
+  const positions = [0, swing * pair, pair];
+  const nearest = positions.reduce(
+    (best, position, i) =>
+      Math.abs(offset - position) < Math.abs(offset - positions[best]) ? i : best,
+    0,
+  );
+  return roundBeat((index * 2 + nearest) * grid);
+};
+
+/**
+ * Write a take down as a melody: onsets and releases snap to the grid, keys pressed together
+ * make a chord, and a note is cut short where the next one starts. The last measure is filled
+ * with a rest.
+ */
+export const quantizeTake = (take: Take, options: QuantizeOptions, key?: KeySignature): Melody => {
+  const snapped = take.notes.flatMap((recorded) => {
+    const midi = noteNameToMidi(recorded.note);
+    if (midi === null || recorded.end - recorded.start < options.minLength) {
+      return [];
+    }
+    // Notes played early in the count-in land on the first downbeat
+    const start = Math.max(0, snapToGrid(recorded.start, options));
+    const end = Math.max(snapToGrid(recorded.end, options), roundBeat(start + options.grid));
+    return [{ pitch: spellMidi(midi, key), start, end }];
+  });
+
+  const onsets = Array.from(new Set(snapped.map(({ start }) => start))).sort((a, b) => a - b);
+  const notes: MelodyEvent[] = [];
+  let beat = 0;
+  onsets.forEach((start, i) => {
+    if (start > beat) {
+      notes.push({ rest: true, duration: roundBeat(start - beat) });
+    }
+    const chord = snapped.filter((note) => note.start === start);
+    const end = Math.min(Math.max(...chord.map((note) => note.end)), onsets[i + 1] ?? Infinity);
+    notes.push(
+      createPitchedEvent(
+        chord.map(({ pitch }) => pitch),
+        roundBeat(end - start),
+      ),
+    );
+    beat = end;
+  });
+
+  const measure = getMeasureDuration(take.ratio);
+  const total = roundBeat(Math.ceil(roundBeat(beat / measure)) * measure);
+  if (total > beat) {
+    notes.push({ rest: true, duration: roundBeat(total - beat) });
+  }
+
+  return { ratio: take.ratio, tempo: take.tempo, ...(key ? { key } : {}), notes };
+};
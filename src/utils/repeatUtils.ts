@@ -0,0 +1,269 @@
+import type {
+  Melody,
+  MelodyEvent,
+  MeterChange,
+  RepeatSection,
+  TempoChange,
+} from '@lib/components/Chart';
+
+import { isRest } from './melodyUtils';
+import { getEventStartBeats } from './rhythmUtils';
+import { getTempoAt } from './tempoUtils';
+
+const EPSILON = 1e-6;
+const DEFAULT_REPEAT_TIMES = 2;
+// However the marks are written, the melody is not unfolded to more than this many times its
+// written length
+const MAX_PLAYED_LENGTH_FACTOR = 16;
+
+const isAt = (beat: number, mark?: number) => mark !== undefined && Math.abs(beat - mark) < EPSILON;
+
+// A stretch of the written melody, in the order it is played
+export interface PlayedSegment {
+  start: number; // written beat
+  end: number; // written beat
+  at: number; // beat of the unfolded melody it is played from
+}
+
+export interface RepeatBarLine {
+  beat: number; // of the unfolded melody
+  type: 'start' | 'end';
+}
+
+export interface VoltaBracket {
+  start: number; // beat of the unfolded melody
+  end: number;
+  label: string; // e.g. "1." or "1, 2."
+}
+
+export interface NavigationText {
+  beat: number; // of the unfolded melody
+  text: string; // e.g. "D.C. al Fine"
+  side: 'start' | 'end'; // written after or before the bar line
+}
+
+export interface RepeatMarks {
+  barLines: RepeatBarLine[];
+  voltas: VoltaBracket[];
+  texts: NavigationText[];
+}
+
+const hasRepeats = (melody: Melody) =>
+  (melody.repeats?.length ?? 0) > 0 || (melody.voltas?.length ?? 0) > 0 || !!melody.jump;
+
+const getWrittenLength = (melody: Melody) =>
+  Math.max(
+    ...[melody.notes, ...(melody.tracks ?? []).map((track) => track.notes)].map(
+      (events) => getEventStartBeats(events).pop() ?? 0,
+    ),
+  );
+
+/**
+ * The written melody as it is played: repeat sections come round again, voltas are skipped
+ * on passes they are not for, and a D.C. or D.S. goes back once, to Fine or via the coda.
+ * A jump that does not go back, or a coda before the way out to it, is not followed.
+ */
+export const getPlayedSegments = (melody: Melody): PlayedSegment[] => {
+  const total = getWrittenLength(melody);
+  const sections = (melody.repeats ?? []).filter((section) => section.end > section.start);
+  const voltas = (melody.voltas ?? []).filter((volta) => volta.end > volta.start);
+  const jumpTarget = melody.jump?.to === 'segno' ? (melody.jump.segno ?? 0) : 0;
+  const jump = melody.jump && jumpTarget < melody.jump.beat - EPSILON ? melody.jump : undefined;
+
+  const passes = sections.map(() => 1);
+  const getTimes = (section: RepeatSection) => section.times ?? DEFAULT_REPEAT_TIMES;
+  // An ending belongs to the last section starting before it
+  const getSectionIndex = (beat: number) =>
+    sections.reduce((found, section, i) => (section.start <= beat + EPSILON ? i : found), -1);
+
+  const segments: PlayedSegment[] = [];
+  let at = 0;
+  let beat = 0;
+  let jumped = false;
+
+  while (beat < total - EPSILON && at < total * MAX_PLAYED_LENGTH_FACTOR) {
+    const volta = voltas.find((candidate) => isAt(beat, candidate.start));
+    if (volta) {
+      const index = getSectionIndex(volta.start);
+      const pass = index < 0 ? 1 : jumped ? getTimes(sections[index]) : passes[index];
+      if (!volta.passes.includes(pass)) {
+        beat = volta.end;
+        continue;
+      }
+    }
+
+    const stops = [
+      total,
+      ...sections.map((section) => section.end),
+      ...voltas.map((candidate) => candidate.start),
+      ...(jump && !jumped ? [jump.beat] : []),
+      ...(jump && jumped ? [jump.fine, jump.toCoda] : []),
+    ].filter((stop): stop is number => stop !== undefined && stop > beat + EPSILON);
+    const end = Math.min(...stops);
+    // Carrying straight on extends the segment played before
+    const previous = segments[segments.length - 1];
+    if (previous && isAt(beat, previous.end)) {
+      previous.end = end;
+    } else {
+      segments.push({ start: beat, end, at });
+    }
+    at += end - beat;
+    beat = end;
+
+    if (jumped && isAt(beat, jump?.fine)) {
+      break;
+    }
+    if (jumped && jump?.coda !== undefined && jump.coda > beat && isAt(beat, jump.toCoda)) {
+      beat = jump.coda;
+      continue;
+    }
+    if (jump && !jumped && isAt(beat, jump.beat)) {
+      jumped = true;
+      beat = jumpTarget;
+      continue;
+    }
+    const index = sections.findIndex((section) => isAt(beat, section.end));
+    if (!jumped && index >= 0 && passes[index] < getTimes(sections[index])) {
+      passes[index] += 1;
+      beat = sections[index].start;
+    }
+  }
+
+  return segments;
+};
+
+const unfoldEvents = (events: MelodyEvent[], segments: PlayedSegment[]): MelodyEvent[] => {
+  const beats = getEventStartBeats(events);
+  return segments.flatMap((segment, i) => {
+    const played = events.filter(
+      (_, index) => beats[index] >= segment.start - EPSILON && beats[index] < segment.end - EPSILON,
+    );
+    // A tie only carries on into the event written after it
+    const last = played[played.length - 1];
+    const next = segments[i + 1];
+    if (last && !isRest(last) && last.tie && !(next && isAt(next.start, segment.end))) {
+      played[played.length - 1] = { ...last, tie: false };
+    }
+    return played;
+  });
+};
+
+/**
+ * The melody in the order it is played, for the engines and the charts; melodies without
+ * repeats come back as they are
+ */
+export const unfoldMelody = (melody: Melody): Melody => {
+  if (!hasRepeats(melody)) {
+    return melody;
+  }
+
+  const segments = getPlayedSegments(melody);
+  const { repeats: _repeats, voltas: _voltas, jump: _jump, ...written } = melody;
+  const getMeterAt = (beat: number) =>
+    (melody.meterChanges ?? []).reduce(
+      (ratio, change) => (change.beat <= beat + EPSILON ? change.ratio : ratio),
+      melody.ratio,
+    );
+
+  // Every segment restates the tempo and meter it starts in, then brings its own changes
+  // (and a ritardando or accelerando reaching its end)
+  const tempoChanges = segments.flatMap(({ start, end, at }): TempoChange[] => [
+    { beat: at, bpm: getTempoAt(melody, start) },
+    ...(melody.tempoChanges ?? [])
+      .filter(
+        (change) =>
+          change.beat > start + EPSILON && change.beat < end + (change.ramp ? EPSILON : -EPSILON),
+      )
+      .map((change) => ({ ...change, beat: change.beat - start + at })),
+  ]);
+  const meterChanges = segments
+    .flatMap(({ start, end, at }): MeterChange[] => [
+      { beat: at, ratio: getMeterAt(start) },
+      ...(melody.meterChanges ?? [])
+        .filter((change) => change.beat > start + EPSILON && change.beat < end - EPSILON)
+        .map((change) => ({ ...change, beat: change.beat - start + at })),
+    ])
+    .filter((change, i, changes) => {
+      const previous = i > 0 ? changes[i - 1].ratio : melody.ratio;
+      return change.ratio.join('/') !== previous.join('/');
+    });
+
+  return {
+    ...written,
+    notes: unfoldEvents(melody.notes, segments),
+    ...(melody.tracks
+      ? {
+          tracks: melody.tracks.map((track) => ({
+            ...track,
+            notes: unfoldEvents(track.notes, segments),
+          })),
+        }
+      : {}),
+    tempoChanges,
+    ...(meterChanges.length > 0 ? { meterChanges } : {}),
+  };
+};
+
+/**
+ * Repeat bar lines, volta brackets and D.C./D.S. directions where they show up in the
+ * unfolded melody: on every pass through the measures they are written in
+ */
+export const getRepeatMarks = (melody: Melody): RepeatMarks => {
+  const marks: RepeatMarks = { barLines: [], voltas: [], texts: [] };
+  if (!hasRepeats(melody)) {
+    return marks;
+  }
+
+  const segments = getPlayedSegments(melody);
+  // Where a written beat is played: marks after a bar line go with the measure that follows it,
+  // marks before one with the measure that ends there
+  const getPlayedBeats = (beat: number, side: 'start' | 'end') =>
+    segments
+      .filter(({ start, end }) =>
+        side === 'start'
+          ? beat >= start - EPSILON && beat < end - EPSILON
+          : beat > start + EPSILON && beat <= end + EPSILON,
+      )
+      .map(({ start, at }) => beat - start + at);
+
+  (melody.repeats ?? []).forEach((section) => {
+    // The start of the melody needs no start repeat sign
+    if (section.start > EPSILON) {
+      getPlayedBeats(section.start, 'start').forEach((beat) =>
+        marks.barLines.push({ beat, type: 'start' }),
+      );
+    }
+    getPlayedBeats(section.end, 'end').forEach((beat) =>
+      marks.barLines.push({ beat, type: 'end' }),
+    );
+  });
+
+  (melody.voltas ?? []).forEach((volta) => {
+    const label = `${volta.passes.join(', ')}.`;
+    getPlayedBeats(volta.start, 'start').forEach((start) =>
+      marks.voltas.push({ start, end: start + volta.end - volta.start, label }),
+    );
+  });
+
+  const { jump } = melody;
+  if (jump) {
+    const ending =
+      jump.fine !== undefined ? ' al Fine' : jump.toCoda !== undefined ? ' al Coda' : '';
+    const texts: { beat?: number; text: string; side: 'start' | 'end' }[] = [
+      { beat: jump.beat, text: `${jump.to === 'segno' ? 'D.S.' : 'D.C.'}${ending}`, side: 'end' },
+      { beat: jump.to === 'segno' ? jump.segno : undefined, text: '𝄋', side: 'start' },
+      { beat: jump.fine, text: 'Fine', side: 'end' },
+      { beat: jump.toCoda, text: 'To Coda 𝄌', side: 'end' },
+      { beat: jump.coda, text: '𝄌', side: 'start' },
+    ];
+    texts.forEach(({ beat, text, side }) => {
+      if (beat !== undefined) {
+        getPlayedBeats(beat, side).forEach((played) =>
+          marks.texts.push({ beat: played, text, side }),
+        );
+      }
+    });
+  }
+
+  return marks;
+};
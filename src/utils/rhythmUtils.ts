@@ -0,0 +1,225 @@
+import type { MeterChange, Tuplet } from '@lib/components/Chart';
+
+export type NoteValueType = 'whole' | 'half' | 'quarter' | 'eighth' | '16th' | '32nd';
+
+// Length of each undotted note value in beats (quarter note = 1)
+export const NOTE_VALUE_BEATS: Record<NoteValueType, number> = {
+  whole: 4,
+  half: 2,
+  quarter: 1,
+  eighth: 0.5,
+  '16th': 0.25,
+  '32nd': 0.125,
+};
+
+export interface NoteValue {
+  type: NoteValueType;
+  dots: number;
+}
+
+/**
+ * Length in beats of a note value with the given number of dots
+ */
+export const getDottedBeats = (type: NoteValueType, dots: number): number => {
+  const base = NOTE_VALUE_BEATS[type];
+  // Each dot adds half of the previous addition: 1 + 1/2 + 1/4 ...
+  return base * (2 - Math.pow(0.5, dots));
+};
+
+/**
+ * Find the written note value (with up to two dots) that matches a duration exactly.
+ * Returns null for durations that need ties or tuplets.
+ */
+export const getNoteValue = (duration: number): NoteValue | null => {
+  for (const type of Object.keys(NOTE_VALUE_BEATS) as NoteValueType[]) {
+    for (let dots = 0; dots <= 2; dots++) {
+      if (Math.abs(getDottedBeats(type, dots) - duration) < 1e-6) {
+        return { type, dots };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Longest undotted note value that fits in a duration (a 32nd for anything shorter)
+ */
+export const getClosestNoteValue = (duration: number): NoteValueType =>
+  (Object.keys(NOTE_VALUE_BEATS) as NoteValueType[]).find(
+    (type) => NOTE_VALUE_BEATS[type] <= duration + 1e-6,
+  ) ?? '32nd';
+
+/**
+ * Length of one measure in beats (quarter note = 1), e.g. 6/8 -> 3
+ */
+export const getMeasureDuration = (ratio: [number, number]): number => {
+  const [beatsPerMeasure, beatNoteValue] = ratio;
+  return beatsPerMeasure * (4 / beatNoteValue);
+};
+
+/**
+ * Written note value of an event: the tuplet ratio is taken out of the duration and
+ * explicit dots are honoured. Returns null when no single value fits.
+ */
+export const getWrittenValue = (event: {
+  duration: number;
+  dots?: number;
+  tuplet?: Tuplet;
+}): NoteValue | null => {
+  const written = event.tuplet
+    ? (event.duration * event.tuplet.actual) / event.tuplet.normal
+    : event.duration;
+
+  if (event.dots !== undefined) {
+    const dots = event.dots;
+    const type = (Object.keys(NOTE_VALUE_BEATS) as NoteValueType[]).find(
+      (t) => Math.abs(getDottedBeats(t, dots) - written) < 1e-6,
+    );
+    if (type) {
+      return { type, dots };
+    }
+  }
+  return getNoteValue(written);
+};
+
+/**
+ * Beat every event starts on, from the start of the melody, then the beat the last one ends on
+ */
+export const getEventStartBeats = (events: { duration: number }[]): number[] => {
+  const beats = [0];
+  events.forEach((event, i) => beats.push(beats[i] + event.duration));
+  return beats;
+};
+
+export interface Measure {
+  beat: number; // beats from the start of the melody
+  ratio: [number, number]; // meter of the measure
+}
+
+/**
+ * Measures covering a length in beats (at least one): the meter starts as `ratio` and changes
+ * at each meter change. A change between bar lines cuts the measure before it short.
+ */
+export const getMeasures = (
+  totalDuration: number,
+  ratio: [number, number],
+  meterChanges: MeterChange[] = [],
+): Measure[] => {
+  const measures: Measure[] = [];
+  let current = ratio;
+  let changeIndex = 0;
+  let beat = 0;
+
+  while (measures.length === 0 || beat < totalDuration - 1e-6) {
+    while (changeIndex < meterChanges.length && meterChanges[changeIndex].beat <= beat + 1e-6) {
+      current = meterChanges[changeIndex].ratio;
+      changeIndex += 1;
+    }
+    measures.push({ beat, ratio: current });
+    const nextChange = meterChanges[changeIndex]?.beat ?? Infinity;
+    beat = Math.min(beat + getMeasureDuration(current), nextChange);
+  }
+  return measures;
+};
+
+/**
+ * Index of the measure a beat falls in
+ */
+export const getMeasureIndexAt = (measures: Measure[], beat: number): number => {
+  let index = 0;
+  while (index + 1 < measures.length && measures[index + 1].beat <= beat + 1e-6) {
+    index += 1;
+  }
+  return index;
+};
+
+export interface MeasureStart extends Measure {
+  number: number; // 1-based measure number
+  noteIndex: number; // first event starting on or after the bar line, -1 when none does
+}
+
+/**
+ * Where each measure begins, from the time signature (and its changes) and the event durations
+ */
+export const getMeasureStarts = (
+  events: { duration: number }[],
+  ratio: [number, number],
+  meterChanges?: MeterChange[],
+): MeasureStart[] => {
+  const totalDuration = events.reduce((acc, event) => acc + event.duration, 0);
+
+  let eventIndex = 0;
+  let eventBeat = 0;
+  return getMeasures(totalDuration, ratio, meterChanges).map((measure, i) => {
+    while (eventIndex < events.length && eventBeat < measure.beat - 1e-6) {
+      eventBeat += events[eventIndex].duration;
+      eventIndex += 1;
+    }
+    return { ...measure, number: i + 1, noteIndex: eventIndex < events.length ? eventIndex : -1 };
+  });
+};
+
+/**
+ * Length of the beat groups short notes are beamed in: a dotted quarter in compound
+ * meters (6/8, 9/8, 12/8, and 3/8 as one group), a quarter otherwise
+ */
+export const getBeamGroupDuration = (ratio: [number, number]): number =>
+  ratio[1] === 8 && ratio[0] % 3 === 0 ? 1.5 : 1;
+
+/**
+ * Indices of the events beamed together: runs of two or more beamable events
+ * (`beams` > 0, i.e. eighths and shorter) that start and end within one beat group.
+ * Rests and longer notes break a beam.
+ */
+export const getBeamGroups = (
+  events: { duration: number; beams: number }[],
+  ratio: [number, number],
+  meterChanges?: MeterChange[],
+): number[][] => {
+  const measures = getMeasures(
+    events.reduce((acc, event) => acc + event.duration, 0),
+    ratio,
+    meterChanges,
+  );
+  // Beat groups restart at every bar line, so odd meters like 5/8 stay aligned
+  const getGroupId = (beat: number, isEnd: boolean) => {
+    const nudge = isEnd ? -2e-6 : 0;
+    const index = getMeasureIndexAt(measures, beat + nudge);
+    const measure = measures[index];
+    const position = beat - measure.beat;
+    const groupDuration = getBeamGroupDuration(measure.ratio);
+    return `${index}:${Math.floor(position / groupDuration + (isEnd ? -1e-6 : 1e-6))}`;
+  };
+
+  const groups: number[][] = [];
+  let current: number[] = [];
+  let currentId: string | null = null;
+  let beat = 0;
+
+  const flush = () => {
+    if (current.length > 1) {
+      groups.push(current);
+    }
+    current = [];
+    currentId = null;
+  };
+
+  events.forEach((event, index) => {
+    const startId = getGroupId(beat, false);
+    const endId = getGroupId(beat + event.duration, true);
+    beat += event.duration;
+
+    if (event.beams === 0 || startId !== endId) {
+      flush();
+      return;
+    }
+    if (startId !== currentId) {
+      flush();
+      currentId = startId;
+    }
+    current.push(index);
+  });
+  flush();
+
+  return groups;
+};
@@ -0,0 +1,79 @@
+import type { Melody } from '@lib/components/Chart';
+
+// Written tempo of a melody without one, and the global tempo at which melodies play as written:
+// the global tempo scales every tempo of the map by its ratio to this one
+export const DEFAULT_TEMPO = 120;
+
+export type TempoMap = Pick<Melody, 'tempo' | 'tempoChanges'>;
+
+interface TempoSegment {
+  start: number; // beat
+  end: number; // beat, Infinity for the last segment
+  from: number; // bpm at `start`
+  to: number; // bpm at `end`; the tempo moves linearly by beat in between
+}
+
+const getTempoSegments = (map: TempoMap): TempoSegment[] => {
+  const segments: TempoSegment[] = [];
+  let beat = 0;
+  let bpm = map.tempo ?? DEFAULT_TEMPO;
+
+  (map.tempoChanges ?? []).forEach((change) => {
+    if (change.beat > beat) {
+      segments.push({
+        start: beat,
+        end: change.beat,
+        from: bpm,
+        to: change.ramp ? change.bpm : bpm,
+      });
+      beat = change.beat;
+    }
+    bpm = change.bpm;
+  });
+  segments.push({ start: beat, end: Infinity, from: bpm, to: bpm });
+
+  return segments;
+};
+
+/**
+ * Written tempo at a beat, in quarter notes per minute
+ */
+export const getTempoAt = (map: TempoMap, beat: number): number => {
+  const segment = getTempoSegments(map).find(({ end }) => beat < end)!;
+  if (segment.to === segment.from) {
+    return segment.from;
+  }
+  const progress = (beat - segment.start) / (segment.end - segment.start);
+  return segment.from + (segment.to - segment.from) * progress;
+};
+
+/**
+ * Milliseconds from one beat to another following the tempo map, with every tempo scaled by
+ * the global tempo (DEFAULT_TEMPO plays the map as written)
+ */
+export const getBeatSpanMs = (
+  map: TempoMap,
+  fromBeat: number,
+  toBeat: number,
+  globalTempo: number,
+): number => {
+  let minutes = 0;
+
+  getTempoSegments(map).forEach(({ start, end, from, to }) => {
+    const a = Math.max(start, fromBeat);
+    const b = Math.min(end, toBeat);
+    if (b <= a) {
+      return;
+    }
+    if (from === to) {
+      minutes += (b - a) / from;
+      return;
+    }
+    // Beats per minute grow linearly with the beat, so the time is a logarithm
+    const slope = (to - from) / (end - start);
+    const bpmAt = (beat: number) => from + slope * (beat - start);
+    minutes += Math.log(bpmAt(b) / bpmAt(a)) / slope;
+  });
+
+  return (minutes * 60000 * DEFAULT_TEMPO) / globalTempo;
+};
@@ -0,0 +1,162 @@
+import type { Melody, MelodyEvent, MelodyTrack } from '@lib/components/Chart';
+import type { TrackRole } from '@lib/store';
+
+import { getEventVelocities } from './dynamicsUtils';
+import { createPitchedEvent, getEventPitches, isRest, isTiedFromPrevious } from './melodyUtils';
+import { getEventStartBeats } from './rhythmUtils';
+
+export const MAIN_TRACK_ID = 'main';
+const MAIN_TRACK_NAME = 'Melody';
+
+// Beats are sums of fractions (triplets), so onsets are compared rounded
+const roundBeat = (beat: number) => Math.round(beat * 1e6) / 1e6;
+
+/**
+ * Every track of a melody, the main line first
+ */
+export const getTracks = (melody: Melody): MelodyTrack[] => [
+  { id: MAIN_TRACK_ID, name: melody.trackName ?? MAIN_TRACK_NAME, notes: melody.notes },
+  ...(melody.tracks ?? []),
+];
+
+/**
+ * Who plays a track: the user's choice, else the user plays the main line and the app the rest
+ */
+export const getTrackRole = (trackId: string, roles: Record<string, TrackRole>): TrackRole =>
+  roles[trackId] ?? (trackId === MAIN_TRACK_ID ? 'user' : 'app');
+
+/**
+ * Tracks the practice line is made of: the ones the user plays or, when they play none,
+ * the ones the app plays (and the main line when everything is muted)
+ */
+const getLeadTracks = (melody: Melody, roles: Record<string, TrackRole>): MelodyTrack[] => {
+  const tracks = getTracks(melody);
+  const byRole = (role: TrackRole) =>
+    tracks.filter((track) => getTrackRole(track.id, roles) === role);
+  const user = byRole('user');
+  if (user.length > 0) {
+    return user;
+  }
+  const app = byRole('app');
+  return app.length > 0 ? app : tracks.slice(0, 1);
+};
+
+/**
+ * Several lines as one: an event wherever any line starts one, with the pitches starting there.
+ * A note held over another line's onset is not repeated, so it only sounds until that onset;
+ * where nothing new starts, the previous event is tied on while all of its notes are still held,
+ * and a rest follows otherwise.
+ */
+export const mergeLines = (lines: MelodyEvent[][]): MelodyEvent[] => {
+  if (lines.length === 1) {
+    return lines[0];
+  }
+
+  const onsets = new Map<number, { pitches: Set<string>; velocity?: number }>();
+  const sounding: { start: number; end: number; pitches: string[] }[] = [];
+  let end = 0;
+
+  lines.forEach((line) => {
+    const beats = getEventStartBeats(line);
+    const velocities = getEventVelocities(line);
+    line.forEach((event, index) => {
+      const beat = roundBeat(beats[index]);
+      const onset = onsets.get(beat) ?? { pitches: new Set<string>() };
+      onsets.set(beat, onset);
+      if (isRest(event)) {
+        return;
+      }
+      // A tie extends the sound it continues
+      if (isTiedFromPrevious(line, index)) {
+        sounding[sounding.length - 1].end = roundBeat(beats[index + 1]);
+        return;
+      }
+      sounding.push({
+        start: beat,
+        end: roundBeat(beats[index + 1]),
+        pitches: getEventPitches(event),
+      });
+      getEventPitches(event).forEach((pitch) => onset.pitches.add(pitch));
+      // The loudest line sets the velocity of the merged event
+      const velocity = velocities[index];
+      if (velocity !== undefined) {
+        onset.velocity = Math.max(onset.velocity ?? 0, velocity);
+      }
+    });
+    end = Math.max(end, roundBeat(beats[line.length]));
+  });
+
+  const starts = Array.from(onsets.keys()).sort((a, b) => a - b);
+  const merged: MelodyEvent[] = [];
+  starts.forEach((beat, i) => {
+    const duration = (starts[i + 1] ?? end) - beat;
+    if (duration <= 0) {
+      return;
+    }
+
+    const { pitches, velocity } = onsets.get(beat)!;
+    if (pitches.size > 0) {
+      merged.push(
+        createPitchedEvent(
+          Array.from(pitches),
+          duration,
+          velocity !== undefined ? { velocity } : {},
+        ),
+      );
+      return;
+    }
+
+    const previous = merged[merged.length - 1];
+    const held = new Set(
+      sounding
+        .filter((span) => span.start < beat && span.end > beat)
+        .flatMap((span) => span.pitches),
+    );
+    const previousPitches = previous ? getEventPitches(previous) : [];
+    const isHeld =
+      held.size > 0 &&
+      held.size === previousPitches.length &&
+      previousPitches.every((pitch) => held.has(pitch));
+    if (isHeld) {
+      merged[merged.length - 1] = { ...previous, tie: true };
+      merged.push(createPitchedEvent(previousPitches, duration));
+    } else {
+      merged.push({ rest: true, duration });
+    }
+  });
+
+  return merged;
+};
+
+/**
+ * Line the engines follow: the tracks the user plays merged into one, lasting as long as
+ * the longest track so the accompaniment can finish
+ */
+export const getPracticeLine = (
+  melody: Melody,
+  roles: Record<string, TrackRole>,
+): MelodyEvent[] => {
+  const line = mergeLines(getLeadTracks(melody, roles).map((track) => track.notes));
+  const length = getEventStartBeats(line).pop() ?? 0;
+  const total = Math.max(
+    ...getTracks(melody).map((track) => getEventStartBeats(track.notes).pop() ?? 0),
+  );
+  return total - length > 1e-6 ? [...line, { rest: true, duration: total - length }] : line;
+};
+
+/**
+ * Tracks the app plays along with the practice line
+ */
+export const getAccompaniment = (
+  melody: Melody,
+  roles: Record<string, TrackRole>,
+): MelodyEvent[][] => {
+  const lead = getLeadTracks(melody, roles);
+  return getTracks(melody)
+    .filter(
+      (track) =>
+        !lead.some((leadTrack) => leadTrack.id === track.id) &&
+        getTrackRole(track.id, roles) === 'app',
+    )
+    .map((track) => track.notes);
+};
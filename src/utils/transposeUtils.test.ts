@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Melody } from '@lib/components/Chart';
+
+import { getTransposedKey, getTransposedKeys, transposeMelody } from './transposeUtils';
+
+const melody: Melody = {
+  ratio: [4, 4],
+  notes: [
+    { note: 'C4', duration: 1 },
+    { note: 'F4', duration: 1 },
+  ],
+};
+
+describe('getTransposedKey', () => {
+  it('offers every spelling of the tonic a shift leads to', () => {
+    expect(getTransposedKeys(undefined, 6)).toEqual([
+      { fifths: -6, mode: 'major' },
+      { fifths: 6, mode: 'major' },
+    ]);
+    expect(getTransposedKeys({ fifths: -7, mode: 'major' }, 0)).toEqual([
+      { fifths: -7, mode: 'major' },
+      { fifths: 5, mode: 'major' },
+    ]);
+  });
+
+  it('keeps the picked spelling while the shift leads to it', () => {
+    const fSharp = { fifths: 6, mode: 'major' } as const;
+
+    expect(getTransposedKey(undefined, 6)).toEqual({ fifths: -6, mode: 'major' });
+    expect(getTransposedKey(undefined, 6, fSharp)).toEqual(fSharp);
+    expect(getTransposedKey(undefined, 5, fSharp)).toEqual({ fifths: -1, mode: 'major' });
+    expect(transposeMelody(melody, 6, fSharp).notes).toEqual([
+      { note: 'F#4', duration: 1 },
+      { note: 'B4', duration: 1 },
+    ]);
+  });
+});
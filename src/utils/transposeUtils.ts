@@ -0,0 +1,156 @@
+import type { KeySignature, Melody, MelodyEvent } from '@lib/components/Chart';
+
+import { getKeyTonic, spellMidi } from './keyUtils';
+import { getEventPitches, isChord, isRest } from './melodyUtils';
+import { formatNoteName, LETTER_SEMITONES, noteNameToMidi, parseNoteName } from './musicUtils';
+
+const LETTERS = Object.keys(LETTER_SEMITONES);
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+const C_MAJOR: KeySignature = { fifths: 0, mode: 'major' };
+
+/**
+ * Every key signature a melody can be written in once shifted by some semitones: the
+ * enharmonic spellings of its new tonic, flattest first (6 up from C major -> Gb or F# major)
+ */
+export const getTransposedKeys = (
+  key: KeySignature | undefined,
+  semitones: number,
+): KeySignature[] => {
+  const from = key ?? C_MAJOR;
+  // A semitone up is seven fifths up, or five down
+  const fifths = from.fifths + mod(semitones * 7, 12);
+  return [fifths - 24, fifths - 12, fifths, fifths + 12]
+    .filter((f) => Math.abs(f) <= 7)
+    .map((f) => ({ ...from, fifths: f }));
+};
+
+/**
+ * Key signature a melody lands in when shifted by some semitones: `preferred` when it is one
+ * of the spellings, otherwise the one with the fewest accidentals, flats on a tie
+ * (6 up from C major -> Gb major)
+ */
+export const getTransposedKey = (
+  key: KeySignature | undefined,
+  semitones: number,
+  preferred?: KeySignature | null,
+): KeySignature => {
+  const keys = getTransposedKeys(key, semitones);
+  return (
+    keys.find(
+      (candidate) => candidate.fifths === preferred?.fifths && candidate.mode === preferred.mode,
+    ) ?? keys.reduce((a, b) => (Math.abs(b.fifths) < Math.abs(a.fifths) ? b : a))
+  );
+};
+
+/**
+ * Semitones from a key to the nearest tonic of a target key, -6 to 5
+ */
+export const getSemitonesToKey = (from: KeySignature | undefined, to: KeySignature): number => {
+  const tonic = (key: KeySignature) => noteNameToMidi(`${getKeyTonic(key)}4`) ?? 60;
+  return mod(tonic(to) - tonic(from ?? C_MAJOR) + 6, 12) - 6;
+};
+
+/**
+ * Move one pitch by some semitones and letter steps, keeping its spelling relative to the key
+ * (a raised fourth stays a raised fourth). Spellings that would need more than a double
+ * accidental fall back to the key's own.
+ */
+const transposePitch = (
+  pitch: string,
+  semitones: number,
+  steps: number,
+  key: KeySignature,
+): string => {
+  const parsed = parseNoteName(pitch);
+  const midi = noteNameToMidi(pitch);
+  if (!parsed || midi === null) {
+    return pitch;
+  }
+
+  const index = LETTERS.indexOf(parsed.letter) + steps;
+  const letter = LETTERS[mod(index, 7)];
+  const octave = parsed.octave + Math.floor(index / 7);
+  const target = midi + semitones;
+  const alter = target - ((octave + 1) * 12 + LETTER_SEMITONES[letter]);
+  return Math.abs(alter) <= 2 ? formatNoteName({ letter, alter, octave }) : spellMidi(target, key);
+};
+
+const transposeEvents = (
+  events: MelodyEvent[],
+  transpose: (pitch: string) => string,
+): MelodyEvent[] =>
+  events.map((event) => {
+    if (isRest(event)) {
+      return event;
+    }
+    return isChord(event)
+      ? { ...event, notes: event.notes.map(transpose) }
+      : { ...event, note: transpose(event.note) };
+  });
+
+/**
+ * A melody shifted by some semitones, every track with it. The key signature moves along
+ * (to `key` when given, which must be the same number of semitones away), and each note keeps
+ * its place in the scale: letters move by the same step as the tonic.
+ */
+export const transposeMelody = (melody: Melody, semitones: number, key?: KeySignature): Melody => {
+  if (semitones === 0 && (!key || key.fifths === (melody.key ?? C_MAJOR).fifths)) {
+    return melody;
+  }
+
+  const from = melody.key ?? C_MAJOR;
+  const to = key ?? getTransposedKey(from, semitones);
+  // Letter steps between the tonics, in the octave the semitones point to
+  const letterStep = mod(
+    LETTERS.indexOf(getKeyTonic(to)[0]) - LETTERS.indexOf(getKeyTonic(from)[0]),
+    7,
+  );
+  const steps = letterStep + 7 * Math.round(((semitones * 7) / 12 - letterStep) / 7);
+  const transpose = (pitch: string) => transposePitch(pitch, semitones, steps, to);
+
+  return {
+    ...melody,
+    key: to,
+    notes: transposeEvents(melody.notes, transpose),
+    ...(melody.tracks
+      ? {
+          tracks: melody.tracks.map((track) => ({
+            ...track,
+            notes: transposeEvents(track.notes, transpose),
+          })),
+        }
+      : {}),
+  };
+};
+
+/**
+ * Whole octaves to shift a melody by so that as many of its notes as possible fall on a
+ * keyboard of `octaveCount` octaves from C of `baseOctave`; the smallest such shift, keeping
+ * the melody where it is when nothing fits better
+ */
+export const getOctaveShiftToFit = (
+  melody: Melody,
+  baseOctave: number,
+  octaveCount: number,
+): number => {
+  const midis = [melody.notes, ...(melody.tracks ?? []).map((track) => track.notes)]
+    .flat()
+    .flatMap(getEventPitches)
+    .map(noteNameToMidi)
+    .filter((midi): midi is number => midi !== null);
+  if (midis.length === 0) {
+    return 0;
+  }
+
+  const low = (baseOctave + 1) * 12;
+  const high = low + octaveCount * 12 - 1;
+  const countInRange = (shift: number) =>
+    midis.filter((midi) => midi + shift * 12 >= low && midi + shift * 12 <= high).length;
+
+  // Candidates nearest first, so ties keep the smallest move
+  return Array.from({ length: 21 }, (_, i) => (i % 2 === 0 ? i / 2 : -(i + 1) / 2)).reduce(
+    (best, shift) => (countInRange(shift) > countInRange(best) ? shift : best),
+  );
+};
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import solidPlugin from 'vite-plugin-solid';
 import tailwindcss from '@tailwindcss/vite';
@@ -79,4 +80,8 @@ export default defineConfig({
   build: {
     target: 'esnext',
   },
+  test: {
+    // vite-plugin-solid asks for jsdom; the tests run without a DOM
+    environment: 'node',
+  },
 });